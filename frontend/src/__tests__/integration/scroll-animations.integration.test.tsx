@@ -90,9 +90,10 @@ describe('Scroll Animations Integration', () => {
       render(<Pricing />);
       
       expect(screen.getByText('Elige el plan que se ajuste a tu clínica')).toBeInTheDocument();
-      expect(screen.getByText('Plan Básico')).toBeInTheDocument();
-      expect(screen.getByText('Plan Pro')).toBeInTheDocument();
-      expect(screen.getByText('Plan Premium')).toBeInTheDocument();
+      // Plan names also head the comparison table columns, so target the card titles
+      expect(screen.getByRole('heading', { level: 3, name: 'Plan Básico' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { level: 3, name: 'Plan Pro' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { level: 3, name: 'Plan Premium' })).toBeInTheDocument();
     });
 
     it('should have relative positioning for parallax effects', () => {
@@ -0,0 +1,83 @@
+import type { Metadata, ResolvingMetadata } from 'next';
+import { notFound } from 'next/navigation';
+import { LegalDocumentLayout } from '@/components/legal/LegalDocumentLayout';
+import { getMessages, type Locale } from '@/lib/i18n';
+import {
+  LEGAL_DOCUMENTS,
+  isLegalDocumentId,
+  isLegalVersion,
+  listLegalVersions,
+  loadLegalDocument,
+} from '@/lib/legal';
+import { getPageUrls } from '@/lib/siteConfig';
+
+interface LegalPageProps {
+  params: { locale: Locale; document: string; version?: string[] };
+}
+
+// Only the documents and versions found in content/ are generated
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: Locale } }) {
+  const paths = await Promise.all(
+    LEGAL_DOCUMENTS.map(async (document) => {
+      const versions = await listLegalVersions(document, params.locale);
+      return [{ document, version: [] }, ...versions.slice(1).map((version) => ({ document, version: [version] }))];
+    })
+  );
+
+  return paths.flat();
+}
+
+async function getDocument({ locale, document, version }: LegalPageProps['params']) {
+  if (!isLegalDocumentId(document) || (version && (version.length > 1 || !isLegalVersion(version[0])))) {
+    return null;
+  }
+
+  return loadLegalDocument(document, locale, version?.[0]);
+}
+
+export async function generateMetadata({ params }: LegalPageProps, parent: ResolvingMetadata): Promise<Metadata> {
+  const document = await getDocument(params);
+  if (!document) {
+    return {};
+  }
+
+  const { metadata } = getMessages(params.locale);
+  // Older versions point at the current one as canonical
+  const urls = getPageUrls(params.locale, `/${document.id}`);
+  const title = `${document.title} | ${metadata.siteName}`;
+  // Share images come from the document's opengraph-image and twitter-image routes
+  const { openGraph, twitter } = await parent;
+
+  return {
+    title,
+    description: document.description,
+    alternates: urls.alternates,
+    openGraph: {
+      ...urls.openGraph,
+      title,
+      description: document.description,
+      type: 'article',
+      siteName: metadata.siteName,
+      images: openGraph?.images,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: document.description,
+      images: twitter?.images,
+    },
+    // Superseded versions stay reachable but out of search results
+    robots: document.isCurrent ? 'index, follow' : 'noindex, follow',
+  };
+}
+
+export default async function LegalPage({ params }: LegalPageProps) {
+  const document = await getDocument(params);
+  if (!document) {
+    notFound();
+  }
+
+  return <LegalDocumentLayout document={document} />;
+}
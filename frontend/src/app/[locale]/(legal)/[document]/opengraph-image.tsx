@@ -0,0 +1,39 @@
+import { notFound } from 'next/navigation';
+import { SHARE_IMAGE_CONTENT_TYPE, SHARE_IMAGE_SIZE, renderShareImage } from '@/components/seo/ShareImage';
+import { isLegalDocumentId, loadLegalDocument } from '@/lib/legal';
+import { getLegalShareCard, getShareCardAlt } from '@/lib/shareCards';
+import type { Locale } from '@/lib/i18n';
+
+interface ShareImageParams {
+  params: { locale: Locale; document: string };
+}
+
+async function getDocument({ locale, document }: ShareImageParams['params']) {
+  return isLegalDocumentId(document) ? loadLegalDocument(document, locale) : null;
+}
+
+// Shared by every version of the document
+export async function generateImageMetadata({ params }: ShareImageParams) {
+  const document = await getDocument(params);
+  if (!document) {
+    return [];
+  }
+
+  return [
+    {
+      id: 'current',
+      alt: getShareCardAlt(getLegalShareCard(params.locale, document)),
+      size: SHARE_IMAGE_SIZE,
+      contentType: SHARE_IMAGE_CONTENT_TYPE,
+    },
+  ];
+}
+
+export default async function Image({ params }: ShareImageParams) {
+  const document = await getDocument(params);
+  if (!document) {
+    notFound();
+  }
+
+  return renderShareImage(getLegalShareCard(params.locale, document));
+}
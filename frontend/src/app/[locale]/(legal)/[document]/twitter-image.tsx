@@ -0,0 +1,2 @@
+// Same card as OpenGraph
+export { default, generateImageMetadata } from './opengraph-image';
@@ -0,0 +1,39 @@
+import Link from 'next/link';
+import { Footer } from '@/components/sections/Footer';
+import { getMessages, type Locale } from '@/lib/i18n';
+
+/**
+ * Chrome for the legal pages: a slim header back to the landing page and the site footer
+ */
+export default function LegalLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: { locale: Locale };
+}>) {
+  const { legal, metadata } = getMessages(params.locale);
+
+  return (
+    <>
+      <header className="border-b border-gray-100 bg-white">
+        <div className="max-w-6xl mx-auto px-6 lg:px-8 h-16 flex items-center justify-between">
+          <Link href={`/${params.locale}`} className="flex items-center gap-3">
+            <span
+              className="w-8 h-8 bg-gradient-to-br from-[#2C6145] to-[#55A05E] rounded-lg flex items-center justify-center text-white font-bold text-sm"
+              aria-hidden="true"
+            >
+              P
+            </span>
+            <span className="text-lg font-bold text-[#2C6145]">{metadata.siteName}</span>
+          </Link>
+          <Link href={`/${params.locale}`} className="text-sm text-gray-600 hover:text-[#2C6145]">
+            {legal.backHome}
+          </Link>
+        </div>
+      </header>
+      <main className="min-h-screen bg-white">{children}</main>
+      <Footer />
+    </>
+  );
+}
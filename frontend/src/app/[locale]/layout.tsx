@@ -0,0 +1,125 @@
+import type { Metadata } from "next";
+import { cookies, draftMode } from "next/headers";
+import { Montserrat, Lato, Poppins } from "next/font/google";
+import "../globals.css";
+import { LOCALES, getMessages, localeInfo, type Locale } from "@/lib/i18n";
+import { getPageUrls, siteConfig } from "@/lib/siteConfig";
+import { loadContent } from "@/lib/contentProvider";
+import { VISITOR_COOKIE, getAssignments } from "@/lib/experiments";
+import { I18nProvider } from "@/components/providers/I18nProvider";
+import { SiteContentProvider } from "@/components/providers/SiteContentProvider";
+import { ExperimentProvider } from "@/components/providers/ExperimentProvider";
+import { ConsentProvider } from "@/components/providers/ConsentProvider";
+import { CookieConsent } from "@/components/consent/CookieConsent";
+import { TrackingScripts } from "@/components/consent/TrackingScripts";
+import { AttributionCapture } from "@/components/analytics/AttributionCapture";
+import { WebVitalsReporter } from "@/components/analytics/WebVitalsReporter";
+
+// Configure Google Fonts
+const montserrat = Montserrat({
+  subsets: ["latin"],
+  variable: "--font-montserrat",
+  weight: ["400", "600", "700"],
+  display: "swap",
+});
+
+const lato = Lato({
+  subsets: ["latin"],
+  variable: "--font-lato",
+  weight: ["300", "400", "700"],
+  display: "swap",
+});
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  variable: "--font-poppins",
+  weight: ["300", "400", "500", "600"],
+  display: "swap",
+});
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+// Unknown locale segments 404 instead of rendering with a fallback catalog
+export const dynamicParams = false;
+
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  const { metadata } = getMessages(params.locale);
+  const urls = getPageUrls(params.locale);
+
+  return {
+    // Resolves relative metadata URLs (OpenGraph images) against the public origin
+    metadataBase: new URL(siteConfig.url),
+    title: metadata.title,
+    description: metadata.description,
+    keywords: metadata.keywords,
+    authors: [{ name: "Podoclinic" }],
+    robots: "index, follow",
+    alternates: urls.alternates,
+    openGraph: {
+      ...urls.openGraph,
+      title: metadata.title,
+      description: metadata.description,
+      type: "website",
+      siteName: metadata.siteName,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: metadata.title,
+      description: metadata.twitterDescription,
+    },
+  };
+}
+
+export const viewport = {
+  width: "device-width",
+  initialScale: 1,
+  maximumScale: 1,
+};
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: { locale: Locale };
+}>) {
+  // Draft mode (enabled through /api/preview) renders unpublished content
+  const { isEnabled: isPreview } = draftMode();
+  const content = await loadContent(params.locale, { draft: isPreview });
+  const { preview } = getMessages(params.locale);
+
+  // The middleware assigns the visitor ID, so variants are rendered on the server without flicker
+  const experiments = getAssignments(cookies().get(VISITOR_COOKIE)?.value);
+
+  return (
+    <html lang={localeInfo[params.locale].htmlLang} className={`${montserrat.variable} ${lato.variable} ${poppins.variable}`}>
+      <head>
+        <link rel="preconnect" href="https://fonts.googleapis.com" />
+        <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
+      </head>
+      <body className="font-poppins antialiased bg-white text-gray-900">
+        {isPreview && (
+          <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[100] flex items-center gap-3 px-4 py-2 rounded-full bg-[#2C6145] text-white text-sm shadow-lg">
+            {preview.banner}
+            <a href={`/api/preview/exit?slug=/${params.locale}`} className="underline font-medium">
+              {preview.exit}
+            </a>
+          </div>
+        )}
+        <I18nProvider locale={params.locale}>
+          <ConsentProvider>
+            <ExperimentProvider assignments={experiments}>
+              <SiteContentProvider content={content}>{children}</SiteContentProvider>
+            </ExperimentProvider>
+            <CookieConsent />
+            <TrackingScripts />
+            <AttributionCapture />
+            <WebVitalsReporter />
+          </ConsentProvider>
+        </I18nProvider>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,33 @@
+import { notFound } from 'next/navigation';
+import { SHARE_IMAGE_CONTENT_TYPE, SHARE_IMAGE_SIZE, renderShareImage } from '@/components/seo/ShareImage';
+import {
+  getHomeShareImageIds,
+  getHomeVariantShareCard,
+  getShareCardAlt,
+  type HomeShareImageId,
+} from '@/lib/shareCards';
+import type { Locale } from '@/lib/i18n';
+
+interface ShareImageParams {
+  params: { locale: Locale };
+}
+
+// One image per variant: /<locale>/opengraph-image/home, /<locale>/opengraph-image/pro, ...
+export async function generateImageMetadata({ params }: ShareImageParams) {
+  return Promise.all(
+    getHomeShareImageIds().map(async (id) => ({
+      id,
+      alt: getShareCardAlt(await getHomeVariantShareCard(params.locale, id)),
+      size: SHARE_IMAGE_SIZE,
+      contentType: SHARE_IMAGE_CONTENT_TYPE,
+    }))
+  );
+}
+
+export default async function Image({ params, id }: ShareImageParams & { id: string }) {
+  if (!getHomeShareImageIds().includes(id as HomeShareImageId)) {
+    notFound();
+  }
+
+  return renderShareImage(await getHomeVariantShareCard(params.locale, id as HomeShareImageId));
+}
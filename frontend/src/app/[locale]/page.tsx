@@ -0,0 +1,58 @@
+import type { Metadata } from 'next';
+import { draftMode } from 'next/headers';
+import { HomePage } from '@/components/layout/HomePage';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { SHARE_IMAGE_SIZE } from '@/components/seo/ShareImage';
+import { loadContent } from '@/lib/contentProvider';
+import { getMessages, type Locale } from '@/lib/i18n';
+import { PLAN_PARAM } from '@/lib/planSelection';
+import { HOME_SHARE_IMAGE_ID, getHomeShareImageId, getHomeVariantShareCard, getShareCardAlt } from '@/lib/shareCards';
+import { getPageUrls } from '@/lib/siteConfig';
+import { getLandingJsonLd } from '@/lib/structuredData';
+
+interface HomeProps {
+  params: { locale: Locale };
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Share images for the landing page; plan share links (`?plan=pro`) get the plan's card
+ */
+export async function generateMetadata({ params, searchParams }: HomeProps): Promise<Metadata> {
+  const { metadata } = getMessages(params.locale);
+  const imageId = getHomeShareImageId(searchParams[PLAN_PARAM]);
+  const card = await getHomeVariantShareCard(params.locale, imageId);
+  const isPlanShare = imageId !== HOME_SHARE_IMAGE_ID;
+
+  const title = isPlanShare ? `${card.title} | ${metadata.siteName}` : metadata.title;
+  const image = { ...SHARE_IMAGE_SIZE, alt: getShareCardAlt(card) };
+
+  return {
+    openGraph: {
+      ...getPageUrls(params.locale).openGraph,
+      title,
+      description: isPlanShare ? card.description : metadata.description,
+      type: 'website',
+      siteName: metadata.siteName,
+      images: [{ ...image, url: `/${params.locale}/opengraph-image/${imageId}` }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: isPlanShare ? card.description : metadata.twitterDescription,
+      images: [{ ...image, url: `/${params.locale}/twitter-image/${imageId}` }],
+    },
+  };
+}
+
+export default async function Home({ params }: HomeProps) {
+  // Same content as the layout, so offers and FAQ match what the page shows
+  const content = await loadContent(params.locale, { draft: draftMode().isEnabled });
+
+  return (
+    <>
+      <JsonLd data={getLandingJsonLd({ locale: params.locale, content })} />
+      <HomePage />
+    </>
+  );
+}
@@ -0,0 +1,2 @@
+// Same cards as OpenGraph, served under /<locale>/twitter-image/<id>
+export { default, generateImageMetadata } from './opengraph-image';
@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the generated sitemap and robots.txt
+ */
+
+import robots from '../robots';
+import sitemap from '../sitemap';
+import { listLegalVersions } from '@/lib/legal';
+import { siteConfig } from '@/lib/siteConfig';
+
+describe('sitemap', () => {
+  it('lists every route in every locale with hreflang alternates', async () => {
+    const entries = await sitemap();
+
+    expect(entries).toHaveLength(siteConfig.routes.length * siteConfig.locales.length);
+    expect(entries[0]).toEqual({
+      url: `${siteConfig.url}/es`,
+      changeFrequency: 'weekly',
+      priority: 1,
+      alternates: {
+        languages: {
+          'es-CL': `${siteConfig.url}/es`,
+          en: `${siteConfig.url}/en`,
+          'pt-BR': `${siteConfig.url}/pt`,
+          'x-default': `${siteConfig.url}/es`,
+        },
+      },
+    });
+  });
+
+  it('dates legal pages by their current version', async () => {
+    const entries = await sitemap();
+    const [current] = await listLegalVersions('cookies', 'en');
+
+    expect(entries.find((entry) => entry.url === `${siteConfig.url}/en/cookies`)?.lastModified).toBe(current);
+  });
+});
+
+describe('robots', () => {
+  it('points crawlers to the sitemap and keeps them out of the API', () => {
+    const rules = robots();
+
+    expect(rules.sitemap).toBe(`${siteConfig.url}/sitemap.xml`);
+    expect(rules.rules).toMatchObject({ userAgent: '*', allow: '/', disallow: expect.arrayContaining(['/api/']) });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the /api/contact route handler
+ */
+
+import { POST } from '../route';
+import { createMemoryLeadStorage, setLeadStorage, type LeadStorage } from '@/lib/leadStorage';
+import { setRateLimitStore } from '@/lib/rateLimit';
+import { HONEYPOT_FIELD, STARTED_AT_FIELD } from '@/lib/spamProtection';
+import { VISITOR_COOKIE, getAssignments } from '@/lib/experiments';
+import { setNotificationDispatcher, type NotificationDispatcher } from '@/lib/notifications';
+
+const leadData = {
+  fullName: 'María González',
+  email: 'maria@clinica.cl',
+  whatsapp: '+56912345678',
+  clinicName: 'Clínica Podológica Los Andes',
+  professionals: '2-5' as const,
+  region: 'RM' as const,
+};
+
+const validPayload = {
+  ...leadData,
+  [HONEYPOT_FIELD]: '',
+  [STARTED_AT_FIELD]: Date.now() - 10_000,
+};
+
+function createRequest(body: unknown, ip = '203.0.113.10', cookie?: string): Request {
+  return new Request('http://localhost/api/contact', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': ip, ...(cookie ? { Cookie: cookie } : {}) },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('POST /api/contact', () => {
+  let storage: LeadStorage;
+  let dispatcher: { notify: jest.MockedFunction<NotificationDispatcher['notify']> };
+
+  beforeEach(() => {
+    storage = createMemoryLeadStorage();
+    dispatcher = { notify: jest.fn().mockResolvedValue([]) };
+    setLeadStorage(storage);
+    setRateLimitStore(null);
+    setNotificationDispatcher(dispatcher);
+  });
+
+  afterEach(() => {
+    setLeadStorage(null);
+    setRateLimitStore(null);
+    setNotificationDispatcher(null);
+  });
+
+  it('stores a valid lead and returns its id', async () => {
+    const response = await POST(createRequest(validPayload));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.success).toBe(true);
+    expect(body.data.id).toEqual(expect.any(String));
+
+    const leads = await storage.list();
+    expect(leads).toHaveLength(1);
+    expect(leads[0]).toMatchObject(leadData);
+    expect(leads[0]).not.toHaveProperty(HONEYPOT_FIELD);
+  });
+
+  it('stores the attribution sent with the lead', async () => {
+    const touch = { source: 'google', medium: 'cpc', landingPage: '/es', at: '2025-09-01T12:00:00.000Z' };
+    const attribution = { firstTouch: touch, lastTouch: touch, sectionsViewed: ['hero', 'pricing'] };
+
+    await POST(createRequest({ ...validPayload, attribution }, '203.0.113.20'));
+
+    const [lead] = await storage.list();
+    expect(lead.attribution).toEqual(attribution);
+  });
+
+  it('drops malformed attribution instead of rejecting the lead', async () => {
+    const response = await POST(createRequest({ ...validPayload, attribution: { firstTouch: 'google' } }, '203.0.113.21'));
+
+    expect(response.status).toBe(201);
+    const [lead] = await storage.list();
+    expect(lead.attribution).toBeUndefined();
+  });
+
+  it('stores the experiment variants of the visitor cookie', async () => {
+    const visitorId = '3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e43';
+
+    await POST(createRequest(validPayload, '203.0.113.22', `${VISITOR_COOKIE}=${visitorId}`));
+
+    const [lead] = await storage.list();
+    expect(lead.experiments).toEqual(getAssignments(visitorId));
+  });
+
+  it('ignores experiment variants sent in the body', async () => {
+    await POST(createRequest({ ...validPayload, experiments: { heroCta: 'urgency' } }, '203.0.113.23'));
+
+    const [lead] = await storage.list();
+    expect(lead.experiments).toBeUndefined();
+  });
+
+  it('notifies sales about the stored lead', async () => {
+    await POST(createRequest(validPayload));
+
+    const [lead] = await storage.list();
+    expect(dispatcher.notify).toHaveBeenCalledWith(lead);
+  });
+
+  it('waits for the notification before responding', async () => {
+    let delivered = false;
+    dispatcher.notify.mockImplementationOnce(async () => {
+      await Promise.resolve();
+      delivered = true;
+      return [];
+    });
+
+    await POST(createRequest(validPayload));
+
+    expect(delivered).toBe(true);
+  });
+
+  it('still accepts the lead when notifying fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    dispatcher.notify.mockRejectedValueOnce(new Error('SMTP down'));
+
+    const response = await POST(createRequest(validPayload));
+
+    expect(response.status).toBe(201);
+    expect(await storage.list()).toHaveLength(1);
+    expect(consoleSpy).toHaveBeenCalledWith('Lead notification error:', expect.any(Error));
+    consoleSpy.mockRestore();
+  });
+
+  it('returns field errors for an invalid payload', async () => {
+    const response = await POST(createRequest({ ...validPayload, email: 'no-es-email', whatsapp: '221234567' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.success).toBe(false);
+    expect(body.error).toBe('validation_error');
+    expect(body.fieldErrors).toEqual({
+      email: expect.any(String),
+      whatsapp: expect.any(String),
+    });
+    await expect(storage.list()).resolves.toHaveLength(0);
+  });
+
+  it('rejects malformed JSON', async () => {
+    const response = await POST(createRequest('{not json'));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe('invalid_json');
+  });
+
+  it('returns a storage error when persisting fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    setLeadStorage({
+      save: jest.fn().mockRejectedValue(new Error('disk full')),
+      list: jest.fn().mockResolvedValue([]),
+    });
+
+    const response = await POST(createRequest(validPayload));
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.error).toBe('storage_error');
+    consoleSpy.mockRestore();
+  });
+
+  it('pretends to accept honeypot submissions without storing them', async () => {
+    const response = await POST(createRequest({ ...validPayload, [HONEYPOT_FIELD]: 'http://spam.example' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.success).toBe(true);
+    await expect(storage.list()).resolves.toHaveLength(0);
+    expect(dispatcher.notify).not.toHaveBeenCalled();
+  });
+
+  it('rejects submissions sent too quickly', async () => {
+    const response = await POST(createRequest({ ...validPayload, [STARTED_AT_FIELD]: Date.now() }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe('submission_too_fast');
+    await expect(storage.list()).resolves.toHaveLength(0);
+  });
+
+  it('rate limits by IP address', async () => {
+    const responses = [];
+    for (let i = 0; i < 6; i++) {
+      responses.push(await POST(createRequest({ ...validPayload, email: `lead${i}@clinica.cl` })));
+    }
+
+    const limited = responses[5];
+    const body = await limited.json();
+
+    expect(responses.slice(0, 5).map((response) => response.status)).toEqual([201, 201, 201, 201, 201]);
+    expect(limited.status).toBe(429);
+    expect(body.error).toBe('rate_limited');
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('rate limits by email across different IPs', async () => {
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await POST(createRequest(validPayload, `198.51.100.${i}`))).status);
+    }
+
+    expect(statuses).toEqual([201, 201, 201, 429]);
+    await expect(storage.list()).resolves.toHaveLength(3);
+  });
+});
@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { createContactSchema, getFieldErrors } from '@/lib/validation';
+import { DEFAULT_LOCALE, getMessages, isLocale } from '@/lib/i18n';
+import { getLeadStorage } from '@/lib/leadStorage';
+import { createRateLimiter, getClientIp, type RateLimitConfig, type RateLimitResult } from '@/lib/rateLimit';
+import { detectSpam } from '@/lib/spamProtection';
+import { getNotificationDispatcher } from '@/lib/notifications';
+import { getAssignments, getVisitorIdFromCookieHeader } from '@/lib/experiments';
+import type { ApiResponse, Lead } from '@/types';
+
+// Burst of 5 requests per IP, then one every 2 minutes
+const IP_RATE_LIMIT: RateLimitConfig = { capacity: 5, refillIntervalMs: 2 * 60 * 1000 };
+
+// Burst of 3 requests per email, then one every 20 minutes
+const EMAIL_RATE_LIMIT: RateLimitConfig = { capacity: 3, refillIntervalMs: 20 * 60 * 1000 };
+
+const SUCCESS_MESSAGE = '¡Gracias! Hemos recibido tu solicitud. Te contactaremos pronto para coordinar tu demostración gratuita.';
+
+function rateLimitedResponse(result: RateLimitResult) {
+  return NextResponse.json<ApiResponse>(
+    {
+      success: false,
+      error: 'rate_limited',
+      message: 'Has enviado demasiadas solicitudes. Por favor intenta nuevamente en unos minutos.',
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)) },
+    }
+  );
+}
+
+/**
+ * Receive a demo request from the Contact form
+ * Filters bots, rate limits per IP and email, re-validates the payload,
+ * persists it through the active lead storage and notifies sales
+ */
+export async function POST(request: Request) {
+  const ipLimit = await createRateLimiter('contact:ip', IP_RATE_LIMIT).consume(getClientIp(request));
+  if (!ipLimit.allowed) {
+    return rateLimitedResponse(ipLimit);
+  }
+
+  let payload: unknown;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'invalid_json', message: 'El cuerpo de la solicitud no es válido.' },
+      { status: 400 }
+    );
+  }
+
+  const spamSignal = typeof payload === 'object' && payload !== null
+    ? detectSpam(payload as Record<string, unknown>)
+    : null;
+
+  // Pretend the honeypot submission succeeded so bots get no feedback
+  if (spamSignal === 'honeypot') {
+    return NextResponse.json<ApiResponse>({ success: true, message: SUCCESS_MESSAGE }, { status: 201 });
+  }
+
+  if (spamSignal === 'too_fast') {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'submission_too_fast',
+        message: 'El formulario se envió demasiado rápido. Por favor espera unos segundos e intenta nuevamente.',
+      },
+      { status: 400 }
+    );
+  }
+
+  // Field errors come back in the language the form was filled in
+  const requestedLocale = (payload as { locale?: unknown } | null)?.locale;
+  const locale = isLocale(requestedLocale) ? requestedLocale : DEFAULT_LOCALE;
+  const result = createContactSchema(getMessages(locale)).safeParse(payload);
+
+  if (!result.success) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'validation_error',
+        message: 'Revisa los datos del formulario.',
+        fieldErrors: getFieldErrors(result.error),
+      },
+      { status: 422 }
+    );
+  }
+
+  const emailLimit = await createRateLimiter('contact:email', EMAIL_RATE_LIMIT).consume(result.data.email);
+  if (!emailLimit.allowed) {
+    return rateLimitedResponse(emailLimit);
+  }
+
+  let lead: Lead;
+
+  try {
+    // Variants come from the experiment cookie, never from the request body
+    const visitorId = getVisitorIdFromCookieHeader(request.headers.get('cookie'));
+    lead = await getLeadStorage().save({
+      ...result.data,
+      ...(visitorId ? { experiments: getAssignments(visitorId) } : {}),
+    });
+  } catch (error) {
+    console.error('Lead storage error:', error);
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'storage_error', message: 'Hubo un error al enviar tu solicitud. Por favor intenta nuevamente.' },
+      { status: 500 }
+    );
+  }
+
+  // Awaited because serverless hosts may freeze work left after the response;
+  // the lead is already stored, so a failed notification still succeeds
+  try {
+    await getNotificationDispatcher().notify(lead);
+  } catch (error) {
+    console.error('Lead notification error:', error);
+  }
+
+  return NextResponse.json<ApiResponse<Pick<Lead, 'id' | 'createdAt'>>>(
+    {
+      success: true,
+      data: { id: lead.id, createdAt: lead.createdAt },
+      message: SUCCESS_MESSAGE,
+    },
+    { status: 201 }
+  );
+}
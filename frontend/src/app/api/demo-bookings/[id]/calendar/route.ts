@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getBookingStorage } from '@/lib/bookingStorage';
+import { createIcsEvent } from '@/lib/calendar';
+import type { ApiResponse } from '@/types';
+
+/**
+ * Download a booked demo as an .ics calendar file
+ */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const booking = await getBookingStorage().get(params.id);
+
+  if (!booking) {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'not_found', message: 'No encontramos esta demostración.' },
+      { status: 404 }
+    );
+  }
+
+  const ics = createIcsEvent({
+    uid: `${booking.id}@podoclinic.cl`,
+    start: booking.start,
+    end: booking.end,
+    createdAt: booking.createdAt,
+    summary: 'Demostración Podoclinic',
+    description: 'Demostración personalizada del sistema Podoclinic. Te enviaremos el enlace de la videollamada por email.',
+    location: 'Videollamada',
+    organizerEmail: 'contacto@podoclinic.cl',
+  });
+
+  return new NextResponse(ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="demo-podoclinic.ics"',
+    },
+  });
+}
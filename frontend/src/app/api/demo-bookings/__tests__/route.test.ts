@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the demo scheduling route handlers
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { POST } from '../route';
+import { GET as getCalendar } from '../[id]/calendar/route';
+import { GET as getSlots } from '../../demo-slots/route';
+import { createMemoryLeadStorage, setLeadStorage, type LeadStorage } from '@/lib/leadStorage';
+import { createMemoryBookingStorage, setBookingStorage } from '@/lib/bookingStorage';
+import type { Lead } from '@/types';
+
+function createRequest(body: unknown): Request {
+  return new Request('http://localhost/api/demo-bookings', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('demo scheduling routes', () => {
+  let tempDir: string;
+  let leadStorage: LeadStorage;
+  let lead: Lead;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'availability-'));
+    const availabilityPath = path.join(tempDir, 'availability.json');
+    const allDay = [{ start: '00:00', end: '23:30' }];
+    await fs.writeFile(availabilityPath, JSON.stringify({
+      minNoticeHours: 0,
+      daysAhead: 3,
+      weekly: {
+        sunday: allDay, monday: allDay, tuesday: allDay, wednesday: allDay,
+        thursday: allDay, friday: allDay, saturday: allDay,
+      },
+    }));
+    process.env.DEMO_AVAILABILITY_PATH = availabilityPath;
+
+    leadStorage = createMemoryLeadStorage();
+    lead = await leadStorage.save({ fullName: 'María González', email: 'maria@clinica.cl', whatsapp: '+56912345678', clinicName: 'Clínica Los Andes', professionals: '1', region: 'RM' });
+    setLeadStorage(leadStorage);
+    setBookingStorage(createMemoryBookingStorage());
+  });
+
+  afterEach(async () => {
+    delete process.env.DEMO_AVAILABILITY_PATH;
+    setLeadStorage(null);
+    setBookingStorage(null);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function getFirstSlot() {
+    const body = await (await getSlots()).json();
+    return body.data.slots[0];
+  }
+
+  it('lists open slots in the configured time zone', async () => {
+    const response = await getSlots();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.timeZone).toBe('America/Santiago');
+    expect(body.data.slots.length).toBeGreaterThan(0);
+  });
+
+  it('books a slot and removes it from the open slots', async () => {
+    const slot = await getFirstSlot();
+
+    const response = await POST(createRequest({ leadId: lead.id, start: slot.start }));
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.data).toMatchObject({ leadId: lead.id, start: slot.start, end: slot.end });
+    expect(await getFirstSlot()).not.toEqual(slot);
+  });
+
+  it('prevents double booking', async () => {
+    const slot = await getFirstSlot();
+    const otherLead = await leadStorage.save({ fullName: 'Ana Pérez', email: 'ana@clinica.cl', whatsapp: '+56987654321', clinicName: 'Podología Sur', professionals: '2-5', region: 'BI' });
+
+    await POST(createRequest({ leadId: lead.id, start: slot.start }));
+    const response = await POST(createRequest({ leadId: otherLead.id, start: slot.start }));
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body.error).toBe('slot_unavailable');
+  });
+
+  it('rejects unknown leads and malformed times', async () => {
+    const slot = await getFirstSlot();
+
+    expect((await POST(createRequest({ leadId: 'unknown', start: slot.start }))).status).toBe(404);
+    expect((await POST(createRequest({ leadId: lead.id, start: 'mañana' }))).status).toBe(422);
+  });
+
+  it('serves the booking as an .ics attachment', async () => {
+    const slot = await getFirstSlot();
+    const booking = (await (await POST(createRequest({ leadId: lead.id, start: slot.start }))).json()).data;
+
+    const response = await getCalendar(new Request('http://localhost'), { params: { id: booking.id } });
+    const ics = await response.text();
+
+    expect(response.headers.get('Content-Type')).toContain('text/calendar');
+    expect(response.headers.get('Content-Disposition')).toContain('attachment');
+    expect(ics).toContain(`UID:${booking.id}@podoclinic.cl`);
+
+    const missing = await getCalendar(new Request('http://localhost'), { params: { id: 'missing' } });
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getFieldErrors } from '@/lib/validation';
+import { getLeadStorage } from '@/lib/leadStorage';
+import { getBookingStorage, isBookingConflictError, loadAvailability } from '@/lib/bookingStorage';
+import { findAvailableSlot } from '@/lib/scheduling';
+import type { ApiResponse, DemoBooking } from '@/types';
+
+const bookingRequestSchema = z.object({
+  leadId: z.string().min(1, 'Falta la solicitud asociada'),
+  start: z.iso.datetime({ offset: true, message: 'Horario inválido' }),
+});
+
+const SLOT_UNAVAILABLE_MESSAGE = 'Ese horario ya no está disponible. Por favor elige otro.';
+
+/**
+ * Book a demo slot for a lead that was just submitted through the Contact form
+ */
+export async function POST(request: Request) {
+  let payload: unknown;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'invalid_json', message: 'El cuerpo de la solicitud no es válido.' },
+      { status: 400 }
+    );
+  }
+
+  const result = bookingRequestSchema.safeParse(payload);
+
+  if (!result.success) {
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'validation_error',
+        message: 'Revisa el horario seleccionado.',
+        fieldErrors: getFieldErrors(result.error),
+      },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const { leadId, start } = result.data;
+    const [leads, availability, bookings] = await Promise.all([
+      getLeadStorage().list(),
+      loadAvailability(),
+      getBookingStorage().list(),
+    ]);
+
+    if (!leads.some((lead) => lead.id === leadId)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'not_found', message: 'No encontramos tu solicitud de demostración.' },
+        { status: 404 }
+      );
+    }
+
+    const slot = findAvailableSlot(start, availability, bookings);
+
+    if (!slot) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'slot_unavailable', message: SLOT_UNAVAILABLE_MESSAGE },
+        { status: 409 }
+      );
+    }
+
+    // The storage re-checks for overlaps atomically to prevent double booking
+    const booking = await getBookingStorage().reserve(leadId, slot);
+
+    return NextResponse.json<ApiResponse<DemoBooking>>(
+      { success: true, data: booking, message: '¡Listo! Tu demostración quedó agendada.' },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isBookingConflictError(error)) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: error.reason,
+          message: error.reason === 'already_booked'
+            ? 'Ya tienes una demostración agendada.'
+            : SLOT_UNAVAILABLE_MESSAGE,
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error('Demo booking error:', error);
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'storage_error', message: 'No pudimos agendar tu demostración. Por favor intenta nuevamente.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getBookingStorage, loadAvailability } from '@/lib/bookingStorage';
+import { generateSlots } from '@/lib/scheduling';
+import type { ApiResponse, DemoSlotsResponse } from '@/types';
+
+// Availability depends on the current time and existing bookings
+export const dynamic = 'force-dynamic';
+
+/**
+ * List the open demo slots
+ */
+export async function GET() {
+  try {
+    const [availability, bookings] = await Promise.all([loadAvailability(), getBookingStorage().list()]);
+
+    return NextResponse.json<ApiResponse<DemoSlotsResponse>>({
+      success: true,
+      data: {
+        timeZone: availability.timeZone,
+        slots: generateSlots(availability, bookings),
+      },
+    });
+  } catch (error) {
+    console.error('Demo availability error:', error);
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'storage_error', message: 'No pudimos cargar los horarios disponibles.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the analytics event collector
+ */
+
+import { POST } from '../route';
+import { createMemoryAnalyticsStorage, setAnalyticsStorage, type AnalyticsStorage } from '@/lib/analyticsStorage';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rateLimit';
+
+let requestCount = 0;
+
+function createRequest(body: string, ip = `10.0.0.${++requestCount}`): Request {
+  return new Request('http://localhost/api/events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain', 'x-forwarded-for': ip },
+    body,
+  });
+}
+
+const event = {
+  name: 'section_view',
+  properties: { section: 'pricing' },
+  path: '/es',
+  timestamp: '2025-09-01T12:00:00.000Z',
+};
+
+describe('POST /api/events', () => {
+  let storage: AnalyticsStorage;
+
+  beforeEach(() => {
+    storage = createMemoryAnalyticsStorage();
+    setAnalyticsStorage(storage);
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    setAnalyticsStorage(null);
+    setRateLimitStore(null);
+  });
+
+  it('stores a valid batch, including beacons sent as text/plain', async () => {
+    const response = await POST(createRequest(JSON.stringify({ events: [event, event] })));
+
+    expect(response.status).toBe(202);
+    const stored = await storage.list();
+    expect(stored).toHaveLength(2);
+    expect(stored[0]).toEqual({ ...event, receivedAt: expect.any(String) });
+  });
+
+  it('rejects malformed JSON', async () => {
+    const response = await POST(createRequest('{'));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('invalid_json');
+  });
+
+  it('rejects invalid events without storing any of the batch', async () => {
+    const response = await POST(createRequest(JSON.stringify({ events: [event, { ...event, name: 'unknown' }] })));
+
+    expect(response.status).toBe(422);
+    expect(await storage.list()).toHaveLength(0);
+  });
+
+  it('rate limits per IP', async () => {
+    const body = JSON.stringify({ events: [event] });
+    for (let i = 0; i < 30; i++) {
+      expect((await POST(createRequest(body, '10.1.1.1'))).status).toBe(202);
+    }
+
+    const response = await POST(createRequest(body, '10.1.1.1'));
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('2');
+  });
+});
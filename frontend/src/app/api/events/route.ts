@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { analyticsBatchSchema } from '@/lib/analytics';
+import { getAnalyticsStorage } from '@/lib/analyticsStorage';
+import { createRateLimiter, getClientIp, type RateLimitConfig } from '@/lib/rateLimit';
+import type { ApiResponse } from '@/types';
+
+// Burst of 30 batches per IP, then one every 2 seconds
+const IP_RATE_LIMIT: RateLimitConfig = { capacity: 30, refillIntervalMs: 2000 };
+
+/**
+ * Collect a batch of analytics events from the browser (fetch or sendBeacon)
+ * The client IP is only used for rate limiting and is never stored
+ */
+export async function POST(request: Request) {
+  const ipLimit = await createRateLimiter('events:ip', IP_RATE_LIMIT).consume(getClientIp(request));
+  if (!ipLimit.allowed) {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'rate_limited', message: 'Demasiados eventos.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(ipLimit.retryAfterMs / 1000)) } }
+    );
+  }
+
+  let payload: unknown;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'invalid_json', message: 'El cuerpo de la solicitud no es válido.' },
+      { status: 400 }
+    );
+  }
+
+  const result = analyticsBatchSchema.safeParse(payload);
+
+  if (!result.success) {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'validation_error', message: 'Eventos inválidos.' },
+      { status: 422 }
+    );
+  }
+
+  try {
+    await getAnalyticsStorage().append(result.data.events);
+  } catch (error) {
+    console.error('Analytics storage error:', error);
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'storage_error', message: 'No pudimos guardar los eventos.' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<ApiResponse>({ success: true }, { status: 202 });
+}
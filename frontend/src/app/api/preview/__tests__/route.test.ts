@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the draft preview routes
+ */
+
+const enable = jest.fn();
+const disable = jest.fn();
+
+jest.mock('next/headers', () => ({
+  draftMode: () => ({ enable, disable, isEnabled: false }),
+}));
+
+import { GET } from '../route';
+import { GET as exit } from '../exit/route';
+
+describe('GET /api/preview', () => {
+  const originalSecret = process.env.PREVIEW_SECRET;
+
+  beforeEach(() => {
+    process.env.PREVIEW_SECRET = 'top-secret';
+    enable.mockClear();
+    disable.mockClear();
+  });
+
+  afterAll(() => {
+    process.env.PREVIEW_SECRET = originalSecret;
+  });
+
+  it('enables draft mode and redirects to the page', async () => {
+    const response = await GET(new Request('http://localhost/api/preview?secret=top-secret&slug=/en'));
+
+    expect(enable).toHaveBeenCalled();
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe('http://localhost/en');
+  });
+
+  it('rejects a wrong or missing secret', async () => {
+    const wrong = await GET(new Request('http://localhost/api/preview?secret=guess&slug=/en'));
+    const missing = await GET(new Request('http://localhost/api/preview?slug=/en'));
+
+    expect(wrong.status).toBe(401);
+    expect(missing.status).toBe(401);
+    expect(await wrong.json()).toMatchObject({ success: false, error: 'unauthorized' });
+    expect(enable).not.toHaveBeenCalled();
+  });
+
+  it('is disabled without a configured secret', async () => {
+    delete process.env.PREVIEW_SECRET;
+
+    const response = await GET(new Request('http://localhost/api/preview?secret=&slug=/en'));
+    expect(response.status).toBe(401);
+  });
+
+  it.each(['//evil.example.com', 'https://evil.example.com', '/\\evil.example.com', '/fr/page'])(
+    'does not redirect to %s',
+    async (slug) => {
+      const response = await GET(
+        new Request(`http://localhost/api/preview?secret=top-secret&slug=${encodeURIComponent(slug)}`)
+      );
+      expect(response.headers.get('location')).toBe('http://localhost/es');
+    }
+  );
+
+  it('disables draft mode on exit', async () => {
+    const response = await exit(new Request('http://localhost/api/preview/exit?slug=/pt'));
+
+    expect(disable).toHaveBeenCalled();
+    expect(response.headers.get('location')).toBe('http://localhost/pt');
+  });
+});
@@ -0,0 +1,14 @@
+import { draftMode } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getPreviewRedirectPath } from '@/lib/preview';
+
+/**
+ * Leave draft mode and return to the published page
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  draftMode().disable();
+
+  return NextResponse.redirect(new URL(getPreviewRedirectPath(searchParams.get('slug')), request.url));
+}
@@ -0,0 +1,22 @@
+import { draftMode } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getPreviewRedirectPath, isValidPreviewSecret } from '@/lib/preview';
+import type { ApiResponse } from '@/types';
+
+/**
+ * Enable draft mode and open the requested page with unpublished content
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  if (!isValidPreviewSecret(searchParams.get('secret'))) {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'unauthorized', message: 'Token de vista previa inválido.' },
+      { status: 401 }
+    );
+  }
+
+  draftMode().enable();
+
+  return NextResponse.redirect(new URL(getPreviewRedirectPath(searchParams.get('slug')), request.url));
+}
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the Web Vitals collector
+ */
+
+import { GET, POST } from '../route';
+import { createMemoryWebVitalsStorage, setWebVitalsStorage, type WebVitalsStorage } from '@/lib/webVitalsStorage';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rateLimit';
+import type { WebVitalSample } from '@/lib/webVitals';
+
+let requestCount = 0;
+
+function createRequest(body: string, ip = `10.0.0.${++requestCount}`): Request {
+  return new Request('http://localhost/api/vitals', {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain', 'x-forwarded-for': ip },
+    body,
+  });
+}
+
+function createReportRequest(token?: string): Request {
+  return new Request('http://localhost/api/vitals', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+const metric = {
+  name: 'LCP',
+  value: 2100,
+  rating: 'good',
+  id: 'v4-1700000000000-1',
+  path: '/es',
+  deviceClass: 'mobile',
+  attribution: { target: 'section#hero>img', resource: 'https://podoclinic.cl/hero.webp' },
+  timestamp: '2025-09-01T12:00:00.000Z',
+} satisfies WebVitalSample;
+
+describe('/api/vitals', () => {
+  let storage: WebVitalsStorage;
+  const originalToken = process.env.WEB_VITALS_REPORT_TOKEN;
+
+  beforeEach(() => {
+    storage = createMemoryWebVitalsStorage();
+    setWebVitalsStorage(storage);
+    setRateLimitStore(createMemoryRateLimitStore());
+    process.env.WEB_VITALS_REPORT_TOKEN = 'report-token';
+  });
+
+  afterEach(() => {
+    setWebVitalsStorage(null);
+    setRateLimitStore(null);
+    process.env.WEB_VITALS_REPORT_TOKEN = originalToken;
+  });
+
+  it('stores a valid batch', async () => {
+    const response = await POST(createRequest(JSON.stringify({ metrics: [metric] })));
+
+    expect(response.status).toBe(202);
+    expect(await storage.list()).toEqual([metric]);
+  });
+
+  it('keeps only the latest value reported for a metric', async () => {
+    const cls = { ...metric, name: 'CLS', value: 0.05, id: 'v4-1700000000000-2' };
+
+    await POST(createRequest(JSON.stringify({ metrics: [cls] })));
+    await POST(createRequest(JSON.stringify({ metrics: [{ ...cls, value: 0.3, rating: 'poor' }] })));
+
+    expect(await storage.list()).toEqual([{ ...cls, value: 0.3, rating: 'poor' }]);
+  });
+
+  it('rejects malformed JSON and invalid metrics', async () => {
+    expect((await POST(createRequest('{'))).status).toBe(400);
+
+    const response = await POST(createRequest(JSON.stringify({ metrics: [{ ...metric, name: 'FID' }] })));
+    expect(response.status).toBe(422);
+    expect(await storage.list()).toHaveLength(0);
+  });
+
+  it('requires the report token to read percentiles', async () => {
+    expect((await GET(createReportRequest())).status).toBe(401);
+    expect((await GET(createReportRequest('wrong-token'))).status).toBe(401);
+
+    delete process.env.WEB_VITALS_REPORT_TOKEN;
+    expect((await GET(createReportRequest('report-token'))).status).toBe(401);
+  });
+
+  it('returns percentiles per page and device class', async () => {
+    await storage.append([metric, { ...metric, id: 'v4-2', value: 4200, rating: 'poor' }]);
+
+    const response = await GET(createReportRequest('report-token'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual([
+      { path: '/es', deviceClass: 'mobile', name: 'LCP', count: 2, p50: 2100, p75: 4200, p95: 4200, good: 0.5 },
+    ]);
+  });
+});
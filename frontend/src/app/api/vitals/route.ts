@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { summarizeWebVitals, webVitalsBatchSchema, type WebVitalSummary } from '@/lib/webVitals';
+import { getWebVitalsStorage } from '@/lib/webVitalsStorage';
+import { createRateLimiter, getClientIp, type RateLimitConfig } from '@/lib/rateLimit';
+import { getBearerToken, isValidSecret } from '@/lib/secrets';
+import type { ApiResponse } from '@/types';
+
+// Burst of 20 batches per IP, then one every 3 seconds
+const IP_RATE_LIMIT: RateLimitConfig = { capacity: 20, refillIntervalMs: 3000 };
+
+/**
+ * Collect a batch of Web Vitals samples from the browser (fetch or sendBeacon)
+ * The client IP is only used for rate limiting and is never stored
+ */
+export async function POST(request: Request) {
+  const ipLimit = await createRateLimiter('vitals:ip', IP_RATE_LIMIT).consume(getClientIp(request));
+  if (!ipLimit.allowed) {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'rate_limited', message: 'Demasiadas métricas.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(ipLimit.retryAfterMs / 1000)) } }
+    );
+  }
+
+  let payload: unknown;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'invalid_json', message: 'El cuerpo de la solicitud no es válido.' },
+      { status: 400 }
+    );
+  }
+
+  const result = webVitalsBatchSchema.safeParse(payload);
+
+  if (!result.success) {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'validation_error', message: 'Métricas inválidas.' },
+      { status: 422 }
+    );
+  }
+
+  try {
+    await getWebVitalsStorage().append(result.data.metrics);
+  } catch (error) {
+    console.error('Web Vitals storage error:', error);
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'storage_error', message: 'No pudimos guardar las métricas.' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json<ApiResponse>({ success: true }, { status: 202 });
+}
+
+/**
+ * p50/p75/p95 per page, device class and metric
+ * Requires `Authorization: Bearer <WEB_VITALS_REPORT_TOKEN>`; disabled when the token is not set
+ */
+export async function GET(request: Request) {
+  if (!isValidSecret(getBearerToken(request.headers), process.env.WEB_VITALS_REPORT_TOKEN)) {
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'unauthorized', message: 'Token inválido.' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const samples = await getWebVitalsStorage().list();
+    return NextResponse.json<ApiResponse<WebVitalSummary[]>>({ success: true, data: summarizeWebVitals(samples) });
+  } catch (error) {
+    console.error('Web Vitals storage error:', error);
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'storage_error', message: 'No pudimos leer las métricas.' },
+      { status: 500 }
+    );
+  }
+}
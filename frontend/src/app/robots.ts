@@ -0,0 +1,10 @@
+import type { MetadataRoute } from 'next';
+import { getAbsoluteUrl, siteConfig } from '@/lib/siteConfig';
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: '*', allow: '/', disallow: siteConfig.disallow },
+    sitemap: getAbsoluteUrl('/sitemap.xml'),
+    host: siteConfig.url,
+  };
+}
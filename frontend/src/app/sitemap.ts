@@ -0,0 +1,35 @@
+import type { MetadataRoute } from 'next';
+import { LEGAL_DOCUMENTS, listLegalVersions, type LegalDocumentId } from '@/lib/legal';
+import { LOCALES, type Locale } from '@/lib/i18n';
+import { getAbsoluteUrl, getLanguageAlternates, getLocalizedPath, siteConfig } from '@/lib/siteConfig';
+
+// Newest published version date per locale for a legal page, skipping locales without the document
+async function getLegalVersions(document: LegalDocumentId): Promise<Partial<Record<Locale, string>>> {
+  const versions = await Promise.all(
+    LOCALES.map(async (locale) => [locale, (await listLegalVersions(document, locale))[0]] as const)
+  );
+  return Object.fromEntries(versions.filter(([, version]) => version));
+}
+
+/**
+ * Every route from the site config in every locale, with hreflang alternates
+ */
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const entries = await Promise.all(
+    siteConfig.routes.map(async (route) => {
+      const document = LEGAL_DOCUMENTS.find((id) => route.path === `/${id}`);
+      const legalVersions = document ? await getLegalVersions(document) : null;
+      const locales = legalVersions ? LOCALES.filter((locale) => legalVersions[locale]) : LOCALES;
+
+      return locales.map((locale) => ({
+        url: getAbsoluteUrl(getLocalizedPath(locale, route.path)),
+        ...(legalVersions ? { lastModified: legalVersions[locale] } : {}),
+        changeFrequency: route.changeFrequency,
+        priority: route.priority,
+        alternates: { languages: getLanguageAlternates(route.path, locales) },
+      }));
+    })
+  );
+
+  return entries.flat();
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { createFootScene, easeFootPose, getFootPose, type FootScene } from '@/lib/footScene';
+import type { FootModelProps } from '@/types';
+
+// Share of the remaining distance covered per frame when following the pointer
+const POSE_EASING = 0.08;
+
+// Rings around the sole at full detail
+const MAX_SEGMENTS = 24;
+
+/**
+ * WebGL foot model that turns towards the pointer and tilts away as `scrollY` grows
+ * Calls `onUnavailable` instead of rendering when WebGL can't be used or the context is lost
+ */
+export function FootModel({
+  className = '',
+  animated = true,
+  scrollY = 0,
+  mousePosition = { x: 0.5, y: 0.5 },
+  detail = 1,
+  onUnavailable,
+}: FootModelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The render loop reads the latest props without restarting
+  const inputRef = useRef({ scrollY, mousePosition, animated });
+  const onUnavailableRef = useRef(onUnavailable);
+  const sceneRef = useRef<FootScene | null>(null);
+  const segments = Math.round(MAX_SEGMENTS * detail);
+  const segmentsRef = useRef(segments);
+
+  useEffect(() => {
+    inputRef.current = { ...inputRef.current, mousePosition, animated };
+  }, [mousePosition, animated]);
+
+  useEffect(() => {
+    inputRef.current = { ...inputRef.current, scrollY };
+  }, [scrollY]);
+
+  useEffect(() => {
+    onUnavailableRef.current = onUnavailable;
+  }, [onUnavailable]);
+
+  // A new detail level only swaps the mesh; the context, program and current pose are kept
+  useEffect(() => {
+    if (segments !== segmentsRef.current) {
+      segmentsRef.current = segments;
+      sceneRef.current?.setGeometry({ segments });
+    }
+  }, [segments]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const scene = canvas && createFootScene(canvas, { segments: segmentsRef.current });
+    if (!canvas || !scene) {
+      onUnavailableRef.current?.();
+      return;
+    }
+    sceneRef.current = scene;
+
+    const start = performance.now();
+    let pose = getFootPose({ ...inputRef.current, time: 0 });
+    let frame = 0;
+    let visible = true;
+
+    const draw = (now: number) => {
+      if (visible) {
+        const target = getFootPose({ ...inputRef.current, time: (now - start) / 1000 });
+        pose = easeFootPose(pose, target, POSE_EASING);
+        scene.render(pose);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    const handleContextLost = () => {
+      cancelAnimationFrame(frame);
+      onUnavailableRef.current?.();
+    };
+    // Stop drawing once the hero has scrolled out of view; without the API it always draws
+    const observer =
+      typeof IntersectionObserver === 'undefined'
+        ? null
+        : new IntersectionObserver(([entry]) => {
+            visible = entry?.isIntersecting ?? true;
+          });
+
+    canvas.addEventListener('webglcontextlost', handleContextLost);
+    observer?.observe(canvas);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      canvas.removeEventListener('webglcontextlost', handleContextLost);
+      observer?.disconnect();
+      sceneRef.current = null;
+      scene.dispose();
+    };
+  }, []);
+
+  return <canvas ref={canvasRef} className={`absolute inset-0 w-full h-full ${className}`} aria-hidden="true" />;
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import React, { useEffect, useState, useRef, useCallback } from 'react';
+import { usePerformanceOptimization, type OptimizedSettings } from '@/hooks/usePerformanceOptimization';
 import { useReducedMotion } from '@/lib/webgl';
+import { FootModel } from './FootModel';
 
 interface HeroCanvasProps {
   className?: string;
@@ -9,6 +11,33 @@ interface HeroCanvasProps {
   mousePosition?: { x: number; y: number };
 }
 
+interface SceneQuality {
+  particleCount: number;
+  shapeCount: number;
+  // Parallax gradient layers over the base gradient, 1 to 3
+  gradientLayers: number;
+  glow: boolean;
+  // Idle motion of the CSS shapes and the WebGL foot model
+  animateShapes: boolean;
+  // Geometry detail of the WebGL foot model, 0 to 1
+  footDetail: number;
+}
+
+/**
+ * Scene quality for the current performance preset
+ * DOM particles are far more expensive than GPU ones, so the preset's budget is divided by 10
+ */
+function getSceneQuality(settings: OptimizedSettings): SceneQuality {
+  return {
+    particleCount: settings.shouldRenderParticles ? Math.round(settings.particleCount / 10) : 0,
+    shapeCount: Math.round(12 * settings.geometryLOD),
+    gradientLayers: Math.min(3, Math.max(1, settings.maxLights)),
+    glow: settings.enableShadows,
+    animateShapes: settings.geometryLOD >= 0.7,
+    footDetail: settings.geometryLOD,
+  };
+}
+
 /**
  * Loading fallback component for 3D scene
  */
@@ -24,9 +53,9 @@ function CanvasLoader() {
 }
 
 /**
- * Enhanced CSS-based 3D alternative with better animations
+ * Enhanced CSS-based 3D alternative with better animations, used when WebGL is unavailable
  */
-function Enhanced3DBackground({ scrollY: propScrollY = 0, mousePosition: propMousePosition = { x: 0.5, y: 0.5 } }: { scrollY?: number; mousePosition?: { x: number; y: number } }) {
+function Enhanced3DBackground({ scrollY: propScrollY = 0, mousePosition: propMousePosition = { x: 0.5, y: 0.5 }, quality }: { scrollY?: number; mousePosition?: { x: number; y: number }; quality: SceneQuality }) {
   const [scrollY, setScrollY] = useState(propScrollY);
   const [mousePosition, setMousePosition] = useState(propMousePosition);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -60,24 +89,28 @@ function Enhanced3DBackground({ scrollY: propScrollY = 0, mousePosition: propMou
         }}
       />
       
-      <div 
-        className="absolute inset-0 bg-gradient-to-tr from-[#2C6145] via-[#55A05E] to-[#7BC142] opacity-25 transition-transform duration-300 ease-out"
-        style={{
-          transform: `translateY(${scrollY * 0.05}px) translateX(${-(mousePosition.x - 0.5) * 6}px) scale(${1 + (mousePosition.x - 0.5) * 0.015})`,
-        }}
-      />
+      {quality.gradientLayers >= 2 && (
+        <div 
+          className="absolute inset-0 bg-gradient-to-tr from-[#2C6145] via-[#55A05E] to-[#7BC142] opacity-25 transition-transform duration-300 ease-out"
+          style={{
+            transform: `translateY(${scrollY * 0.05}px) translateX(${-(mousePosition.x - 0.5) * 6}px) scale(${1 + (mousePosition.x - 0.5) * 0.015})`,
+          }}
+        />
+      )}
 
       {/* Additional animated layer for more depth */}
-      <div 
-        className="absolute inset-0 bg-gradient-to-r from-transparent via-[#55A05E]/15 to-transparent animate-pulse"
-        style={{
-          transform: `translateY(${scrollY * 0.03}px) translateX(${(mousePosition.x - 0.5) * 4}px) rotate(${(mousePosition.x - 0.5) * 1}deg)`,
-        }}
-      />
+      {quality.gradientLayers >= 3 && (
+        <div 
+          className="absolute inset-0 bg-gradient-to-r from-transparent via-[#55A05E]/15 to-transparent animate-pulse"
+          style={{
+            transform: `translateY(${scrollY * 0.03}px) translateX(${(mousePosition.x - 0.5) * 4}px) rotate(${(mousePosition.x - 0.5) * 1}deg)`,
+          }}
+        />
+      )}
 
       {/* Animated geometric shapes - Using Tailwind animations */}
       <div className="absolute inset-0">
-        {Array.from({ length: 12 }).map((_, i) => {
+        {Array.from({ length: quality.shapeCount }).map((_, i) => {
           const size = 12 + (i % 4) * 8; // Larger, more visible sizes
           const isCircle = i % 3 === 0;
           const isSquare = i % 3 === 1;
@@ -87,11 +120,11 @@ function Enhanced3DBackground({ scrollY: propScrollY = 0, mousePosition: propMou
               key={i}
               className={`absolute opacity-60 transition-all duration-300 ease-out ${
                 isCircle 
-                  ? 'rounded-full bg-[#55A05E] animate-bounce' 
+                  ? 'rounded-full bg-[#55A05E]' 
                   : isSquare 
-                    ? 'bg-[#7BC142] rotate-45 animate-pulse' 
-                    : 'bg-[#2C6145] rounded-lg animate-spin'
-              }`}
+                    ? 'bg-[#7BC142] rotate-45' 
+                    : 'bg-[#2C6145] rounded-lg'
+              } ${quality.animateShapes ? (isCircle ? 'animate-bounce' : isSquare ? 'animate-pulse' : 'animate-spin') : ''}`}
               style={{
                 width: `${size}px`,
                 height: `${size}px`,
@@ -127,17 +160,20 @@ function Enhanced3DBackground({ scrollY: propScrollY = 0, mousePosition: propMou
         <div className="w-40 h-24 bg-gradient-to-br from-[#55A05E] to-[#7BC142] rounded-full shadow-2xl animate-pulse" />
         
         {/* Glow effect */}
-        <div className="absolute inset-0 w-44 h-28 bg-[#55A05E] rounded-full opacity-30 -translate-x-2 -translate-y-2 blur-lg animate-pulse" />
+        {quality.glow && (
+          <div className="absolute inset-0 w-44 h-28 bg-[#55A05E] rounded-full opacity-30 -translate-x-2 -translate-y-2 blur-lg animate-pulse" />
+        )}
       </div>
 
       {/* Floating particles - more visible */}
       <div className="absolute inset-0 pointer-events-none">
-        {Array.from({ length: 10 }).map((_, i) => (
+        {Array.from({ length: quality.particleCount }).map((_, i) => (
           <div
             key={`particle-${i}`}
             className="absolute w-3 h-3 bg-white rounded-full opacity-70 animate-ping"
             style={{
-              left: `${15 + i * 8}%`,
+              // Spread over the hero whatever the particle count
+              left: `${10 + (i * 37) % 80}%`,
               top: `${25 + (i * 7) % 50}%`,
               transform: `translateY(${scrollY * (0.15 + i * 0.03)}px) translateX(${(mousePosition.x - 0.5) * (3 + i)}px) scale(${1 + (mousePosition.y - 0.5) * 0.05})`,
               animationDuration: `${1.5 + i * 0.4}s`,
@@ -152,6 +188,48 @@ function Enhanced3DBackground({ scrollY: propScrollY = 0, mousePosition: propMou
   );
 }
 
+/**
+ * WebGL foot model over the brand gradient
+ * The preset sets the mesh detail, idle motion, gradient layers and glow; particles and
+ * shapes are only drawn by the CSS scene
+ */
+function FootModelScene({ scrollY: propScrollY, mousePosition, quality, onUnavailable }: { scrollY: number; mousePosition: { x: number; y: number }; quality: SceneQuality; onUnavailable: () => void }) {
+  const [scrollY, setScrollY] = useState(propScrollY);
+
+  useEffect(() => {
+    const handleScroll = () => setScrollY(window.scrollY);
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  // Update internal scrollY when prop changes
+  useEffect(() => {
+    setScrollY(propScrollY);
+  }, [propScrollY]);
+
+  return (
+    <div className="absolute inset-0 overflow-hidden">
+      <div className="absolute inset-0 bg-gradient-to-br from-[#2C6145] via-[#55A05E] to-[#2C6145] opacity-90" />
+      {quality.gradientLayers >= 2 && (
+        <div className="absolute inset-0 bg-gradient-to-tr from-[#2C6145] via-[#55A05E] to-[#7BC142] opacity-25" />
+      )}
+      {quality.gradientLayers >= 3 && (
+        <div className="absolute inset-0 bg-gradient-to-r from-transparent via-[#55A05E]/15 to-transparent animate-pulse" />
+      )}
+      {quality.glow && (
+        <div className="absolute left-1/2 top-1/2 w-1/2 h-1/3 -translate-x-1/2 -translate-y-1/2 bg-[#55A05E] rounded-full opacity-30 blur-lg animate-pulse" />
+      )}
+      <FootModel
+        scrollY={scrollY}
+        mousePosition={mousePosition}
+        animated={quality.animateShapes}
+        detail={quality.footDetail}
+        onUnavailable={onUnavailable}
+      />
+    </div>
+  );
+}
+
 /**
  * Simple static fallback for reduced motion
  */
@@ -173,12 +251,32 @@ function StaticBackground() {
 }
 
 /**
- * Main HeroCanvas component with CSS-based 3D implementation
- * Stable and compatible with all React versions
+ * Main HeroCanvas component
+ * Renders the WebGL foot model, falling back to the CSS scene when WebGL is unavailable
+ * or its context is lost, and to a static background when reduced motion is preferred.
+ * Scene detail follows the performance preset, which the PerformanceManager lowers or
+ * raises while the scene is animating
  */
 export function HeroCanvas({ className = '', scrollY = 0, mousePosition = { x: 0.5, y: 0.5 } }: HeroCanvasProps) {
   const [isClient, setIsClient] = useState(false);
+  const [webglUnavailable, setWebglUnavailable] = useState(false);
   const reducedMotion = useReducedMotion();
+  const [performanceState, performanceControls] = usePerformanceOptimization();
+  const { startMonitoring, stopMonitoring, getOptimizedSettings } = performanceControls;
+
+  // Measure frame rate while an animated scene is shown, so the preset follows the device live
+  useEffect(() => {
+    if (performanceState.isLoading) {
+      return;
+    }
+    if (reducedMotion) {
+      stopMonitoring();
+    } else {
+      startMonitoring();
+    }
+  }, [performanceState.isLoading, reducedMotion, startMonitoring, stopMonitoring]);
+
+  const handleWebglUnavailable = useCallback(() => setWebglUnavailable(true), []);
 
   // Ensure we're on the client side
   useEffect(() => {
@@ -205,7 +303,7 @@ export function HeroCanvas({ className = '', scrollY = 0, mousePosition = { x: 0
   }, [handleRetry]);
 
   // Show loading state during initialization
-  if (!isClient) {
+  if (!isClient || performanceState.isLoading) {
     return (
       <div className={`absolute inset-0 ${className}`}>
         <CanvasLoader />
@@ -214,12 +312,18 @@ export function HeroCanvas({ className = '', scrollY = 0, mousePosition = { x: 0
   }
 
   // Render appropriate scene based on preferences
+  const quality = getSceneQuality(getOptimizedSettings());
+
   const renderScene = () => {
     if (reducedMotion) {
       return <StaticBackground />;
     }
+
+    if (!webglUnavailable) {
+      return <FootModelScene scrollY={scrollY} mousePosition={mousePosition} quality={quality} onUnavailable={handleWebglUnavailable} />;
+    }
     
-    return <Enhanced3DBackground scrollY={scrollY} mousePosition={mousePosition} />;
+    return <Enhanced3DBackground scrollY={scrollY} mousePosition={mousePosition} quality={quality} />;
   };
 
   return (
@@ -0,0 +1,132 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react';
+import { FootModel } from '../FootModel';
+import { createFootScene, type FootPose, type FootScene } from '../../../lib/footScene';
+
+jest.mock('../../../lib/footScene', () => ({
+  ...jest.requireActual('../../../lib/footScene'),
+  createFootScene: jest.fn(),
+}));
+
+const mockCreateFootScene = createFootScene as jest.MockedFunction<typeof createFootScene>;
+
+describe('FootModel', () => {
+  let scene: { render: jest.Mock<void, [FootPose]>; setGeometry: jest.Mock; dispose: jest.Mock<void, []> };
+  let frames: FrameRequestCallback[];
+
+  // Run the pending animation frames the given number of times
+  const step = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      frames.splice(0).forEach((callback) => callback(performance.now()));
+    }
+  };
+
+  const lastPose = () => scene.render.mock.calls[scene.render.mock.calls.length - 1][0];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    scene = { render: jest.fn(), setGeometry: jest.fn(), dispose: jest.fn() };
+    mockCreateFootScene.mockReturnValue(scene as FootScene);
+    frames = [];
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation((callback: FrameRequestCallback) => frames.push(callback));
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {
+      frames = [];
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates the scene on its canvas with the mesh detail', () => {
+    const { container } = render(<FootModel detail={0.5} />);
+
+    expect(mockCreateFootScene).toHaveBeenCalledWith(container.querySelector('canvas'), { segments: 12 });
+  });
+
+  it('renders a pose on every animation frame', () => {
+    render(<FootModel />);
+
+    step(3);
+
+    expect(scene.render).toHaveBeenCalledTimes(3);
+    expect(lastPose()).toEqual(expect.objectContaining({ rotationX: expect.any(Number), scale: expect.any(Number) }));
+  });
+
+  it('follows the scrollY prop and ignores window scroll events', () => {
+    const { rerender } = render(<FootModel animated={false} scrollY={0} />);
+    step();
+    const top = lastPose();
+
+    Object.defineProperty(window, 'scrollY', { value: 800, configurable: true });
+    fireEvent.scroll(window);
+    step();
+    expect(lastPose()).toEqual(top);
+
+    rerender(<FootModel animated={false} scrollY={400} />);
+    step(60);
+    expect(lastPose().rotationX).toBeGreaterThan(top.rotationX);
+  });
+
+  it('swaps only the geometry when the detail changes', () => {
+    const { rerender } = render(<FootModel animated={false} scrollY={0} detail={1} />);
+    rerender(<FootModel animated={false} scrollY={400} detail={1} />);
+    step(10);
+    const pose = lastPose();
+
+    rerender(<FootModel animated={false} scrollY={400} detail={0.5} />);
+    rerender(<FootModel animated={false} scrollY={400} detail={0.5} />);
+    step();
+
+    expect(mockCreateFootScene).toHaveBeenCalledTimes(1);
+    expect(scene.dispose).not.toHaveBeenCalled();
+    expect(scene.setGeometry).toHaveBeenCalledTimes(1);
+    expect(scene.setGeometry).toHaveBeenCalledWith({ segments: 12 });
+    // The pose keeps easing from where it was instead of starting over
+    expect(lastPose().rotationX).toBeGreaterThan(pose.rotationX);
+  });
+
+  it('switches to the fallback when the WebGL context is lost', () => {
+    const onUnavailable = jest.fn();
+    const { container } = render(<FootModel onUnavailable={onUnavailable} />);
+
+    fireEvent(container.querySelector('canvas')!, new Event('webglcontextlost'));
+    step();
+
+    expect(onUnavailable).toHaveBeenCalledTimes(1);
+    expect(scene.render).not.toHaveBeenCalled();
+  });
+
+  it('reports WebGL as unavailable when the scene cannot be created', () => {
+    mockCreateFootScene.mockReturnValue(null);
+    const onUnavailable = jest.fn();
+
+    render(<FootModel onUnavailable={onUnavailable} />);
+
+    expect(onUnavailable).toHaveBeenCalledTimes(1);
+    expect(frames).toHaveLength(0);
+  });
+
+  it('stops the loop and disposes the scene on unmount', () => {
+    const { unmount } = render(<FootModel />);
+
+    unmount();
+    step();
+
+    expect(scene.dispose).toHaveBeenCalledTimes(1);
+    expect(scene.render).not.toHaveBeenCalled();
+  });
+
+  it('keeps drawing without IntersectionObserver', () => {
+    const { IntersectionObserver } = window;
+    delete (window as Partial<typeof window>).IntersectionObserver;
+
+    try {
+      render(<FootModel />);
+      step();
+      expect(scene.render).toHaveBeenCalled();
+    } finally {
+      window.IntersectionObserver = IntersectionObserver;
+    }
+  });
+});
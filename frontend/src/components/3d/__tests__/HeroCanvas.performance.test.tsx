@@ -0,0 +1,138 @@
+import React from 'react';
+import { render, act } from '@testing-library/react';
+import { HeroCanvas } from '../HeroCanvas';
+import { PERFORMANCE_PRESETS, type PerformancePreset } from '../../../lib/deviceDetection';
+import { useReducedMotion } from '../../../lib/webgl';
+import type { FootModelProps } from '../../../types';
+
+jest.mock('../../../lib/webgl', () => ({
+  useReducedMotion: jest.fn(() => false),
+}));
+
+jest.mock('../../../lib/deviceDetection', () => ({
+  ...jest.requireActual('../../../lib/deviceDetection'),
+  detectDeviceCapabilities: jest.fn(() => ({
+    gpu: 'high',
+    memory: 16,
+    deviceType: 'desktop',
+    isMobile: false,
+    isLowEnd: false,
+    supportedFeatures: { webgl: true, webgl2: true, instancedArrays: true, floatTextures: true },
+  })),
+}));
+
+type PerformanceListener = (preset: PerformancePreset, metrics: unknown) => void;
+
+const mockManager = {
+  listener: null as PerformanceListener | null,
+  startMonitoring: jest.fn(),
+  stopMonitoring: jest.fn(),
+};
+
+jest.mock('../../../lib/performanceManager', () => ({
+  createPerformanceManager: jest.fn(() => ({
+    onPerformanceChange: (listener: PerformanceListener) => {
+      mockManager.listener = listener;
+      return jest.fn();
+    },
+    startMonitoring: mockManager.startMonitoring,
+    stopMonitoring: mockManager.stopMonitoring,
+  })),
+}));
+
+// Reports WebGL as unavailable like jsdom does, unless a test keeps the model on screen
+const mockFootModel = { available: false };
+
+jest.mock('../FootModel', () => ({
+  FootModel: function FootModel({ detail, animated, onUnavailable }: FootModelProps) {
+    jest.requireActual<typeof React>('react').useEffect(() => {
+      if (!mockFootModel.available) {
+        onUnavailable?.();
+      }
+    }, [onUnavailable]);
+    return <canvas data-testid="foot-model" data-detail={detail} data-animated={String(animated)} />;
+  },
+}));
+
+const mockUseReducedMotion = useReducedMotion as jest.MockedFunction<typeof useReducedMotion>;
+
+describe('HeroCanvas performance presets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockManager.listener = null;
+    mockFootModel.available = false;
+    mockUseReducedMotion.mockReturnValue(false);
+  });
+
+  const changePreset = (preset: PerformancePreset) => {
+    act(() => {
+      mockManager.listener?.(preset, {});
+    });
+  };
+
+  it('renders the full scene on the high preset', () => {
+    const { container } = render(<HeroCanvas />);
+
+    expect(container.querySelectorAll('.animate-ping')).toHaveLength(20);
+    expect(container.querySelectorAll('.animate-bounce, .animate-spin').length).toBeGreaterThan(0);
+    expect(container.querySelector('.blur-lg')).toBeInTheDocument();
+  });
+
+  it('scales particles, glow and shape animation down when the manager downgrades', () => {
+    const { container } = render(<HeroCanvas />);
+
+    changePreset(PERFORMANCE_PRESETS.medium);
+    expect(container.querySelectorAll('.animate-ping')).toHaveLength(10);
+    expect(container.querySelector('.blur-lg')).toBeInTheDocument();
+
+    changePreset(PERFORMANCE_PRESETS.low);
+    expect(container.querySelectorAll('.animate-ping')).toHaveLength(5);
+    expect(container.querySelectorAll('.animate-bounce, .animate-spin')).toHaveLength(0);
+    expect(container.querySelector('.blur-lg')).not.toBeInTheDocument();
+  });
+
+  it('passes the preset geometry detail to the foot model', () => {
+    mockFootModel.available = true;
+    const { getByTestId } = render(<HeroCanvas />);
+
+    expect(getByTestId('foot-model')).toHaveAttribute('data-detail', String(PERFORMANCE_PRESETS.high.geometryDetail));
+
+    changePreset(PERFORMANCE_PRESETS.medium);
+    expect(getByTestId('foot-model')).toHaveAttribute('data-detail', String(PERFORMANCE_PRESETS.medium.geometryDetail));
+
+    changePreset(PERFORMANCE_PRESETS.low);
+    expect(getByTestId('foot-model')).toHaveAttribute('data-detail', String(PERFORMANCE_PRESETS.low.geometryDetail));
+  });
+
+  it('scales the idle motion and extras of the WebGL scene with the preset', () => {
+    mockFootModel.available = true;
+    const { container, getByTestId } = render(<HeroCanvas />);
+
+    expect(getByTestId('foot-model')).toHaveAttribute('data-animated', 'true');
+    expect(container.querySelector('.blur-lg')).toBeInTheDocument();
+
+    changePreset(PERFORMANCE_PRESETS.low);
+    expect(getByTestId('foot-model')).toHaveAttribute('data-animated', 'false');
+    expect(container.querySelector('.blur-lg')).not.toBeInTheDocument();
+    expect(container.querySelector('.animate-pulse')).not.toBeInTheDocument();
+  });
+
+  it('restores the scene when the manager upgrades again', () => {
+    const { container } = render(<HeroCanvas />);
+
+    changePreset(PERFORMANCE_PRESETS.low);
+    changePreset(PERFORMANCE_PRESETS.high);
+
+    expect(container.querySelectorAll('.animate-ping')).toHaveLength(20);
+    expect(container.querySelector('.blur-lg')).toBeInTheDocument();
+  });
+
+  it('monitors frame rate only while the scene is animated', () => {
+    const { rerender } = render(<HeroCanvas />);
+    expect(mockManager.startMonitoring).toHaveBeenCalled();
+
+    mockUseReducedMotion.mockReturnValue(true);
+    rerender(<HeroCanvas />);
+    expect(mockManager.stopMonitoring).toHaveBeenCalled();
+  });
+});
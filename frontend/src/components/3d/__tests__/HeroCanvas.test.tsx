@@ -91,6 +91,15 @@ describe('HeroCanvas', () => {
       });
     });
 
+    it('should fall back to Enhanced3DBackground when WebGL is unavailable', async () => {
+      const { container } = render(<HeroCanvas />);
+
+      await waitFor(() => {
+        expect(container.querySelector('canvas')).not.toBeInTheDocument();
+        expect(container.querySelector('.w-40.h-24')).toBeInTheDocument();
+      });
+    });
+
     it('should render StaticBackground when reduced motion is preferred', async () => {
       mockWebGL.useReducedMotion.mockReturnValue(true);
 
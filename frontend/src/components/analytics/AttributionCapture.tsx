@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useConsent } from '@/hooks/useConsent';
+import { captureAttribution } from '@/lib/attribution';
+
+/**
+ * Records the visit's traffic source once analytics consent is granted,
+ * including when the visitor accepts cookies after landing
+ */
+export function AttributionCapture() {
+  const { isGranted } = useConsent();
+  const allowed = isGranted('analytics');
+
+  useEffect(() => {
+    if (allowed) {
+      captureAttribution();
+    }
+  }, [allowed]);
+
+  return null;
+}
+
+export default AttributionCapture;
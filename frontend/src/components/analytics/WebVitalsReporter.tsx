@@ -0,0 +1,20 @@
+'use client';
+
+import { useReportWebVitals } from 'next/web-vitals';
+import { getWebVitalsReporter, type WebVitalMetric } from '@/lib/webVitals';
+
+// Stable reference: useReportWebVitals subscribes again whenever the callback changes
+function reportWebVital(metric: WebVitalMetric) {
+  getWebVitalsReporter().report(metric);
+}
+
+/**
+ * Measures LCP, CLS, INP, FCP and TTFB on every page and reports them to the collector
+ */
+export function WebVitalsReporter() {
+  useReportWebVitals(reportWebVital);
+
+  return null;
+}
+
+export default WebVitalsReporter;
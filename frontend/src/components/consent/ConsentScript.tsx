@@ -0,0 +1,26 @@
+'use client';
+
+import React from 'react';
+import Script, { type ScriptProps } from 'next/script';
+import { useConsent } from '@/hooks/useConsent';
+import type { ConsentCategory } from '@/lib/consent';
+
+interface ConsentScriptProps extends ScriptProps {
+  category: ConsentCategory;
+}
+
+/**
+ * next/script that is only injected once the visitor grants `category`
+ * Use it for every analytics or marketing tag instead of a plain <Script>
+ */
+export function ConsentScript({ category, ...props }: ConsentScriptProps) {
+  const { isGranted } = useConsent();
+
+  if (!isGranted(category)) {
+    return null;
+  }
+
+  return <Script strategy="afterInteractive" {...props} />;
+}
+
+export default ConsentScript;
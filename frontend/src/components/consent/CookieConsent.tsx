@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Button } from '../ui/Button';
+import { CookiePreferences } from './CookiePreferences';
+import { useConsent } from '@/hooks/useConsent';
+import { useTranslations } from '@/hooks/useTranslations';
+
+/**
+ * Consent banner shown until the visitor decides, plus the preferences modal
+ * Rejecting is as prominent as accepting, as consent rules require
+ */
+export function CookieConsent() {
+  const { consent, ready, preferencesOpen, acceptAll, rejectAll, openPreferences } = useConsent();
+  const { locale, messages } = useTranslations();
+  const copy = messages.consent;
+
+  if (preferencesOpen) {
+    return <CookiePreferences />;
+  }
+
+  if (!ready || consent) {
+    return null;
+  }
+
+  return (
+    <section
+      aria-labelledby="cookie-banner-title"
+      className="fixed inset-x-0 bottom-0 z-[105] border-t border-gray-100 bg-white/95 backdrop-blur shadow-[0_-4px_24px_rgba(0,0,0,0.08)]"
+    >
+      <div className="max-w-7xl mx-auto px-6 lg:px-8 py-5 flex flex-col lg:flex-row lg:items-center gap-4">
+        <div className="flex-1">
+          <h2 id="cookie-banner-title" className="font-semibold text-[#2C6145]">
+            {copy.banner.title}
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {copy.banner.description}{' '}
+            <Link href={`/${locale}/cookies`} className="text-[#2C6145] underline hover:text-[#55A05E]">
+              {copy.banner.policy}
+            </Link>
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3 shrink-0">
+          <Button variant="outline" size="sm" onClick={openPreferences}>
+            {copy.customize}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={rejectAll}>
+            {copy.rejectAll}
+          </Button>
+          <Button variant="primary" size="sm" onClick={acceptAll}>
+            {copy.acceptAll}
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default CookieConsent;
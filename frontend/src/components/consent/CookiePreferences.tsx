@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { useConsent } from '@/hooks/useConsent';
+import { useTranslations } from '@/hooks/useTranslations';
+import { CONSENT_CATEGORIES, isCategoryGranted, type ConsentChoices } from '@/lib/consent';
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), a[href]';
+
+/**
+ * Modal to allow or deny each cookie category
+ * Keeps focus inside while open and returns it to the opener on close
+ */
+export function CookiePreferences() {
+  const { consent, closePreferences, save, acceptAll } = useConsent();
+  const { messages } = useTranslations();
+  const copy = messages.consent;
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const [choices, setChoices] = useState<ConsentChoices>(() => ({
+    necessary: true,
+    analytics: isCategoryGranted(consent, 'analytics'),
+    marketing: isCategoryGranted(consent, 'marketing'),
+  }));
+
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    dialogRef.current?.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+
+    return () => opener?.focus();
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      closePreferences();
+      return;
+    }
+    if (event.key !== 'Tab' || !dialogRef.current) {
+      return;
+    }
+
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last?.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first?.focus();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-end sm:items-center justify-center bg-black/40 p-4" onClick={closePreferences}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="cookie-preferences-title"
+        aria-describedby="cookie-preferences-description"
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-xl bg-white p-6 shadow-xl"
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-start justify-between gap-4 mb-2">
+          <h2 id="cookie-preferences-title" className="text-xl font-semibold text-[#2C6145]">
+            {copy.title}
+          </h2>
+          <button
+            type="button"
+            onClick={closePreferences}
+            aria-label={copy.close}
+            className="p-1 rounded text-gray-500 hover:text-[#2C6145] focus:outline-none focus:ring-2 focus:ring-[#55A05E]"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+        <p id="cookie-preferences-description" className="text-sm text-gray-600 mb-6">
+          {copy.description}
+        </p>
+
+        <ul className="space-y-4 mb-6">
+          {CONSENT_CATEGORIES.map((category) => {
+            const { title, description } = copy.categories[category];
+            const isNecessary = category === 'necessary';
+
+            return (
+              <li key={category} className="flex items-start justify-between gap-4 rounded-lg border border-gray-100 p-4">
+                <div>
+                  <label htmlFor={`consent-${category}`} className="font-medium text-gray-900">
+                    {title}
+                  </label>
+                  <p id={`consent-${category}-description`} className="text-sm text-gray-600 mt-1">
+                    {description}
+                  </p>
+                  {isNecessary && <p className="text-xs font-medium text-[#55A05E] mt-2">{copy.alwaysActive}</p>}
+                </div>
+                <input
+                  id={`consent-${category}`}
+                  type="checkbox"
+                  role="switch"
+                  checked={choices[category]}
+                  disabled={isNecessary}
+                  aria-describedby={`consent-${category}-description`}
+                  onChange={(event) => setChoices((current) => ({ ...current, [category]: event.target.checked }))}
+                  className="mt-1 h-5 w-5 shrink-0 accent-[#55A05E] disabled:opacity-60"
+                />
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-3">
+          <Button variant="outline" size="sm" onClick={() => save(choices)}>
+            {copy.save}
+          </Button>
+          <Button variant="primary" size="sm" onClick={acceptAll}>
+            {copy.acceptAll}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CookiePreferences;
@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { ConsentScript } from './ConsentScript';
+
+const GA_MEASUREMENT_ID = process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID;
+const META_PIXEL_ID = process.env.NEXT_PUBLIC_META_PIXEL_ID;
+
+/**
+ * Third-party tags configured through environment variables, each behind its consent category
+ */
+export function TrackingScripts() {
+  return (
+    <>
+      {GA_MEASUREMENT_ID && (
+        <>
+          <ConsentScript
+            id="ga-loader"
+            category="analytics"
+            src={`https://www.googletagmanager.com/gtag/js?id=${GA_MEASUREMENT_ID}`}
+          />
+          <ConsentScript id="ga-config" category="analytics">
+            {`window.dataLayer = window.dataLayer || [];
+function gtag(){dataLayer.push(arguments);}
+gtag('js', new Date());
+gtag('config', '${GA_MEASUREMENT_ID}', { anonymize_ip: true });`}
+          </ConsentScript>
+        </>
+      )}
+      {META_PIXEL_ID && (
+        <ConsentScript id="meta-pixel" category="marketing">
+          {`!function(f,b,e,v,n,t,s){if(f.fbq)return;n=f.fbq=function(){n.callMethod?
+n.callMethod.apply(n,arguments):n.queue.push(arguments)};if(!f._fbq)f._fbq=n;
+n.push=n;n.loaded=!0;n.version='2.0';n.queue=[];t=b.createElement(e);t.async=!0;
+t.src=v;s=b.getElementsByTagName(e)[0];s.parentNode.insertBefore(t,s)}(window,
+document,'script','https://connect.facebook.net/en_US/fbevents.js');
+fbq('init', '${META_PIXEL_ID}');
+fbq('track', 'PageView');`}
+        </ConsentScript>
+      )}
+    </>
+  );
+}
+
+export default TrackingScripts;
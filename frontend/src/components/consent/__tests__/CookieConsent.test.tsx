@@ -0,0 +1,114 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+jest.mock('next/link', () => {
+  const MockLink = ({ children, href, ...props }: React.ComponentProps<'a'> & { href: string }) => (
+    <a href={href} {...props}>{children}</a>
+  );
+  MockLink.displayName = 'MockLink';
+  return MockLink;
+});
+
+jest.mock('next/script', () => {
+  const MockScript = ({ id }: { id: string }) => <script data-testid={id} />;
+  MockScript.displayName = 'MockScript';
+  return MockScript;
+});
+
+jest.mock('framer-motion', () => {
+  const motionProps = new Set(['whileHover', 'whileTap']);
+
+  return {
+    motion: {
+      button: ({ children, ...props }: React.PropsWithChildren<Record<string, unknown>>) => (
+        <button {...Object.fromEntries(Object.entries(props).filter(([key]) => !motionProps.has(key)))}>{children}</button>
+      ),
+    },
+  };
+});
+
+import { ConsentProvider } from '../../providers/ConsentProvider';
+import { CookieConsent } from '../CookieConsent';
+import { ConsentScript } from '../ConsentScript';
+import { CONSENT_COOKIE, createConsent, readConsentCookie, serializeConsent } from '../../../lib/consent';
+
+function renderConsent() {
+  return render(
+    <ConsentProvider>
+      <CookieConsent />
+      <ConsentScript id="analytics-tag" category="analytics" src="https://example.com/a.js" />
+      <ConsentScript id="marketing-tag" category="marketing" src="https://example.com/m.js" />
+    </ConsentProvider>
+  );
+}
+
+function clearConsentCookie() {
+  document.cookie = `${CONSENT_COOKIE}=; path=/; max-age=0`;
+}
+
+describe('CookieConsent', () => {
+  beforeEach(clearConsentCookie);
+
+  it('shows the banner and no tracking scripts before a decision', () => {
+    renderConsent();
+
+    expect(screen.getByRole('heading', { name: 'Usamos cookies' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Política de Cookies' })).toHaveAttribute('href', '/es/cookies');
+    expect(screen.queryByTestId('analytics-tag')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('marketing-tag')).not.toBeInTheDocument();
+  });
+
+  it('loads every script after accepting all', () => {
+    renderConsent();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Aceptar todas' }));
+
+    expect(screen.queryByRole('heading', { name: 'Usamos cookies' })).not.toBeInTheDocument();
+    expect(screen.getByTestId('analytics-tag')).toBeInTheDocument();
+    expect(screen.getByTestId('marketing-tag')).toBeInTheDocument();
+    expect(readConsentCookie()?.categories).toEqual({ necessary: true, analytics: true, marketing: true });
+  });
+
+  it('stores a rejection without loading scripts', () => {
+    renderConsent();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rechazar opcionales' }));
+
+    expect(screen.queryByTestId('analytics-tag')).not.toBeInTheDocument();
+    expect(readConsentCookie()?.categories).toEqual({ necessary: true, analytics: false, marketing: false });
+  });
+
+  it('saves per-category choices from the preferences modal', () => {
+    renderConsent();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Configurar' }));
+    const dialog = screen.getByRole('dialog', { name: 'Preferencias de cookies' });
+    expect(screen.getByRole('switch', { name: 'Necesarias' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('switch', { name: 'Analítica' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Guardar preferencias' }));
+
+    expect(dialog).not.toBeInTheDocument();
+    expect(screen.getByTestId('analytics-tag')).toBeInTheDocument();
+    expect(screen.queryByTestId('marketing-tag')).not.toBeInTheDocument();
+  });
+
+  it('closes the preferences modal with Escape', () => {
+    renderConsent();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Configurar' }));
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Usamos cookies' })).toBeInTheDocument();
+  });
+
+  it('restores a stored decision without showing the banner', () => {
+    document.cookie = `${CONSENT_COOKIE}=${serializeConsent(createConsent({ analytics: true }))}; path=/`;
+    renderConsent();
+
+    expect(screen.queryByRole('heading', { name: 'Usamos cookies' })).not.toBeInTheDocument();
+    expect(screen.getByTestId('analytics-tag')).toBeInTheDocument();
+  });
+});
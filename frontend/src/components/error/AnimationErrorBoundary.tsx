@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { ErrorBoundary } from './ErrorBoundary';
+import { useTranslations } from '@/hooks/useTranslations';
 
 interface AnimationErrorBoundaryProps {
   children: React.ReactNode;
@@ -9,10 +10,11 @@ interface AnimationErrorBoundaryProps {
 }
 
 export function AnimationErrorBoundary({ children, fallback }: AnimationErrorBoundaryProps) {
+  const { messages } = useTranslations();
   const defaultFallback = (
     <div className="animate-pulse bg-gray-100 rounded-lg" style={{ minHeight: '100px' }}>
       <div className="flex items-center justify-center h-full">
-        <div className="text-gray-400 text-sm">Contenido no disponible</div>
+        <div className="text-gray-400 text-sm">{messages.errors.unavailable}</div>
       </div>
     </div>
   );
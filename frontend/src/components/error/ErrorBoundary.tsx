@@ -1,6 +1,7 @@
 'use client';
 
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { I18nContext } from '@/components/providers/I18nProvider';
 
 interface Props {
   children: ReactNode;
@@ -14,6 +15,9 @@ interface State {
 }
 
 export class ErrorBoundary extends Component<Props, State> {
+  public static contextType = I18nContext;
+  declare context: React.ContextType<typeof I18nContext>;
+
   public state: State = {
     hasError: false
   };
@@ -33,6 +37,8 @@ export class ErrorBoundary extends Component<Props, State> {
 
   public render() {
     if (this.state.hasError) {
+      const copy = this.context.messages.errors;
+
       // Return custom fallback UI or default
       return this.props.fallback || (
         <div className="flex items-center justify-center min-h-[200px] bg-gray-50 rounded-lg border border-gray-200">
@@ -43,16 +49,16 @@ export class ErrorBoundary extends Component<Props, State> {
               </svg>
             </div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">
-              Algo salió mal
+              {copy.title}
             </h3>
             <p className="text-gray-600 mb-4">
-              No pudimos cargar este contenido. Por favor, recarga la página.
+              {copy.message}
             </p>
             <button
               onClick={() => window.location.reload()}
               className="px-4 py-2 bg-[#55A05E] text-white rounded-lg hover:bg-[#2C6145] transition-colors"
             >
-              Recargar página
+              {copy.reload}
             </button>
           </div>
         </div>
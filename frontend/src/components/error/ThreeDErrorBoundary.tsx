@@ -3,6 +3,7 @@
 import React, { useState, useCallback } from 'react';
 import { ErrorBoundary } from './ErrorBoundary';
 import { detectWebGLSupport, hasMinimumWebGLCapabilities } from '@/lib/webgl';
+import { useTranslations } from '@/hooks/useTranslations';
 
 interface ThreeDErrorBoundaryProps {
   children: React.ReactNode;
@@ -31,6 +32,8 @@ function CanvasFallback({
   maxRetries = 3 
 }: CanvasFallbackProps) {
   const [isRetrying, setIsRetrying] = useState(false);
+  const { messages, t } = useTranslations();
+  const copy = messages.errors.canvas;
   
   // Detect WebGL capabilities for better error messaging
   const webglCapabilities = detectWebGLSupport();
@@ -57,8 +60,8 @@ function CanvasFallback({
   const getErrorInfo = () => {
     if (!webglCapabilities.supported) {
       return {
-        title: 'WebGL no compatible',
-        message: 'Tu navegador no soporta WebGL. El contenido se mostrará en modo simplificado.',
+        title: copy.webglUnsupportedTitle,
+        message: copy.webglUnsupportedMessage,
         canRetry: false,
         severity: 'warning' as const
       };
@@ -66,8 +69,8 @@ function CanvasFallback({
 
     if (!hasWebGL) {
       return {
-        title: 'Capacidades limitadas',
-        message: 'Tu dispositivo tiene capacidades gráficas limitadas. Usando modo optimizado.',
+        title: copy.limitedTitle,
+        message: copy.limitedMessage,
         canRetry: false,
         severity: 'info' as const
       };
@@ -75,8 +78,8 @@ function CanvasFallback({
 
     if (error?.message?.includes('WebGL')) {
       return {
-        title: 'Error de WebGL',
-        message: 'Hubo un problema con el renderizado 3D. Intentando modo alternativo.',
+        title: copy.webglErrorTitle,
+        message: copy.webglErrorMessage,
         canRetry: true,
         severity: 'error' as const
       };
@@ -84,16 +87,16 @@ function CanvasFallback({
 
     if (error?.message?.includes('network') || error?.message?.includes('fetch')) {
       return {
-        title: 'Error de conexión',
-        message: 'No se pudieron cargar los recursos 3D. Verifica tu conexión.',
+        title: copy.networkTitle,
+        message: copy.networkMessage,
         canRetry: true,
         severity: 'error' as const
       };
     }
 
     return {
-      title: 'Contenido 3D no disponible',
-      message: 'El contenido interactivo no se pudo cargar, pero puedes continuar navegando.',
+      title: copy.unavailableTitle,
+      message: copy.unavailableMessage,
       canRetry: enableRetry && retryCount < maxRetries,
       severity: 'warning' as const
     };
@@ -173,7 +176,7 @@ function CanvasFallback({
                   disabled={isRetrying}
                   className="mt-2 text-xs px-3 py-1 rounded bg-white/20 hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  {isRetrying ? 'Reintentando...' : `Reintentar (${maxRetries - retryCount} restantes)`}
+                  {isRetrying ? copy.retrying : t('errors.canvas.retry', { count: maxRetries - retryCount })}
                 </button>
               )}
             </div>
@@ -13,7 +13,10 @@ import { Pricing } from '@/components/sections/Pricing';
 import { Contact } from '@/components/sections/Contact';
 import { Footer } from '@/components/sections/Footer';
 
-export default function Home() {
+/**
+ * Landing page sections; rendered by the [locale] page, which adds the structured data
+ */
+export function HomePage() {
   useEffect(() => {
     // Ensure smooth scrolling is enabled
     document.documentElement.style.scrollBehavior = 'smooth';
@@ -70,4 +73,6 @@ export default function Home() {
       <Footer />
     </>
   );
-}
\ No newline at end of file
+}
+
+export default HomePage;
@@ -2,17 +2,57 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
+import { usePathname } from 'next/navigation';
 import { Button } from '../ui/Button';
+import { useTranslations } from '@/hooks/useTranslations';
+import { LOCALES, LOCALE_COOKIE, localeInfo, localizePath, type Locale } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+
+/**
+ * Links to the current page in every supported locale
+ * Remembers the choice in a cookie so the middleware redirects there next time
+ */
+function LanguageSwitcher({ className }: { className?: string }) {
+  const { locale, messages } = useTranslations();
+  const pathname = usePathname() ?? '/';
+
+  const rememberLocale = (next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+  };
+
+  return (
+    <div role="group" aria-label={messages.navigation.language} className={cn('flex items-center gap-1', className)}>
+      {LOCALES.map((code) => (
+        <a
+          key={code}
+          href={localizePath(pathname, code)}
+          hrefLang={localeInfo[code].htmlLang}
+          lang={localeInfo[code].htmlLang}
+          title={localeInfo[code].label}
+          aria-current={code === locale ? 'true' : undefined}
+          onClick={() => rememberLocale(code)}
+          className={cn(
+            'px-2 py-1 text-xs font-semibold uppercase rounded transition-colors duration-200 font-poppins',
+            code === locale ? 'bg-[#2C6145] text-white' : 'text-[#495057] hover:text-[#2C6145]'
+          )}
+        >
+          {code}
+        </a>
+      ))}
+    </div>
+  );
+}
 
 export function Navigation() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const { messages } = useTranslations();
 
   const navItems = [
-    { name: 'Inicio', href: '#' },
-    { name: 'Funcionalidades', href: '#features' },
-    { name: 'Beneficios', href: '#benefits' },
-    { name: 'Precios', href: '#pricing' },
-    { name: 'Contacto', href: '#contact' },
+    { name: messages.navigation.home, href: '#' },
+    { name: messages.navigation.features, href: '#features' },
+    { name: messages.navigation.benefits, href: '#benefits' },
+    { name: messages.navigation.pricing, href: '#pricing' },
+    { name: messages.navigation.contact, href: '#contact' },
   ];
 
   const scrollToSection = (href: string) => {
@@ -55,14 +95,15 @@ export function Navigation() {
             </div>
           </div>
 
-          {/* CTA Button */}
-          <div className="hidden md:block">
+          {/* Language switcher + CTA Button */}
+          <div className="hidden md:flex items-center gap-4">
+            <LanguageSwitcher />
             <Button
               variant="primary"
               size="sm"
               onClick={() => scrollToSection('#contact')}
             >
-              Demo Gratis
+              {messages.navigation.cta}
             </Button>
           </div>
 
@@ -72,7 +113,7 @@ export function Navigation() {
               onClick={() => setIsMenuOpen(!isMenuOpen)}
               className="inline-flex items-center justify-center p-2 rounded-md text-[#495057] hover:text-[#2C6145] hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-[#55A05E]"
             >
-              <span className="sr-only">Abrir menú principal</span>
+              <span className="sr-only">{messages.navigation.openMenu}</span>
               {!isMenuOpen ? (
                 <svg className="block h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
@@ -105,6 +146,7 @@ export function Navigation() {
                 {item.name}
               </button>
             ))}
+            <LanguageSwitcher className="px-3 py-2" />
             <div className="px-3 py-2">
               <Button
                 variant="primary"
@@ -112,7 +154,7 @@ export function Navigation() {
                 onClick={() => scrollToSection('#contact')}
                 className="w-full"
               >
-                Demo Gratis
+                {messages.navigation.cta}
               </Button>
             </div>
           </div>
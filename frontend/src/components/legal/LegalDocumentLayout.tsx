@@ -0,0 +1,98 @@
+import React from 'react';
+import Link from 'next/link';
+import { MarkdownContent } from './MarkdownContent';
+import { getMessages, interpolate } from '@/lib/i18n';
+import { formatLegalDate, type LegalDocument } from '@/lib/legal';
+import { cn } from '@/lib/utils';
+
+interface LegalDocumentLayoutProps {
+  document: LegalDocument;
+}
+
+/**
+ * Shared layout for legal documents: title, last updated date, a table of
+ * contents built from the headings and links to every published version
+ */
+export function LegalDocumentLayout({ document }: LegalDocumentLayoutProps) {
+  const { legal: copy } = getMessages(document.locale);
+  const basePath = `/${document.locale}/${document.id}`;
+  const date = formatLegalDate(document.version, document.locale);
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 lg:px-8 py-12 md:py-16">
+      <header className="mb-10 max-w-3xl">
+        <h1 className="font-section-title text-[#2C6145] mb-3 text-balance">{document.title}</h1>
+        <p className="text-sm text-gray-500">
+          <time dateTime={document.version}>{interpolate(copy.lastUpdated, { date })}</time>
+        </p>
+
+        {!document.isCurrent && (
+          <div role="note" className="mt-6 p-4 rounded-lg border border-[#55A05E] bg-[#55A05E]/10 text-sm text-[#2C6145]">
+            {interpolate(copy.outdated, { date })}{' '}
+            <Link href={basePath} className="font-medium underline">
+              {copy.viewCurrent}
+            </Link>
+          </div>
+        )}
+      </header>
+
+      <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_16rem] lg:gap-12">
+        <article className="max-w-3xl">
+          <MarkdownContent blocks={document.blocks} />
+        </article>
+
+        <aside className="order-first lg:order-last mb-10 lg:mb-0">
+          <div className="lg:sticky lg:top-8 space-y-8">
+            {document.toc.length > 0 && (
+              <nav aria-labelledby="legal-toc-title">
+                <h2 id="legal-toc-title" className="text-sm font-semibold text-gray-900 uppercase tracking-wide mb-3">
+                  {copy.toc}
+                </h2>
+                <ol className="space-y-2 text-sm border-l border-gray-200">
+                  {document.toc.map((entry) => (
+                    <li key={entry.id} className={entry.level === 3 ? 'pl-8' : 'pl-4'}>
+                      <a href={`#${entry.id}`} className="text-gray-600 hover:text-[#2C6145]">
+                        {entry.text}
+                      </a>
+                    </li>
+                  ))}
+                </ol>
+              </nav>
+            )}
+
+            {document.versions.length > 1 && (
+              <nav aria-labelledby="legal-versions-title">
+                <h2 id="legal-versions-title" className="text-sm font-semibold text-gray-900 uppercase tracking-wide mb-3">
+                  {copy.versions}
+                </h2>
+                <ul className="space-y-2 text-sm">
+                  {document.versions.map((version, index) => (
+                    <li key={version}>
+                      <Link
+                        href={index === 0 ? basePath : `${basePath}/${version}`}
+                        aria-current={version === document.version ? 'page' : undefined}
+                        className={cn(
+                          'hover:text-[#2C6145]',
+                          version === document.version ? 'font-semibold text-[#2C6145]' : 'text-gray-600'
+                        )}
+                      >
+                        {formatLegalDate(version, document.locale)}
+                      </Link>
+                      {index === 0 && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-[#55A05E]/10 text-[#2C6145]">
+                          {copy.current}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </nav>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
+
+export default LegalDocumentLayout;
@@ -0,0 +1,82 @@
+import React from 'react';
+import Link from 'next/link';
+import type { MarkdownBlock, MarkdownInline } from '@/lib/markdown';
+
+interface MarkdownContentProps {
+  blocks: MarkdownBlock[];
+}
+
+const headingStyles: Record<number, string> = {
+  1: 'font-section-title text-[#2C6145] mt-10 mb-4',
+  2: 'text-2xl font-semibold text-[#2C6145] mt-10 mb-4 scroll-mt-24',
+  3: 'text-lg font-semibold text-[#2C6145] mt-6 mb-3 scroll-mt-24',
+};
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <React.Fragment key={index}>{node.value}</React.Fragment>;
+          case 'strong':
+            return <strong key={index} className="font-semibold text-gray-900"><Inline nodes={node.children} /></strong>;
+          case 'emphasis':
+            return <em key={index}><Inline nodes={node.children} /></em>;
+          case 'link':
+            return node.href.startsWith('/') ? (
+              <Link key={index} href={node.href} className="text-[#2C6145] underline hover:text-[#55A05E]">
+                <Inline nodes={node.children} />
+              </Link>
+            ) : (
+              <a key={index} href={node.href} className="text-[#2C6145] underline hover:text-[#55A05E]">
+                <Inline nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+/**
+ * Renders parsed Markdown blocks with the site's typography
+ * Headings keep their generated ids so the table of contents can link to them
+ */
+export function MarkdownContent({ blocks }: MarkdownContentProps) {
+  return (
+    <div className="text-gray-700 leading-relaxed">
+      {blocks.map((block, index) => {
+        if (block.type === 'heading') {
+          const Heading = `h${Math.min(block.level, 6)}` as keyof JSX.IntrinsicElements;
+          return (
+            <Heading key={index} id={block.id} className={headingStyles[block.level] ?? 'font-semibold mt-6 mb-2'}>
+              <Inline nodes={block.children} />
+            </Heading>
+          );
+        }
+
+        if (block.type === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-6 my-4 space-y-2`}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                  <Inline nodes={item} />
+                </li>
+              ))}
+            </List>
+          );
+        }
+
+        return (
+          <p key={index} className="my-4">
+            <Inline nodes={block.children} />
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+export default MarkdownContent;
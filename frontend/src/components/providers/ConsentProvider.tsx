@@ -0,0 +1,95 @@
+'use client';
+
+import React, { createContext, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  createConsent,
+  getRevokedCategories,
+  isCategoryGranted,
+  readConsentCookie,
+  writeConsentCookie,
+  type ConsentCategory,
+  type ConsentChoices,
+  type ConsentState,
+} from '@/lib/consent';
+
+export interface ConsentContextValue {
+  consent: ConsentState | null;
+  // False until the stored decision has been read on the client
+  ready: boolean;
+  preferencesOpen: boolean;
+  isGranted: (category: ConsentCategory) => boolean;
+  acceptAll: () => void;
+  rejectAll: () => void;
+  save: (choices: Partial<ConsentChoices>) => void;
+  openPreferences: () => void;
+  closePreferences: () => void;
+}
+
+const noop = () => {};
+
+// Outside a provider nothing optional is granted and the actions do nothing
+export const ConsentContext = createContext<ConsentContextValue>({
+  consent: null,
+  ready: false,
+  preferencesOpen: false,
+  isGranted: (category) => isCategoryGranted(null, category),
+  acceptAll: noop,
+  rejectAll: noop,
+  save: noop,
+  openPreferences: noop,
+  closePreferences: noop,
+});
+
+interface ConsentProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Holds the visitor's cookie consent and the preferences modal state
+ * Nothing optional is granted on the server or the first client render
+ */
+export function ConsentProvider({ children }: ConsentProviderProps) {
+  const [consent, setConsent] = useState<ConsentState | null>(null);
+  const [ready, setReady] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  useEffect(() => {
+    setConsent(readConsentCookie());
+    setReady(true);
+  }, []);
+
+  const save = useCallback(
+    (choices: Partial<ConsentChoices>) => {
+      const next = createConsent(choices);
+      writeConsentCookie(next);
+      setPreferencesOpen(false);
+
+      // Injected scripts can't be unloaded, so withdrawing consent starts a clean page
+      if (getRevokedCategories(consent, next).length > 0) {
+        window.location.reload();
+        return;
+      }
+      setConsent(next);
+    },
+    [consent]
+  );
+
+  const value = useMemo<ConsentContextValue>(
+    () => ({
+      consent,
+      ready,
+      preferencesOpen,
+      isGranted: (category) => isCategoryGranted(consent, category),
+      acceptAll: () => save({ analytics: true, marketing: true }),
+      rejectAll: () => save({ analytics: false, marketing: false }),
+      save,
+      openPreferences: () => setPreferencesOpen(true),
+      closePreferences: () => setPreferencesOpen(false),
+    }),
+    [consent, ready, preferencesOpen, save]
+  );
+
+  return <ConsentContext.Provider value={value}>{children}</ConsentContext.Provider>;
+}
+
+export default ConsentProvider;
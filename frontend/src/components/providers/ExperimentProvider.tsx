@@ -0,0 +1,27 @@
+'use client';
+
+import React, { createContext, useEffect } from 'react';
+import { getAnalyticsClient } from '@/lib/analytics';
+import type { ExperimentAssignments } from '@/lib/experiments';
+
+// Null outside a [locale] route; useExperiment() then returns each experiment's control
+export const ExperimentContext = createContext<ExperimentAssignments | null>(null);
+
+interface ExperimentProviderProps {
+  assignments: ExperimentAssignments;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides the variants assigned on the server to client components
+ * and tags analytics events with them
+ */
+export function ExperimentProvider({ assignments, children }: ExperimentProviderProps) {
+  useEffect(() => {
+    getAnalyticsClient().setContext({ experiments: assignments });
+  }, [assignments]);
+
+  return <ExperimentContext.Provider value={assignments}>{children}</ExperimentContext.Provider>;
+}
+
+export default ExperimentProvider;
@@ -0,0 +1,31 @@
+'use client';
+
+import React, { createContext, useMemo } from 'react';
+import { DEFAULT_LOCALE, getMessages, type Locale, type Messages } from '@/lib/i18n';
+
+export interface I18nContextValue {
+  locale: Locale;
+  messages: Messages;
+}
+
+// Defaults to Spanish so components rendered outside a [locale] route still work
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  messages: getMessages(DEFAULT_LOCALE),
+});
+
+interface I18nProviderProps {
+  locale: Locale;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides the active locale and its message catalog to client components
+ */
+export function I18nProvider({ locale, children }: I18nProviderProps) {
+  const value = useMemo(() => ({ locale, messages: getMessages(locale) }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export default I18nProvider;
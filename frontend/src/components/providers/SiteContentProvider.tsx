@@ -0,0 +1,21 @@
+'use client';
+
+import React, { createContext } from 'react';
+import type { SiteContent } from '@/lib/content';
+
+// Null outside a [locale] route; useContent() then falls back to the bundled files
+export const SiteContentContext = createContext<SiteContent | null>(null);
+
+interface SiteContentProviderProps {
+  content: SiteContent;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides the section content loaded on the server (published or draft) to client components
+ */
+export function SiteContentProvider({ content, children }: SiteContentProviderProps) {
+  return <SiteContentContext.Provider value={content}>{children}</SiteContentContext.Provider>;
+}
+
+export default SiteContentProvider;
@@ -6,49 +6,29 @@ import { Clock, Package, Heart } from 'lucide-react';
 import { Card } from '../ui/Card';
 import { useCountUp } from '../../hooks/useCountUp';
 import { animations } from '../../lib/utils';
-
-const benefits = [
-  {
-    id: 1,
-    title: 'Ahorra hasta 5 horas semanales',
-    description: 'Automatiza tareas repetitivas y enfócate en lo que realmente importa: tus pacientes.',
-    statValue: 5,
-    statSuffix: 'h',
-    statLabel: 'semanales ahorradas',
-    icon: Clock,
-  },
-  {
-    id: 2,
-    title: 'Reduce pérdidas por mal inventario',
-    description: 'Control preciso de stock con alertas automáticas de reposición.',
-    statValue: 30,
-    statSuffix: '%',
-    statLabel: 'reducción en pérdidas',
-    icon: Package,
-  },
-  {
-    id: 3,
-    title: 'Mejora la satisfacción del paciente',
-    description: 'Recordatorios automáticos y mejor organización de citas.',
-    statValue: 95,
-    statSuffix: '%',
-    statLabel: 'satisfacción del paciente',
-    icon: Heart,
-  },
-];
-
-
+import { useTranslations } from '../../hooks/useTranslations';
+import { useContent } from '../../hooks/useContent';
+import { useSectionView } from '../../hooks/useSectionView';
+import type { BenefitIcon } from '../../lib/content';
+import type { Benefit } from '@/types';
+
+// Artwork for the icon names used in content/<locale>/benefits.json
+const benefitIcons: Record<BenefitIcon, typeof Clock> = {
+  clock: Clock,
+  package: Package,
+  heart: Heart,
+};
 
 // Componente individual para cada tarjeta de beneficio con animación de conteo
-function BenefitCard({ benefit, index }: { benefit: typeof benefits[0]; index: number }) {
-  const IconComponent = benefit.icon;
+function BenefitCard({ benefit, index }: { benefit: Benefit & { icon: BenefitIcon }; index: number }) {
+  const IconComponent = benefitIcons[benefit.icon];
   const [hasAnimated, setHasAnimated] = useState(false);
   
   // Hook para animar el conteo de la estadística
   const countUp = useCountUp({
-    end: benefit.statValue,
+    end: benefit.stat.value,
     duration: 2000,
-    suffix: benefit.statSuffix,
+    suffix: benefit.stat.suffix,
     delay: index * 200, // Delay escalonado para cada tarjeta
   });
 
@@ -88,7 +68,7 @@ function BenefitCard({ benefit, index }: { benefit: typeof benefits[0]; index: n
               {countUp.value}
             </div>
             <div className="text-sm text-[#495057] font-lato mt-1">
-              {benefit.statLabel}
+              {benefit.stat.label}
             </div>
           </div>
 
@@ -106,9 +86,13 @@ function BenefitCard({ benefit, index }: { benefit: typeof benefits[0]; index: n
 }
 
 export function Benefits() {
+  const { messages } = useTranslations();
+  const copy = messages.benefits;
+  const { benefits } = useContent();
+  const sectionRef = useSectionView('benefits');
 
   return (
-    <section className="relative py-20 bg-gradient-to-br from-[#F8F9FA] to-white overflow-hidden">
+    <section ref={sectionRef} className="relative py-20 bg-gradient-to-br from-[#F8F9FA] to-white overflow-hidden">
       {/* Static Background Elements - No infinite animations */}
       <div className="absolute inset-0 opacity-30">
         <div className="absolute top-10 left-10 w-32 h-32 bg-[#55A05E] opacity-10 rounded-full blur-xl" />
@@ -129,10 +113,10 @@ export function Benefits() {
           className="text-center mb-16"
         >
           <h2 className="font-section-title text-[#2C6145] mb-4 text-balance">
-            Beneficios Comprobados
+            {copy.title}
           </h2>
           <p className="font-subtitle text-[#495057] max-w-3xl mx-auto text-balance">
-            Más de 500 clínicas en Chile ya confían en nuestro sistema para optimizar su gestión diaria.
+            {copy.subtitle}
           </p>
         </motion.div>
 
@@ -174,17 +158,17 @@ export function Benefits() {
             
             <div className="relative z-10">
               <h3 className="text-2xl font-bold mb-4 font-montserrat">
-                ¿Listo para transformar tu clínica?
+                {copy.ctaTitle}
               </h3>
               <p className="text-lg mb-6 opacity-90 font-lato">
-                Únete a las clínicas que ya están optimizando su gestión con Podoclinic.
+                {copy.ctaDescription}
               </p>
               <motion.button
                 className="bg-[#55A05E] text-white px-8 py-3 rounded-lg font-medium font-poppins"
                 whileHover={{ scale: 1.05, transition: { duration: 0.2 } }}
                 whileTap={{ scale: 0.95 }}
               >
-                Solicita tu Demo Gratuita
+                {copy.ctaButton}
               </motion.button>
             </div>
           </motion.div>
@@ -1,38 +1,46 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { useForm } from 'react-hook-form';
+import { useForm, type PathValue } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Send, CheckCircle, AlertCircle } from 'lucide-react';
+import { Send, CheckCircle, AlertCircle, X } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card } from '@/components/ui/Card';
-
-
-// Zod validation schema
-const contactSchema = z.object({
-  fullName: z
-    .string()
-    .min(2, 'El nombre debe tener al menos 2 caracteres')
-    .max(50, 'El nombre no puede exceder 50 caracteres')
-    .regex(/^[a-zA-ZáéíóúÁÉÍÓÚñÑ\s]+$/, 'El nombre solo puede contener letras y espacios'),
-  email: z
-    .string()
-    .email('Por favor ingresa un email válido')
-    .min(1, 'El email es requerido'),
-  whatsapp: z
-    .string()
-    .min(1, 'El número de WhatsApp es requerido')
-    .regex(/^(\+56)?[9][0-9]{8}$/, 'Ingresa un número de WhatsApp chileno válido (ej: +56912345678 o 912345678)')
-});
-
-type ContactFormInputs = z.infer<typeof contactSchema>;
+import { DemoScheduler } from './DemoScheduler';
+import { usePlanSelection } from '@/hooks/usePlanSelection';
+import { useContent } from '@/hooks/useContent';
+import { useTranslations } from '@/hooks/useTranslations';
+import { useSectionView } from '@/hooks/useSectionView';
+import { isPlanId } from '@/lib/planSelection';
+import { localizePlans } from '@/lib/plans';
+import {
+  CHILEAN_REGIONS,
+  PROFESSIONALS_RANGES,
+  createContactSchema,
+  getOptionLabel,
+  type ContactFormInputs,
+  type ContactFormValues,
+} from '@/lib/validation';
+import { HONEYPOT_FIELD, STARTED_AT_FIELD } from '@/lib/spamProtection';
+import { readAttribution } from '@/lib/attribution';
+import { DEFAULT_PHONE_COUNTRY, PHONE_COUNTRIES, PHONE_RULES, isPhoneCountry } from '@/lib/phone';
+import { interpolate, type Messages } from '@/lib/i18n';
+import type { ApiResponse, Lead } from '@/types';
 
 // Form submission states
 type SubmissionState = 'idle' | 'submitting' | 'success' | 'error';
 
+type ContactErrorKey = keyof Messages['contact']['errors'];
+
+// API error codes with a dedicated message; anything else shows the generic one
+const apiErrorMessages: Partial<Record<string, ContactErrorKey>> = {
+  validation_error: 'validation',
+  submission_too_fast: 'tooFast',
+  rate_limited: 'rateLimited',
+};
+
 /**
  * Contact section component with form validation
  * Implements React Hook Form with Zod validation for real-time validation
@@ -40,6 +48,33 @@ type SubmissionState = 'idle' | 'submitting' | 'success' | 'error';
 export const Contact: React.FC = () => {
   const [submissionState, setSubmissionState] = useState<SubmissionState>('idle');
   const [submitMessage, setSubmitMessage] = useState<string>('');
+  const [leadId, setLeadId] = useState<string | null>(null);
+  const sectionRef = useSectionView('contact');
+
+  // Bot detection: hidden honeypot input and the time the form was shown
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const formStartedAt = useRef<number>(Date.now());
+
+  const { locale, messages } = useTranslations();
+  const copy = messages.contact;
+  const contactSchema = useMemo(() => createContactSchema(messages), [messages]);
+  const { plans } = useContent();
+  const planOptions = useMemo(
+    () => localizePlans(locale, plans).map((plan) => ({ value: plan.id, label: plan.name })),
+    [locale, plans]
+  );
+  const professionalsOptions = useMemo(
+    () => PROFESSIONALS_RANGES.map((range) => ({ ...range, label: copy.professionalsOptions[range.value] })),
+    [copy]
+  );
+  const regionOptions = useMemo(
+    () => CHILEAN_REGIONS.map((region) => ({ ...region, label: copy.regionOptions[region.value] })),
+    [copy]
+  );
+  const phoneCountryOptions = useMemo(
+    () => PHONE_COUNTRIES.map((country) => ({ value: country, label: messages.countries[country] })),
+    [messages]
+  );
 
   // Initialize React Hook Form with Zod resolver
   const {
@@ -48,41 +83,107 @@ export const Contact: React.FC = () => {
     reset,
     watch,
     setValue,
+    setError,
     trigger
-  } = useForm<ContactFormInputs>({
+  } = useForm<ContactFormValues, unknown, ContactFormInputs>({
     resolver: zodResolver(contactSchema),
     mode: 'onChange', // Enable real-time validation
     defaultValues: {
       fullName: '',
       email: '',
-      whatsapp: ''
+      whatsapp: '',
+      phoneCountry: DEFAULT_PHONE_COUNTRY,
+      clinicName: '',
+      city: '',
+      currentSoftware: '',
+      plan: ''
     }
   });
 
   // Watch form values for real-time updates
   const watchedValues = watch();
 
+  // Update a field and re-run its validation
+  const handleFieldChange = <K extends keyof ContactFormValues>(field: K, value: string) => {
+    setValue(field, value as PathValue<ContactFormValues, K>, { shouldDirty: true });
+    trigger(field);
+  };
+
+  // The WhatsApp number is validated against the selected country's rules
+  const phoneCountry = isPhoneCountry(watchedValues.phoneCountry) ? watchedValues.phoneCountry : DEFAULT_PHONE_COUNTRY;
+
+  const handlePhoneCountryChange = (value: string) => {
+    handleFieldChange('phoneCountry', value);
+    if (watchedValues.whatsapp) {
+      trigger('whatsapp');
+    }
+    // Chilean region codes and free-text provinces don't carry over between countries
+    if ((value === 'CL') !== (phoneCountry === 'CL')) {
+      setValue('region', '');
+    }
+  };
+
+  // Plan preselected from a Pricing card (URL query/hash), kept in sync with the form
+  const { plan: selectedPlan, selectPlan, clearPlan } = usePlanSelection();
+
+  useEffect(() => {
+    setValue('plan', selectedPlan ?? '', { shouldDirty: selectedPlan !== null });
+  }, [selectedPlan, setValue]);
+
+  const handlePlanChange = (value: string) => {
+    handleFieldChange('plan', value);
+    if (isPlanId(value)) {
+      selectPlan(value);
+    } else {
+      clearPlan();
+    }
+  };
+
   // Form submission handler
   const onSubmit = async (data: ContactFormInputs) => {
     setSubmissionState('submitting');
     setSubmitMessage('');
 
     try {
-      // Simulate API call - replace with actual API endpoint
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // For now, we'll just log the data and show success
-      console.log('Form submitted:', data);
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          locale,
+          attribution: readAttribution() ?? undefined,
+          [HONEYPOT_FIELD]: honeypotRef.current?.value ?? '',
+          [STARTED_AT_FIELD]: formStartedAt.current,
+        }),
+      });
+      const result: ApiResponse<Pick<Lead, 'id' | 'createdAt'>> = await response.json();
+
+      if (!response.ok || !result.success) {
+        // Map server-side validation errors back onto the form fields
+        if (result.fieldErrors) {
+          Object.entries(result.fieldErrors).forEach(([field, message]) => {
+            if (field in contactSchema.shape) {
+              setError(field as keyof ContactFormValues, { type: 'server', message });
+            }
+          });
+        }
+
+        setSubmissionState('error');
+        setSubmitMessage(copy.errors[(result.error && apiErrorMessages[result.error]) || 'generic']);
+        return;
+      }
       
       setSubmissionState('success');
-      setSubmitMessage('¡Gracias! Hemos recibido tu solicitud. Te contactaremos pronto para coordinar tu demostración gratuita.');
+      setLeadId(result.data?.id ?? null);
+      setSubmitMessage(copy.successMessage);
       
       // Reset form after successful submission
       reset();
+      clearPlan();
     } catch (error) {
       console.error('Form submission error:', error);
       setSubmissionState('error');
-      setSubmitMessage('Hubo un error al enviar tu solicitud. Por favor intenta nuevamente.');
+      setSubmitMessage(copy.errors.generic);
     }
   };
 
@@ -119,7 +220,7 @@ export const Contact: React.FC = () => {
   };
 
   return (
-    <section id="contact" className="py-16 bg-gradient-to-br from-gray-50 to-white">
+    <section ref={sectionRef} id="contact" className="py-16 bg-gradient-to-br from-gray-50 to-white">
       <div className="container mx-auto px-6 max-w-4xl">
         <motion.div
           variants={containerVariants}
@@ -132,14 +233,13 @@ export const Contact: React.FC = () => {
             variants={itemVariants}
             className="font-section-title text-[#2C6145] mb-4 text-balance"
           >
-            Solicita una Demostración Gratuita
+            {copy.title}
           </motion.h2>
           <motion.p 
             variants={itemVariants}
             className="font-subtitle text-gray-600 max-w-2xl mx-auto text-balance"
           >
-            Descubre cómo Podoclinic puede transformar la gestión de tu clínica. 
-            Completa el formulario y te contactaremos para agendar tu demostración personalizada.
+            {copy.subtitle}
           </motion.p>
         </motion.div>
 
@@ -160,34 +260,50 @@ export const Contact: React.FC = () => {
               >
                 <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
                 <h3 className="text-2xl font-semibold text-[#2C6145] mb-4">
-                  ¡Solicitud Enviada!
+                  {copy.successTitle}
                 </h3>
                 <p className="text-gray-600 mb-6">
                   {submitMessage}
                 </p>
+                {leadId && (
+                  <DemoScheduler leadId={leadId} className="mb-6" />
+                )}
                 <Button
                   variant="outline"
                   onClick={() => {
                     setSubmissionState('idle');
                     setSubmitMessage('');
+                    setLeadId(null);
+                    formStartedAt.current = Date.now();
                   }}
                 >
-                  Enviar otra solicitud
+                  {copy.sendAnother}
                 </Button>
               </motion.div>
             ) : (
               <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                {/* Honeypot field, hidden from users and assistive technology */}
+                <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                  <label htmlFor={`input-${HONEYPOT_FIELD}`}>{copy.honeypotLabel}</label>
+                  <input
+                    ref={honeypotRef}
+                    id={`input-${HONEYPOT_FIELD}`}
+                    name={HONEYPOT_FIELD}
+                    type="text"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    defaultValue=""
+                  />
+                </div>
+
                 <motion.div variants={itemVariants}>
                   <Input
-                    label="Nombre Completo"
+                    label={copy.fields.fullName.label}
                     type="text"
                     name="fullName"
                     value={watchedValues.fullName}
-                    onChange={(value) => {
-                      setValue('fullName', value);
-                      trigger('fullName'); // Trigger validation
-                    }}
-                    placeholder="Ingresa tu nombre completo"
+                    onChange={(value) => handleFieldChange('fullName', value)}
+                    placeholder={copy.fields.fullName.placeholder}
                     required
                     error={errors.fullName?.message}
                   />
@@ -195,36 +311,152 @@ export const Contact: React.FC = () => {
 
                 <motion.div variants={itemVariants}>
                   <Input
-                    label="Email"
+                    label={copy.fields.email.label}
                     type="email"
                     name="email"
                     value={watchedValues.email}
-                    onChange={(value) => {
-                      setValue('email', value);
-                      trigger('email'); // Trigger validation
-                    }}
-                    placeholder="tu@email.com"
+                    onChange={(value) => handleFieldChange('email', value)}
+                    placeholder={copy.fields.email.placeholder}
                     required
                     error={errors.email?.message}
                   />
                 </motion.div>
 
-                <motion.div variants={itemVariants}>
+                <motion.div variants={itemVariants} className="grid grid-cols-1 sm:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
                   <Input
-                    label="WhatsApp"
+                    label={copy.fields.phoneCountry.label}
+                    type="select"
+                    name="phoneCountry"
+                    value={phoneCountry}
+                    onChange={handlePhoneCountryChange}
+                    options={phoneCountryOptions}
+                    required
+                    error={errors.phoneCountry?.message}
+                  />
+                  <Input
+                    label={copy.fields.whatsapp.label}
                     type="tel"
                     name="whatsapp"
                     value={watchedValues.whatsapp}
-                    onChange={(value) => {
-                      setValue('whatsapp', value);
-                      trigger('whatsapp'); // Trigger validation
-                    }}
-                    placeholder="+56912345678 o 912345678"
+                    onChange={(value) => handleFieldChange('whatsapp', value)}
+                    placeholder={interpolate(copy.fields.whatsapp.placeholder, {
+                      example: PHONE_RULES[phoneCountry].example,
+                    })}
                     required
                     error={errors.whatsapp?.message}
                   />
                 </motion.div>
 
+                <motion.div variants={itemVariants}>
+                  <Input
+                    label={copy.fields.clinicName.label}
+                    type="text"
+                    name="clinicName"
+                    value={watchedValues.clinicName}
+                    onChange={(value) => handleFieldChange('clinicName', value)}
+                    placeholder={copy.fields.clinicName.placeholder}
+                    required
+                    maxLength={80}
+                    error={errors.clinicName?.message}
+                  />
+                </motion.div>
+
+                <motion.div variants={itemVariants} className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                  <Input
+                    label={copy.fields.professionals.label}
+                    type="select"
+                    name="professionals"
+                    value={watchedValues.professionals ?? ''}
+                    onChange={(value) => handleFieldChange('professionals', value)}
+                    options={professionalsOptions}
+                    placeholder={copy.fields.professionals.placeholder}
+                    required
+                    error={errors.professionals?.message}
+                  />
+                  {watchedValues.plan ? (
+                    <div>
+                      <span id="label-plan" className="block text-sm font-medium text-[#2C6145] mb-2">
+                        {copy.fields.plan.label}
+                      </span>
+                      <div className="flex items-center min-h-[44px]" role="group" aria-labelledby="label-plan">
+                        <span className="inline-flex items-center gap-2 pl-4 pr-2 py-2 rounded-full bg-[#55A05E]/10 border border-[#55A05E] text-[#2C6145] text-sm font-medium">
+                          {getOptionLabel(planOptions, watchedValues.plan)}
+                          <button
+                            type="button"
+                            onClick={() => handlePlanChange('')}
+                            className="p-1 rounded-full hover:bg-[#55A05E]/20 transition-colors duration-200"
+                            aria-label={copy.removePlan}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </span>
+                      </div>
+                    </div>
+                  ) : (
+                    <Input
+                      label={copy.fields.plan.label}
+                      type="select"
+                      name="plan"
+                      value=""
+                      onChange={handlePlanChange}
+                      options={planOptions}
+                      placeholder={copy.fields.plan.placeholder}
+                      error={errors.plan?.message}
+                    />
+                  )}
+                </motion.div>
+
+                <motion.div variants={itemVariants} className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                  {phoneCountry === 'CL' ? (
+                    <Input
+                      label={copy.fields.region.label}
+                      type="select"
+                      name="region"
+                      value={watchedValues.region ?? ''}
+                      onChange={(value) => handleFieldChange('region', value)}
+                      options={regionOptions}
+                      placeholder={copy.fields.region.placeholder}
+                      required
+                      error={errors.region?.message}
+                    />
+                  ) : (
+                    <Input
+                      label={copy.fields.regionOther.label}
+                      type="text"
+                      name="region"
+                      value={watchedValues.region ?? ''}
+                      onChange={(value) => handleFieldChange('region', value)}
+                      placeholder={copy.fields.regionOther.placeholder}
+                      maxLength={60}
+                      error={errors.region?.message}
+                    />
+                  )}
+                  <Input
+                    label={copy.fields.city.label}
+                    type="text"
+                    name="city"
+                    value={watchedValues.city ?? ''}
+                    onChange={(value) => handleFieldChange('city', value)}
+                    placeholder={copy.fields.city.placeholder}
+                    maxLength={60}
+                    error={errors.city?.message}
+                  />
+                </motion.div>
+
+                <motion.div variants={itemVariants}>
+                  <Input
+                    label={copy.fields.currentSoftware.label}
+                    type="textarea"
+                    name="currentSoftware"
+                    value={watchedValues.currentSoftware ?? ''}
+                    onChange={(value) => handleFieldChange('currentSoftware', value)}
+                    placeholder={copy.fields.currentSoftware.placeholder}
+                    rows={3}
+                    maxLength={300}
+                    error={errors.currentSoftware?.message}
+                  />
+                </motion.div>
+
                 {submissionState === 'error' && (
                   <motion.div
                     initial={{ opacity: 0, y: -10 }}
@@ -246,11 +478,11 @@ export const Contact: React.FC = () => {
                     className="w-full"
                   >
                     {submissionState === 'submitting' ? (
-                      'Enviando solicitud...'
+                      copy.submitting
                     ) : (
                       <>
                         <Send className="w-5 h-5 mr-2" />
-                        Solicitar Demostración Gratuita
+                        {copy.submit}
                       </>
                     )}
                   </Button>
@@ -258,8 +490,7 @@ export const Contact: React.FC = () => {
 
                 <motion.div variants={itemVariants}>
                   <p className="text-sm text-gray-500 text-center">
-                    Al enviar este formulario, aceptas que nos contactemos contigo para 
-                    coordinar tu demostración. No compartiremos tu información con terceros.
+                    {copy.privacyNote}
                   </p>
                 </motion.div>
               </form>
@@ -277,10 +508,10 @@ export const Contact: React.FC = () => {
         >
           <motion.div variants={itemVariants} className="bg-[#2C6145] rounded-2xl p-8 text-white">
             <h3 className="text-2xl font-bold mb-4">
-              ¿Tienes preguntas? ¡Estamos aquí para ayudarte!
+              {copy.questionsTitle}
             </h3>
             <p className="text-lg mb-6 opacity-90">
-              Nuestro equipo está disponible para resolver todas tus dudas sobre Podoclinic
+              {copy.questionsSubtitle}
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
               <div className="flex items-center">
@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Calendar, Clock, Download, AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import { useTranslations } from '@/hooks/useTranslations';
+import { localeInfo } from '@/lib/i18n';
+import {
+  DEFAULT_TIME_ZONE,
+  formatSlotDate,
+  formatSlotTime,
+  groupSlotsByDate,
+} from '@/lib/scheduling';
+import type { ApiResponse, DemoBooking, DemoSlot, DemoSlotsResponse } from '@/types';
+
+interface DemoSchedulerProps {
+  leadId: string;
+  className?: string;
+}
+
+type SchedulerState = 'loading' | 'ready' | 'booking' | 'booked' | 'error';
+
+/**
+ * Optional second step after a demo request: pick a slot from the available times
+ * Times are always shown in Chile/Santiago time, matching the sales team's calendar
+ */
+export const DemoScheduler: React.FC<DemoSchedulerProps> = ({ leadId, className }) => {
+  const { locale, messages, t } = useTranslations();
+  const copy = messages.scheduler;
+  const dateLocale = localeInfo[locale].htmlLang;
+  const [state, setState] = useState<SchedulerState>('loading');
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [slots, setSlots] = useState<DemoSlot[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<DemoSlot | null>(null);
+  const [booking, setBooking] = useState<DemoBooking | null>(null);
+  const [message, setMessage] = useState('');
+
+  const days = useMemo(() => groupSlotsByDate(slots, timeZone), [slots, timeZone]);
+  const activeDay = days.find((day) => day.date === selectedDate) ?? days[0];
+
+  const loadSlots = useCallback(async () => {
+    try {
+      const response = await fetch('/api/demo-slots', { cache: 'no-store' });
+      const result: ApiResponse<DemoSlotsResponse> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        throw new Error(result.message || 'No pudimos cargar los horarios disponibles.');
+      }
+
+      setTimeZone(result.data.timeZone);
+      setSlots(result.data.slots);
+      setState('ready');
+    } catch (error) {
+      console.error('Demo slots error:', error);
+      setMessage(copy.loadError);
+      setState('error');
+    }
+  }, [copy]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const handleBook = async () => {
+    if (!selectedSlot) return;
+
+    setState('booking');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/demo-bookings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leadId, start: selectedSlot.start }),
+      });
+      const result: ApiResponse<DemoBooking> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        setMessage(copy.bookError);
+        setSelectedSlot(null);
+
+        // Someone else took the slot: refresh so it disappears from the list
+        if (result.error === 'slot_unavailable') {
+          await loadSlots();
+        } else {
+          setState('ready');
+        }
+        return;
+      }
+
+      setBooking(result.data);
+      setState('booked');
+    } catch (error) {
+      console.error('Demo booking error:', error);
+      setMessage(copy.bookError);
+      setState('ready');
+    }
+  };
+
+  if (state === 'loading') {
+    return (
+      <div className={cn('text-center text-gray-500 py-6', className)} aria-live="polite">
+        {copy.loading}
+      </div>
+    );
+  }
+
+  if (state === 'booked' && booking) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={cn('p-6 bg-green-50 border border-green-200 rounded-lg text-center', className)}
+      >
+        <CheckCircle className="w-8 h-8 text-green-500 mx-auto mb-3" />
+        <p className="font-semibold text-[#2C6145] mb-1">{copy.bookedTitle}</p>
+        <p className="text-gray-700 mb-4 first-letter:uppercase">
+          {t('scheduler.bookedAt', {
+            date: formatSlotDate(booking.start, timeZone, dateLocale),
+            time: formatSlotTime(booking.start, timeZone, dateLocale),
+          })}
+        </p>
+        <a
+          href={`/api/demo-bookings/${booking.id}/calendar`}
+          download="demo-podoclinic.ics"
+          className="inline-flex items-center text-[#2C6145] font-medium hover:text-[#55A05E] transition-colors duration-200"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {copy.addToCalendar}
+        </a>
+      </motion.div>
+    );
+  }
+
+  if (state === 'error' || days.length === 0) {
+    return (
+      <div className={cn('flex items-center p-4 bg-gray-50 border border-gray-200 rounded-lg', className)}>
+        <AlertCircle className="w-5 h-5 text-gray-500 mr-3 flex-shrink-0" />
+        <p className="text-gray-600 text-sm">
+          {message || copy.noSlots}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('text-left', className)}>
+      <h4 className="flex items-center text-lg font-semibold text-[#2C6145] mb-1">
+        <Calendar className="w-5 h-5 mr-2" />
+        {copy.title}
+      </h4>
+      <p className="text-sm text-gray-500 mb-4">
+        {copy.subtitle}
+      </p>
+
+      {/* Day selector */}
+      <div className="flex gap-2 overflow-x-auto pb-2 mb-4" role="tablist" aria-label={copy.days}>
+        {days.map((day) => (
+          <button
+            key={day.date}
+            type="button"
+            role="tab"
+            aria-selected={day.date === activeDay?.date}
+            onClick={() => {
+              setSelectedDate(day.date);
+              setSelectedSlot(null);
+            }}
+            className={cn(
+              'px-3 py-2 rounded-lg border text-sm whitespace-nowrap capitalize transition-colors duration-200 min-h-[44px]',
+              day.date === activeDay?.date
+                ? 'bg-[#2C6145] border-[#2C6145] text-white'
+                : 'border-gray-300 text-gray-700 hover:border-[#55A05E]'
+            )}
+          >
+            {formatSlotDate(day.slots[0].start, timeZone, dateLocale)}
+          </button>
+        ))}
+      </div>
+
+      {/* Time slots for the active day */}
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mb-4" role="radiogroup" aria-label={copy.times}>
+        {activeDay?.slots.map((slot) => (
+          <button
+            key={slot.start}
+            type="button"
+            role="radio"
+            aria-checked={selectedSlot?.start === slot.start}
+            onClick={() => setSelectedSlot(slot)}
+            className={cn(
+              'flex items-center justify-center px-2 py-2 rounded-lg border text-sm transition-colors duration-200 min-h-[44px]',
+              selectedSlot?.start === slot.start
+                ? 'bg-[#55A05E] border-[#55A05E] text-white'
+                : 'border-gray-300 text-gray-700 hover:border-[#55A05E]'
+            )}
+          >
+            <Clock className="w-4 h-4 mr-1" />
+            {formatSlotTime(slot.start, timeZone, dateLocale)}
+          </button>
+        ))}
+      </div>
+
+      {message && (
+        <div className="flex items-center p-4 mb-4 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-5 h-5 text-red-500 mr-3 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      <Button
+        variant="primary"
+        className="w-full"
+        disabled={!selectedSlot}
+        loading={state === 'booking'}
+        onClick={handleBook}
+      >
+        {state === 'booking' ? copy.booking : copy.confirm}
+      </Button>
+    </div>
+  );
+};
+
+export default DemoScheduler;
@@ -4,20 +4,17 @@ import { motion } from 'framer-motion';
 import { useState } from 'react';
 import { ParallaxBackground, FloatingElement } from '../ui/ParallaxBackground';
 import { useStaggeredAnimation } from '../../hooks/useScrollAnimation';
+import { useSectionView } from '../../hooks/useSectionView';
+import { track } from '../../lib/analytics';
 import { animations } from '../../lib/utils';
 import { AppGallery } from '../ui/AppGallery';
+import { useTranslations } from '../../hooks/useTranslations';
+import { useContent } from '../../hooks/useContent';
+import type { FeatureIcon } from '../../lib/content';
 
-const features = [
-  {
-    id: 1,
-    title: 'Agenda de Citas',
-    description: 'Gestiona las citas de tus pacientes de forma eficiente con recordatorios automáticos.',
-    details: [
-      'Calendario interactivo con vista diaria, semanal y mensual',
-      'Recordatorios automáticos por WhatsApp y email',
-      'Gestión de disponibilidad y horarios flexibles',
-      'Integración con Google Calendar'
-    ],
+// Artwork and colors for the icon names used in content/<locale>/features.json
+const featureStyles: Record<FeatureIcon, { icon: JSX.Element; color: string; bgColor: string }> = {
+  calendar: {
     icon: (
       <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -26,16 +23,7 @@ const features = [
     color: 'from-blue-500 to-blue-600',
     bgColor: 'bg-blue-50',
   },
-  {
-    id: 2,
-    title: 'Fichas de Pacientes',
-    description: 'Mantén un registro completo del historial médico y tratamientos de cada paciente.',
-    details: [
-      'Historial médico completo y seguro',
-      'Fotos de antes y después de tratamientos',
-      'Notas de evolución y seguimiento',
-      'Documentos adjuntos y consentimientos'
-    ],
+  records: {
     icon: (
       <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -44,16 +32,7 @@ const features = [
     color: 'from-green-500 to-green-600',
     bgColor: 'bg-green-50',
   },
-  {
-    id: 3,
-    title: 'Control de Inventario',
-    description: 'Administra tu stock de productos y materiales con alertas de reposición.',
-    details: [
-      'Control de stock en tiempo real',
-      'Alertas automáticas de stock mínimo',
-      'Gestión de proveedores y compras',
-      'Reportes de rotación de inventario'
-    ],
+  inventory: {
     icon: (
       <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
@@ -62,17 +41,7 @@ const features = [
     color: 'from-purple-500 to-purple-600',
     bgColor: 'bg-purple-50',
   },
-
-  {
-    id: 4,
-    title: 'Dashboard y Alertas',
-    description: 'Visualiza información clave de tu clínica con alertas inteligentes.',
-    details: [
-      'Alertas de insumos que se están agotando',
-      'Visualización de citas del día en curso',
-      'Resumen de actividades diarias',
-      'Exportación de reportes básicos'
-    ],
+  dashboard: {
     icon: (
       <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
@@ -81,16 +50,7 @@ const features = [
     color: 'from-indigo-500 to-indigo-600',
     bgColor: 'bg-indigo-50',
   },
-  {
-    id: 5,
-    title: 'Recordatorios Automáticos',
-    description: 'Sistema de notificaciones por email para mantener informados a tus pacientes.',
-    details: [
-      'Recordatorios automáticos por email',
-      'Configuración de horarios de envío',
-      'Plantillas personalizables de mensajes',
-      'Historial de notificaciones enviadas'
-    ],
+  reminders: {
     icon: (
       <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
@@ -99,15 +59,20 @@ const features = [
     color: 'from-pink-500 to-pink-600',
     bgColor: 'bg-pink-50',
   },
-];
+};
 
 export function Features() {
+  const { messages } = useTranslations();
+  const copy = messages.features;
+  const features = useContent().features.map((feature) => ({ ...feature, ...featureStyles[feature.icon] }));
   // Usar Set para permitir múltiples tarjetas expandidas simultáneamente
-  const [expandedCards, setExpandedCards] = useState<Set<number>>(new Set());
-  const [hoveredCard, setHoveredCard] = useState<number | null>(null);
+  const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
+  const [hoveredCard, setHoveredCard] = useState<string | null>(null);
   const { ref: staggerRef, visibleItems } = useStaggeredAnimation(features.length, 100);
+  const sectionRef = useSectionView('features');
 
-  const handleCardClick = (id: number) => {
+  const handleCardClick = (id: string) => {
+    track('feature_expand', { featureId: id, expanded: !expandedCards.has(id) });
     setExpandedCards(prev => {
       const newSet = new Set(prev);
       if (newSet.has(id)) {
@@ -120,7 +85,7 @@ export function Features() {
   };
 
   return (
-    <section id="features" className="relative py-20 bg-white overflow-hidden">
+    <section ref={sectionRef} id="features" className="relative py-20 bg-white overflow-hidden">
       {/* Parallax Background Elements */}
       <ParallaxBackground speed={0.15} direction="down" className="opacity-20">
         <div className="absolute top-20 right-10 w-24 h-24 bg-[#55A05E] opacity-10 rounded-full blur-lg" />
@@ -154,13 +119,13 @@ export function Features() {
           className="text-center mb-16"
         >
           <h2 className="font-section-title text-[#2C6145] mb-4 text-balance">
-            Funcionalidades Completas
+            {copy.title}
           </h2>
           <p className="font-subtitle text-[#495057] max-w-3xl mx-auto text-balance">
-            Todo lo que necesitas para gestionar tu clínica de podología o manicura de manera profesional y eficiente.
+            {copy.subtitle}
           </p>
           <p className="text-sm text-[#55A05E] mt-4 font-medium font-poppins">
-            Haz clic en cada tarjeta para ver más detalles
+            {copy.hint}
           </p>
         </motion.div>
 
@@ -223,7 +188,7 @@ export function Features() {
                     {/* Expand/Collapse Indicator */}
                      <div className="flex items-center text-[#55A05E] text-sm font-medium">
                        <span className="mr-2">
-                         {isExpanded ? 'Ver menos' : 'Ver más'}
+                         {isExpanded ? copy.showLess : copy.showMore}
                        </span>
                        <svg 
                          className={`w-4 h-4 transition-transform duration-300 ease-in-out ${
@@ -281,10 +246,10 @@ export function Features() {
         >
           <div className="text-center mb-12">
             <h3 className="font-section-title text-[#2C6145] mb-4 text-balance">
-              Conoce la Aplicación
+              {copy.galleryTitle}
             </h3>
             <p className="font-subtitle text-[#495057] max-w-2xl mx-auto text-balance">
-              Explora las diferentes pantallas y funcionalidades de Podoclinic a través de estas capturas de la aplicación.
+              {copy.gallerySubtitle}
             </p>
           </div>
           <AppGallery />
@@ -4,7 +4,9 @@ import React from 'react';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import { typography } from '@/lib/constants';
+import { companyInfo, typography } from '@/lib/constants';
+import { useTranslations } from '@/hooks/useTranslations';
+import { useConsent } from '@/hooks/useConsent';
 
 /**
  * Footer component with company information, legal links, and copyright
@@ -12,26 +14,22 @@ import { typography } from '@/lib/constants';
  */
 export const Footer: React.FC = () => {
   const currentYear = new Date().getFullYear();
+  const { messages, t } = useTranslations();
+  const copy = messages.footer;
+  const { openPreferences } = useConsent();
 
-  // Legal links data
+  // Legal links data (the middleware adds the locale prefix)
   const legalLinks = [
-    { href: '/privacy', label: 'Política de Privacidad' },
-    { href: '/terms', label: 'Términos de Servicio' },
-    { href: '/cookies', label: 'Política de Cookies' },
+    { href: '/privacy', label: copy.privacy },
+    { href: '/terms', label: copy.terms },
+    { href: '/cookies', label: copy.cookies },
   ];
 
-  // Company contact information
-  const companyInfo = {
-    name: 'Podoclinic',
-    email: 'contacto@podoclinic.cl',
-    phone: '+56 9 1234 5678',
-  };
-
   return (
     <footer 
       className="bg-white border-t border-gray-100 py-8 md:py-12"
       role="contentinfo"
-      aria-label="Información de la empresa y enlaces legales"
+      aria-label={copy.ariaLabel}
     >
       <div className="max-w-7xl mx-auto px-6 lg:px-8">
         <div className="flex flex-col md:flex-row justify-between items-center space-y-6 md:space-y-0">
@@ -66,7 +64,7 @@ export const Footer: React.FC = () => {
                 <a 
                   href={`mailto:${companyInfo.email}`}
                   className="hover:text-[#55A05E] transition-colors duration-200"
-                  aria-label={`Enviar email a ${companyInfo.email}`}
+                  aria-label={t('footer.emailLabel', { email: companyInfo.email })}
                 >
                   {companyInfo.email}
                 </a>
@@ -75,7 +73,7 @@ export const Footer: React.FC = () => {
                 <a 
                   href={`tel:${companyInfo.phone}`}
                   className="hover:text-[#55A05E] transition-colors duration-200"
-                  aria-label={`Llamar al ${companyInfo.phone}`}
+                  aria-label={t('footer.callLabel', { phone: companyInfo.phone })}
                 >
                   {companyInfo.phone}
                 </a>
@@ -90,7 +88,7 @@ export const Footer: React.FC = () => {
             whileInView={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.6, delay: 0.1 }}
             viewport={{ once: true }}
-            aria-label="Enlaces legales"
+            aria-label={copy.legalAriaLabel}
           >
             {legalLinks.map((link) => (
               <Link
@@ -105,6 +103,17 @@ export const Footer: React.FC = () => {
                 {link.label}
               </Link>
             ))}
+            <button
+              type="button"
+              onClick={openPreferences}
+              className={cn(
+                "text-sm text-gray-600 hover:text-[#55A05E] transition-colors duration-200",
+                "focus:outline-none focus:ring-2 focus:ring-[#55A05E] focus:ring-offset-2 rounded-sm px-1 py-1"
+              )}
+              style={{ fontFamily: typography.fontFamily.body }}
+            >
+              {copy.cookieSettings}
+            </button>
           </motion.nav>
 
           {/* Copyright */}
@@ -116,10 +125,10 @@ export const Footer: React.FC = () => {
             viewport={{ once: true }}
           >
             <p style={{ fontFamily: typography.fontFamily.body }}>
-              © {currentYear} {companyInfo.name}. Todos los derechos reservados.
+              © {currentYear} {companyInfo.name}. {copy.rights}
             </p>
             <p className="mt-1 text-xs">
-              Hecho con ❤️ en Chile
+              {copy.madeIn}
             </p>
           </motion.div>
         </div>
@@ -133,7 +142,7 @@ export const Footer: React.FC = () => {
           viewport={{ once: true }}
         >
           <p className="text-xs text-gray-400 text-center">
-            Sistema integral de gestión para clínicas de podología y manicura
+            {copy.tagline}
           </p>
         </motion.div>
       </div>
@@ -5,6 +5,11 @@ import { motion } from 'framer-motion';
 import dynamic from 'next/dynamic';
 import { Button } from '@/components/ui/Button';
 import { ThreeDErrorBoundary } from '@/components/error/ThreeDErrorBoundary';
+import { useContent } from '@/hooks/useContent';
+import { useSectionView } from '@/hooks/useSectionView';
+import { useExperiment } from '@/hooks/useExperiment';
+import { getHeroVariantCopy } from '@/lib/content';
+import { track } from '@/lib/analytics';
 
 // Dynamically import HeroCanvas to prevent SSR issues with 3D animations
 const HeroCanvas = dynamic(
@@ -26,6 +31,11 @@ const HeroCanvas = dynamic(
 export function Hero() {
   const [mousePosition, setMousePosition] = useState({ x: 0.5, y: 0.5 });
   const sectionRef = useRef<HTMLElement>(null);
+  const content = useContent();
+  const headlineVariant = useExperiment('heroHeadline');
+  const ctaVariant = useExperiment('heroCta');
+  const hero = getHeroVariantCopy(content.hero, headlineVariant, ctaVariant);
+  const contentRef = useSectionView('hero');
 
   // Handle mouse movement across the entire Hero section
   useEffect(() => {
@@ -47,6 +57,7 @@ export function Hero() {
   }, []);
 
   const handleCTAClick = useCallback(() => {
+    track('cta_click', { cta: 'hero_demo' });
     try {
       const contactSection = document.getElementById('contact');
       if (contactSection) {
@@ -60,6 +71,7 @@ export function Hero() {
   }, []);
 
   const handleFeaturesClick = useCallback(() => {
+    track('cta_click', { cta: 'hero_features' });
     try {
       const featuresSection = document.getElementById('features');
       if (featuresSection) {
@@ -94,7 +106,7 @@ export function Hero() {
       </ThreeDErrorBoundary>
 
       {/* Content Overlay - Positioned above 3D Canvas */}
-      <div className="relative z-10 max-w-7xl mx-auto px-6 lg:px-8">
+      <div ref={contentRef} className="relative z-10 max-w-7xl mx-auto px-6 lg:px-8">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 items-center">
           {/* Text Content */}
           <motion.div
@@ -109,9 +121,9 @@ export function Hero() {
               transition={{ duration: 0.8, delay: 0.2 }}
               className="text-3xl md:text-4xl lg:text-5xl font-bold text-white mb-4 drop-shadow-lg"
             >
-              Sistema Podoclinic:{' '}
+              {hero.titlePrefix}{' '}
               <span className="block mt-2">
-                Gestiona tu clínica sin esfuerzo
+                {hero.titleHighlight}
               </span>
             </motion.h1>
 
@@ -121,8 +133,7 @@ export function Hero() {
               transition={{ duration: 0.8, delay: 0.4 }}
               className="text-base md:text-lg text-gray-100 mb-6 max-w-2xl mx-auto lg:mx-0 drop-shadow-md"
             >
-              La solución integral para clínicas de podología y manicura en Chile. 
-              Automatiza tu gestión, mejora la atención al paciente y haz crecer tu negocio.
+              {hero.subtitle}
             </motion.p>
 
             <motion.div
@@ -137,7 +148,7 @@ export function Hero() {
                 onClick={handleCTAClick}
                 className="transform transition-transform duration-200 hover:scale-105 shadow-xl"
               >
-                Solicita una Demostración Gratis
+                {hero.primaryCta}
               </Button>
               
               <Button
@@ -146,7 +157,7 @@ export function Hero() {
                 onClick={handleFeaturesClick}
                 className="shadow-xl bg-white/10 backdrop-blur-sm border-white/30 text-white hover:bg-white hover:text-[#2C6145]"
               >
-                Ver Funcionalidades
+                {hero.secondaryCta}
               </Button>
             </motion.div>
 
@@ -163,8 +174,8 @@ export function Hero() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                 </div>
-                <h3 className="text-sm font-semibold text-white mb-1 drop-shadow-md">Ahorra Tiempo</h3>
-                <p className="text-xs text-gray-200 drop-shadow-sm">Automatización completa</p>
+                <h3 className="text-sm font-semibold text-white mb-1 drop-shadow-md">{hero.highlights[0].title}</h3>
+                <p className="text-xs text-gray-200 drop-shadow-sm">{hero.highlights[0].description}</p>
               </div>
 
               <div className="flex flex-col items-center lg:items-start">
@@ -173,8 +184,8 @@ export function Hero() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
                   </svg>
                 </div>
-                <h3 className="text-sm font-semibold text-white mb-1 drop-shadow-md">Evita Pérdidas</h3>
-                <p className="text-xs text-gray-200 drop-shadow-sm">Control de inventario</p>
+                <h3 className="text-sm font-semibold text-white mb-1 drop-shadow-md">{hero.highlights[1].title}</h3>
+                <p className="text-xs text-gray-200 drop-shadow-sm">{hero.highlights[1].description}</p>
               </div>
 
               <div className="flex flex-col items-center lg:items-start">
@@ -183,8 +194,8 @@ export function Hero() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
                   </svg>
                 </div>
-                <h3 className="text-sm font-semibold text-white mb-1 drop-shadow-md">Mejora tu Servicio</h3>
-                <p className="text-xs text-gray-200 drop-shadow-sm">Atención personalizada</p>
+                <h3 className="text-sm font-semibold text-white mb-1 drop-shadow-md">{hero.highlights[2].title}</h3>
+                <p className="text-xs text-gray-200 drop-shadow-sm">{hero.highlights[2].description}</p>
               </div>
             </motion.div>
           </motion.div>
@@ -204,7 +215,7 @@ export function Hero() {
         className="absolute bottom-8 left-1/2 transform -translate-x-1/2 z-20"
       >
         <div className="flex flex-col items-center text-white">
-          <span className="text-sm mb-2 drop-shadow-md">Descubre más</span>
+          <span className="text-sm mb-2 drop-shadow-md">{hero.scrollHint}</span>
           <motion.div
             animate={{ y: [0, 8, 0] }}
             transition={{ duration: 1.5, repeat: Infinity }}
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, X, ChevronDown } from 'lucide-react';
+import { useResponsive } from '@/hooks/useResponsive';
+import { useContent } from '@/hooks/useContent';
+import { useTranslations } from '@/hooks/useTranslations';
+import { useExperiment } from '@/hooks/useExperiment';
+import { applyPopularBadge, getComparisonTable, localizePlans, type ComparisonCell } from '@/lib/plans';
+import { cn } from '@/lib/utils';
+import type { PlanId } from '@/types';
+
+/**
+ * Single comparison cell: included, not included or a limit/qualifier
+ */
+const CellValue: React.FC<{ cell: ComparisonCell }> = ({ cell }) => {
+  const { messages } = useTranslations();
+
+  if (cell.type === 'check') {
+    return (
+      <>
+        <Check className="w-5 h-5 text-[#55A05E] inline-block" aria-hidden="true" />
+        <span className="sr-only">{messages.pricing.comparison.included}</span>
+      </>
+    );
+  }
+
+  if (cell.type === 'cross') {
+    return (
+      <>
+        <X className="w-5 h-5 text-gray-300 inline-block" aria-hidden="true" />
+        <span className="sr-only">{messages.pricing.comparison.notIncluded}</span>
+      </>
+    );
+  }
+
+  return <span className="text-sm font-medium text-[#2C6145]">{cell.label}</span>;
+};
+
+/**
+ * Plan comparison matrix generated from the plan catalog
+ * Desktop shows a table with a sticky plan header; mobile shows one accordion per plan
+ */
+export const PlanComparison: React.FC<{ className?: string }> = ({ className }) => {
+  const { isMobile } = useResponsive();
+  const { locale, messages } = useTranslations();
+  const copy = messages.pricing.comparison;
+  const { plans } = useContent();
+  const badgeVariant = useExperiment('pricingBadge');
+  const pricingPlans = useMemo(
+    () => applyPopularBadge(localizePlans(locale, plans), badgeVariant),
+    [locale, plans, badgeVariant]
+  );
+  const categories = useMemo(() => getComparisonTable(pricingPlans, locale), [pricingPlans, locale]);
+  const [openPlan, setOpenPlan] = useState<PlanId | null>(null);
+
+  return (
+    <div className={className}>
+      <h3 className="font-card-title text-[#2C6145] text-center mb-8 text-balance">
+        {copy.title}
+      </h3>
+
+      {isMobile ? (
+        <div className="space-y-3">
+          {pricingPlans.map((plan, planIndex) => {
+            const isOpen = openPlan === plan.id;
+            const panelId = `comparison-panel-${plan.id}`;
+
+            return (
+              <div key={plan.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+                <button
+                  type="button"
+                  aria-expanded={isOpen}
+                  aria-controls={panelId}
+                  onClick={() => setOpenPlan(isOpen ? null : plan.id)}
+                  className="w-full flex items-center justify-between px-4 py-3 min-h-[44px] text-left font-semibold text-[#2C6145]"
+                >
+                  {plan.name}
+                  <ChevronDown
+                    className={cn('w-5 h-5 transition-transform duration-200', isOpen && 'rotate-180')}
+                    aria-hidden="true"
+                  />
+                </button>
+
+                <AnimatePresence initial={false}>
+                  {isOpen && (
+                    <motion.div
+                      id={panelId}
+                      initial={{ height: 0, opacity: 0 }}
+                      animate={{ height: 'auto', opacity: 1 }}
+                      exit={{ height: 0, opacity: 0 }}
+                      transition={{ duration: 0.2 }}
+                      className="px-4 pb-4"
+                    >
+                      {categories.map((category) => (
+                        <div key={category.id} className="pt-3">
+                          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                            {category.label}
+                          </p>
+                          <ul className="divide-y divide-gray-100">
+                            {category.rows.map((row) => (
+                              <li key={row.id} className="flex items-center justify-between py-2 gap-4">
+                                <span className="text-sm text-gray-700">{row.label}</span>
+                                <span className="flex-shrink-0">
+                                  <CellValue cell={row.cells[planIndex]} />
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <table className="w-full bg-white border border-gray-200 rounded-lg text-left">
+          <caption className="sr-only">{copy.caption}</caption>
+          <thead>
+            <tr>
+              <th scope="col" className="sticky top-16 z-10 bg-white px-6 py-4 border-b border-gray-200 text-sm text-gray-500 font-medium">
+                {copy.feature}
+              </th>
+              {pricingPlans.map((plan) => (
+                <th
+                  key={plan.id}
+                  scope="col"
+                  className="sticky top-16 z-10 bg-white px-6 py-4 border-b border-gray-200 text-center font-semibold text-[#2C6145]"
+                >
+                  {plan.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          {categories.map((category) => (
+            <tbody key={category.id}>
+              <tr>
+                <th
+                  scope="colgroup"
+                  colSpan={pricingPlans.length + 1}
+                  className="bg-gray-50 px-6 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500"
+                >
+                  {category.label}
+                </th>
+              </tr>
+              {category.rows.map((row) => (
+                <tr key={row.id} className="border-t border-gray-100">
+                  <th scope="row" className="px-6 py-3 text-sm font-normal text-gray-700">
+                    {row.label}
+                  </th>
+                  {row.cells.map((cell, planIndex) => (
+                    <td
+                      key={pricingPlans[planIndex].id}
+                      className={cn('px-6 py-3 text-center', pricingPlans[planIndex].popular && 'bg-[#55A05E]/5')}
+                    >
+                      <CellValue cell={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          ))}
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default PlanComparison;
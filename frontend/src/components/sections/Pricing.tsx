@@ -1,254 +1,329 @@
 'use client';
 
-import React from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Check, Star } from 'lucide-react';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { AnimatedPrice } from '@/components/ui/AnimatedPrice';
+import { PlanComparison } from './PlanComparison';
 import { ParallaxBackground, FloatingElement } from '../ui/ParallaxBackground';
 import { useStaggeredAnimation } from '../../hooks/useScrollAnimation';
-import { animations } from '../../lib/utils';
-
-interface PricingPlan {
-  id: string;
-  name: string;
-  price: string;
-  period: string;
-  description: string;
-  isPopular?: boolean;
-  features: string[];
-  limitations?: string[];
+import { usePlanSelection } from '../../hooks/usePlanSelection';
+import { useTranslations } from '../../hooks/useTranslations';
+import { useContent } from '../../hooks/useContent';
+import { animations, cn } from '../../lib/utils';
+import { useCurrency } from '../../hooks/useCurrency';
+import { useSectionView } from '../../hooks/useSectionView';
+import { useExperiment } from '../../hooks/useExperiment';
+import { track } from '../../lib/analytics';
+import {
+  DEFAULT_ANNUAL_DISCOUNT,
+  getDiscountPercent,
+  getPlanPrice,
+  type BillingPeriod,
+} from '../../lib/pricing';
+import { BILLING_CURRENCY, CURRENCIES, formatPrice, isCurrencyCode } from '../../lib/currency';
+import { CONTACT_SECTION_ID } from '../../lib/planSelection';
+import { applyPopularBadge, getPlanHighlights, isFreePlan, localizePlans } from '../../lib/plans';
+import type { CurrencyCode, PlanId } from '@/types';
+
+interface PricingProps {
+  annualDiscount?: number;
 }
 
-const pricingPlans: PricingPlan[] = [
-  {
-    id: 'basico',
-    name: 'Plan Básico',
-    price: 'Gratuito',
-    period: '',
-    description: 'Ideal para profesionales independientes',
-    features: [
-      '1 usuario',
-      'Hasta 20 pacientes',
-      'Agenda de citas básica',
-      'Fichas de pacientes digitales',
-      'Recordatorios por email',
-      'Soporte por email'
-    ],
-    limitations: [
-      'Sin control de inventario',
-      'Sin facturación electrónica',
-      'Sin reportes avanzados'
-    ]
-  },
-  {
-    id: 'pro',
-    name: 'Plan Pro',
-    price: '$29.990',
-    period: '/mes',
-    description: 'Perfecto para clínicas en crecimiento',
-    isPopular: true,
-    features: [
-      'Hasta 5 usuarios',
-      'Pacientes ilimitados',
-      'Todas las funciones del plan básico',
-      'Control de inventario completo',
-      'Gestión de gastos',
-      'Alertas de stock bajo',
-      'Recordatorios SMS y WhatsApp',
-      'Soporte prioritario',
-      'Reportes básicos'
-    ]
-  },
-  {
-    id: 'premium',
-    name: 'Plan Premium',
-    price: '$49.990',
-    period: '/mes',
-    description: 'Para clínicas establecidas que buscan máxima eficiencia',
-    features: [
-      'Usuarios ilimitados',
-      'Todo lo del Plan Pro',
-      'Facturación electrónica (SII)',
-      'Reportes avanzados y analytics',
-      'Integración con sistemas contables',
-      'API personalizada',
-      'Soporte telefónico 24/7',
-      'Capacitación personalizada',
-      'Backup automático diario'
-    ]
-  }
-];
+const billingPeriods: BillingPeriod[] = ['monthly', 'annual'];
 
 /**
  * Pricing Section Component
  * Displays three subscription plans with responsive layout
- * Highlights the Pro plan as most popular
+ * Highlights the Pro plan as most popular (moved or hidden by the pricingBadge experiment)
  */
-export const Pricing: React.FC = () => {
+export const Pricing: React.FC<PricingProps> = ({ annualDiscount = DEFAULT_ANNUAL_DISCOUNT }) => {
+  const { locale, messages, t } = useTranslations();
+  const copy = messages.pricing;
+  const { plans } = useContent();
+  const badgeVariant = useExperiment('pricingBadge');
+  const pricingPlans = useMemo(
+    () => applyPopularBadge(localizePlans(locale, plans), badgeVariant),
+    [locale, plans, badgeVariant]
+  );
   const { ref: staggerRef, visibleItems } = useStaggeredAnimation(pricingPlans.length, 120);
+  const [billingPeriod, setBillingPeriod] = useState<BillingPeriod>('monthly');
+  const discountPercent = getDiscountPercent(annualDiscount);
+  const { selectPlan } = usePlanSelection();
+  const { currency, setCurrency } = useCurrency();
+  const sectionRef = useSectionView('pricing');
+
+  // Carry the chosen plan into the contact form and bring it into view
+  const handlePlanClick = useCallback((planId: PlanId) => {
+    track('cta_click', { cta: 'pricing_plan', planId });
+    selectPlan(planId);
+    document.getElementById(CONTACT_SECTION_ID)?.scrollIntoView({ behavior: 'smooth' });
+  }, [selectPlan]);
 
   return (
-    <section className="relative py-16 px-6 bg-gray-50 overflow-hidden">
-      {/* Parallax Background Elements */}
-      <ParallaxBackground speed={0.1} direction="up" className="opacity-20">
-        <div className="absolute top-32 left-16 w-28 h-28 bg-[#55A05E] opacity-10 rounded-full blur-xl" />
-        <div className="absolute bottom-24 right-12 w-36 h-36 bg-[#2C6145] opacity-10 rounded-lg blur-xl" />
-      </ParallaxBackground>
-
-      {/* Floating decorative elements */}
-      <FloatingElement
-        className="top-1/5 left-1/12 w-4 h-4 bg-[#55A05E] opacity-25 rounded-full"
-        speed={0.3}
-        direction="up"
-      />
-      <FloatingElement
-        className="top-4/5 right-1/12 w-5 h-5 bg-[#2C6145] opacity-20 rounded-lg"
-        speed={0.25}
-        direction="down"
-      />
-
-      <div className="relative z-10 max-w-7xl mx-auto">
-        {/* Section Header */}
-        <motion.div
-          initial="hidden"
-          whileInView="visible"
-          variants={animations.fadeInUp}
-          viewport={{ once: true }}
-          className="text-center mb-12"
-        >
-          <h2 className="font-section-title text-[#2C6145] mb-4 text-balance">
-            Elige el plan que se ajuste a tu clínica
-          </h2>
-          <p className="font-subtitle text-gray-600 max-w-2xl mx-auto text-balance">
-            Planes flexibles diseñados para clínicas de todos los tamaños. 
-            Comienza gratis y escala según tus necesidades.
-          </p>
-        </motion.div>
-
-        {/* Pricing Cards Grid with Staggered Animation */}
-        <motion.div
-          ref={staggerRef}
-          initial="hidden"
-          whileInView="visible"
-          variants={animations.stagger}
-          viewport={{ once: true }}
-          className="grid grid-responsive-3 space-responsive max-w-6xl mx-auto"
-        >
-          {pricingPlans.map((plan, index) => (
-            <motion.div
-              key={plan.id}
-              variants={animations.fadeInUp}
-              className={`relative transition-opacity duration-500 ${
-                visibleItems.has(index) ? 'opacity-100' : 'opacity-0'
-              }`}
+    <>
+      <section ref={sectionRef} className="relative py-16 px-6 bg-gray-50 overflow-hidden">
+        {/* Parallax Background Elements */}
+        <ParallaxBackground speed={0.1} direction="up" className="opacity-20">
+          <div className="absolute top-32 left-16 w-28 h-28 bg-[#55A05E] opacity-10 rounded-full blur-xl" />
+          <div className="absolute bottom-24 right-12 w-36 h-36 bg-[#2C6145] opacity-10 rounded-lg blur-xl" />
+        </ParallaxBackground>
+
+        {/* Floating decorative elements */}
+        <FloatingElement
+          className="top-1/5 left-1/12 w-4 h-4 bg-[#55A05E] opacity-25 rounded-full"
+          speed={0.3}
+          direction="up"
+        />
+        <FloatingElement
+          className="top-4/5 right-1/12 w-5 h-5 bg-[#2C6145] opacity-20 rounded-lg"
+          speed={0.25}
+          direction="down"
+        />
+
+        <div className="relative z-10 max-w-7xl mx-auto">
+          {/* Section Header */}
+          <motion.div
+            initial="hidden"
+            whileInView="visible"
+            variants={animations.fadeInUp}
+            viewport={{ once: true }}
+            className="text-center mb-12"
+          >
+            <h2 className="font-section-title text-[#2C6145] mb-4 text-balance">
+              {copy.title}
+            </h2>
+            <p className="font-subtitle text-gray-600 max-w-2xl mx-auto text-balance">
+              {copy.subtitle}
+            </p>
+
+            {/* Billing Period Toggle */}
+            <div
+              role="radiogroup"
+              aria-label={copy.billingPeriod}
+              className="inline-flex items-center gap-1 mt-8 p-1 bg-white border border-gray-200 rounded-full shadow-sm"
             >
-              {/* Popular Badge */}
-              {plan.isPopular && (
-                <div className="absolute -top-4 left-1/2 transform -translate-x-1/2 z-10">
-                  <div className="bg-[#55A05E] text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-1">
-                    <Star className="w-4 h-4 fill-current" />
-                    Más Popular
-                  </div>
-                </div>
-              )}
+              {billingPeriods.map((period) => (
+                <button
+                  key={period}
+                  type="button"
+                  role="radio"
+                  aria-checked={billingPeriod === period}
+                  onClick={() => setBillingPeriod(period)}
+                  className={cn(
+                    'flex items-center gap-2 px-5 py-2 rounded-full text-sm font-medium transition-colors duration-200 min-h-[44px]',
+                    billingPeriod === period
+                      ? 'bg-[#2C6145] text-white'
+                      : 'text-gray-600 hover:text-[#2C6145]'
+                  )}
+                >
+                  {copy[period]}
+                  {period === 'annual' && discountPercent > 0 && (
+                    <span
+                      className={cn(
+                        'px-2 py-0.5 rounded-full text-xs',
+                        billingPeriod === 'annual' ? 'bg-[#55A05E] text-white' : 'bg-[#55A05E]/10 text-[#2C6145]'
+                      )}
+                    >
+                      -{discountPercent}%
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
 
+            {/* Display Currency */}
+            <div className="flex items-center justify-center gap-2 mt-4">
+              <label htmlFor="pricing-currency" className="text-sm text-gray-600">
+                {copy.currency}
+              </label>
+              <select
+                id="pricing-currency"
+                value={currency}
+                onChange={(event) => isCurrencyCode(event.target.value) && setCurrency(event.target.value)}
+                className="px-3 py-2 min-h-[44px] bg-white border border-gray-200 rounded-lg text-sm text-[#2C6145] focus:outline-none focus:ring-2 focus:ring-[#55A05E]"
+              >
+                {CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {messages.currencies[code]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </motion.div>
+
+          {/* Pricing Cards Grid with Staggered Animation */}
+          <motion.div
+            ref={staggerRef}
+            initial="hidden"
+            whileInView="visible"
+            variants={animations.stagger}
+            viewport={{ once: true }}
+            className="grid grid-responsive-3 space-responsive max-w-6xl mx-auto"
+          >
+            {pricingPlans.map((plan, index) => (
               <motion.div
-                whileHover={plan.isPopular ? { y: -5, transition: { duration: 0.2 } } : { y: -2 }}
-                className="h-full"
+                key={plan.id}
+                variants={animations.fadeInUp}
+                className={`relative transition-opacity duration-500 ${
+                  visibleItems.has(index) ? 'opacity-100' : 'opacity-0'
+                }`}
               >
-                <Card 
-                  className={`h-full relative ${
-                    plan.isPopular 
-                      ? 'border-2 border-[#55A05E] shadow-lg scale-105' 
-                      : 'border border-gray-200'
-                  }`}
-                  animated
+                {/* Popular Badge */}
+                {plan.popular && (
+                  <div className="absolute -top-4 left-1/2 transform -translate-x-1/2 z-10">
+                    <div className="bg-[#55A05E] text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-1">
+                      <Star className="w-4 h-4 fill-current" />
+                      {copy.popular}
+                    </div>
+                  </div>
+                )}
+
+                <motion.div
+                  whileHover={plan.popular ? { y: -5, transition: { duration: 0.2 } } : { y: -2 }}
+                  className="h-full"
                 >
-                {/* Plan Header */}
-                <div className="text-center mb-6">
-                  <h3 className="font-card-title text-[#2C6145] mb-2 text-balance">
-                    {plan.name}
-                  </h3>
-                  <p className="font-body text-gray-600 mb-4 text-balance">
-                    {plan.description}
-                  </p>
-                  
-                  {/* Price */}
-                  <div className="mb-4">
-                    <span className="text-3xl font-bold text-[#2C6145]">
-                      {plan.price}
-                    </span>
-                    {plan.period && (
-                      <span className="text-gray-500 text-sm">
-                        {plan.period}
-                      </span>
+                  <Card 
+                    className={`h-full relative ${
+                      plan.popular 
+                        ? 'border-2 border-[#55A05E] shadow-lg scale-105' 
+                        : 'border border-gray-200'
+                    }`}
+                    animated
+                  >
+                  {/* Plan Header */}
+                  <div className="text-center mb-6">
+                    <h3 className="font-card-title text-[#2C6145] mb-2 text-balance">
+                      {plan.name}
+                    </h3>
+                    <p className="font-body text-gray-600 mb-4 text-balance">
+                      {plan.description}
+                    </p>
+                    
+                    {/* Price */}
+                    {isFreePlan(plan) ? (
+                      <div className="mb-4">
+                        <span className="text-3xl font-bold text-[#2C6145]">{copy.free}</span>
+                      </div>
+                    ) : (
+                      <PlanPriceLabel
+                        monthlyPrice={plan.monthlyPrice}
+                        billingPeriod={billingPeriod}
+                        annualDiscount={annualDiscount}
+                        currency={currency}
+                      />
                     )}
                   </div>
-                </div>
-
-                {/* Features List */}
-                <div className="mb-8">
-                  <ul className="space-y-3">
-                    {plan.features.map((feature, featureIndex) => (
-                      <li key={featureIndex} className="flex items-start gap-3">
-                        <Check className="w-5 h-5 text-[#55A05E] flex-shrink-0 mt-0.5" />
-                        <span className="text-gray-700 text-sm">
-                          {feature}
-                        </span>
-                      </li>
-                    ))}
-                  </ul>
-
-                  {/* Limitations (for basic plan) */}
-                  {plan.limitations && (
-                    <div className="mt-4 pt-4 border-t border-gray-100">
-                      <p className="text-xs text-gray-500 mb-2">No incluye:</p>
-                      <ul className="space-y-1">
-                        {plan.limitations.map((limitation, limitIndex) => (
-                          <li key={limitIndex} className="text-xs text-gray-400">
-                            • {limitation}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-                </div>
-
-                  {/* CTA Button */}
-                  <div className="mt-auto">
-                    <motion.div whileHover={{ scale: 1.05, transition: { duration: 0.2 } }} whileTap={{ scale: 0.95 }}>
-                      <Button
-                        variant={plan.isPopular ? 'primary' : 'outline'}
-                        size="lg"
-                        className="w-full"
-                      >
-                        {plan.id === 'basico' ? 'Comenzar Gratis' : 'Solicitar Demo'}
-                      </Button>
-                    </motion.div>
+
+                  {/* Features List */}
+                  <div className="mb-8">
+                    <ul className="space-y-3">
+                      {getPlanHighlights(plan, locale).map((feature, featureIndex) => (
+                        <li key={featureIndex} className="flex items-start gap-3">
+                          <Check className="w-5 h-5 text-[#55A05E] flex-shrink-0 mt-0.5" />
+                          <span className="text-gray-700 text-sm">
+                            {feature}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+
+                    {/* Limitations (for basic plan) */}
+                    {plan.limitations && (
+                      <div className="mt-4 pt-4 border-t border-gray-100">
+                        <p className="text-xs text-gray-500 mb-2">{copy.notIncluded}</p>
+                        <ul className="space-y-1">
+                          {plan.limitations.map((limitation, limitIndex) => (
+                            <li key={limitIndex} className="text-xs text-gray-400">
+                              • {limitation}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
-                </Card>
+
+                    {/* CTA Button */}
+                    <div className="mt-auto">
+                      <motion.div whileHover={{ scale: 1.05, transition: { duration: 0.2 } }} whileTap={{ scale: 0.95 }}>
+                        <Button
+                          variant={plan.popular ? 'primary' : 'outline'}
+                          size="lg"
+                          className="w-full"
+                          onClick={() => handlePlanClick(plan.id)}
+                        >
+                          {plan.ctaLabel}
+                        </Button>
+                      </motion.div>
+                    </div>
+                  </Card>
+                </motion.div>
               </motion.div>
-            </motion.div>
-          ))}
-        </motion.div>
-
-        {/* Additional Info */}
-        <motion.div
-          initial="hidden"
-          whileInView="visible"
-          variants={animations.fadeIn}
-          viewport={{ once: true }}
-          className="text-center mt-12"
-        >
-          <p className="text-gray-600 text-sm">
-            Todos los planes incluyen actualizaciones gratuitas y migración de datos sin costo. 
-            <br />
-            Puedes cambiar de plan en cualquier momento.
-          </p>
-        </motion.div>
+            ))}
+          </motion.div>
+
+          {/* Additional Info */}
+          <motion.div
+            initial="hidden"
+            whileInView="visible"
+            variants={animations.fadeIn}
+            viewport={{ once: true }}
+            className="text-center mt-12"
+          >
+            <p className="text-gray-600 text-sm">
+              {copy.footnote}
+              <br />
+              {copy.footnoteChange}
+            </p>
+            {currency !== BILLING_CURRENCY && (
+              <p className="text-gray-500 text-xs mt-2">
+                {t('pricing.currencyNote', { currency: messages.currencies[currency] })}
+              </p>
+            )}
+          </motion.div>
+        </div>
+      </section>
+
+      {/* Comparison matrix lives outside the clipped section so its header can stick */}
+      <div className="px-6 pb-16 bg-gray-50">
+        <PlanComparison className="max-w-6xl mx-auto" />
       </div>
-    </section>
+    </>
+  );
+};
+
+interface PlanPriceLabelProps {
+  monthlyPrice: number;
+  billingPeriod: BillingPeriod;
+  annualDiscount: number;
+  currency: CurrencyCode;
+}
+
+/**
+ * Price for the selected billing period, with the monthly equivalent and
+ * savings shown for annual billing. Amounts are computed in CLP, then converted
+ */
+const PlanPriceLabel: React.FC<PlanPriceLabelProps> = ({ monthlyPrice, billingPeriod, annualDiscount, currency }) => {
+  const price = getPlanPrice(monthlyPrice, billingPeriod, annualDiscount);
+  const { messages, t } = useTranslations();
+
+  return (
+    <div className="mb-4" aria-live="polite">
+      <AnimatedPrice value={formatPrice(price.total, currency)} className="text-3xl font-bold text-[#2C6145]" />
+      <span className="text-gray-500 text-sm">
+        {billingPeriod === 'annual' ? messages.pricing.perYear : messages.pricing.perMonth}
+      </span>
+      {billingPeriod === 'annual' && (
+        <p className="text-xs text-gray-500 mt-1">
+          {t('pricing.monthlyEquivalent', { price: formatPrice(price.monthlyEquivalent, currency) })}
+          {price.savings > 0 && (
+            <span className="text-[#55A05E] font-medium"> · {t('pricing.savings', { amount: formatPrice(price.savings, currency) })}</span>
+          )}
+        </p>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,60 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+let mockIsMobile = false;
+
+jest.mock('../../../hooks/useResponsive', () => ({
+  useResponsive: () => ({ isMobile: mockIsMobile }),
+}));
+
+jest.mock('framer-motion', () => {
+  const motionProps = new Set(['initial', 'animate', 'exit', 'transition']);
+
+  return {
+    motion: {
+      div: ({ children, ...props }: React.PropsWithChildren<Record<string, unknown>>) => (
+        <div {...Object.fromEntries(Object.entries(props).filter(([key]) => !motionProps.has(key)))}>{children}</div>
+      ),
+    },
+    AnimatePresence: ({ children }: React.PropsWithChildren) => <>{children}</>,
+  };
+});
+
+import { PlanComparison } from '../PlanComparison';
+
+describe('PlanComparison', () => {
+  it('renders a table with a column per plan on desktop', () => {
+    mockIsMobile = false;
+    render(<PlanComparison />);
+
+    const table = screen.getByRole('table');
+    const headerRow = within(table).getAllByRole('row')[0];
+    expect(within(headerRow).getAllByRole('columnheader').map((header) => header.textContent)).toEqual([
+      'Funcionalidad',
+      'Plan Básico',
+      'Plan Pro',
+      'Plan Premium',
+    ]);
+
+    const invoicingRow = within(table).getByRole('row', { name: /Facturación electrónica/ });
+    expect(within(invoicingRow).getAllByText('No incluido')).toHaveLength(2);
+    expect(within(invoicingRow).getByText('Incluido')).toBeInTheDocument();
+  });
+
+  it('renders a collapsible accordion per plan on mobile', () => {
+    mockIsMobile = true;
+    render(<PlanComparison />);
+
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+
+    const toggle = screen.getByRole('button', { name: 'Plan Premium' });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+
+    fireEvent.click(toggle);
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByText('Facturación electrónica (SII)')).toBeInTheDocument();
+    expect(screen.getByText('24/7')).toBeInTheDocument();
+  });
+});
@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 
 // Mock all dependencies
@@ -7,12 +7,16 @@ jest.mock('framer-motion', () => ({
   motion: {
     div: ({ children, ...props }: React.PropsWithChildren<Record<string, unknown>>) => <div {...props}>{children}</div>,
     section: ({ children, ...props }: React.PropsWithChildren<Record<string, unknown>>) => <section {...props}>{children}</section>,
+    span: ({ children, ...props }: React.PropsWithChildren<Record<string, unknown>>) => <span {...props}>{children}</span>,
   },
+  AnimatePresence: ({ children }: React.PropsWithChildren) => <>{children}</>,
 }));
 
 jest.mock('lucide-react', () => ({
   Check: () => <div data-testid="check-icon">✓</div>,
   Star: () => <div data-testid="star-icon">★</div>,
+  X: () => <div data-testid="x-icon">✕</div>,
+  ChevronDown: () => <div data-testid="chevron-icon" />,
 }));
 
 jest.mock('../../../components/ui/Card', () => ({
@@ -34,44 +38,28 @@ jest.mock('../../../components/ui/Button', () => ({
   ),
 }));
 
+// The comparison matrix repeats plan names and features; it has its own tests
+jest.mock('../PlanComparison', () => ({
+  PlanComparison: function PlanComparison() {
+    return null;
+  },
+}));
+
+// ParallaxBackground checks for reduced motion
+Object.defineProperty(window, 'matchMedia', {
+  writable: true,
+  value: jest.fn().mockImplementation((query: string) => ({
+    matches: false,
+    media: query,
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+    addListener: jest.fn(),
+    removeListener: jest.fn(),
+  })),
+});
+
 // Import after mocks
 import { Pricing } from '../Pricing';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { it } from 'zod/locales';
-import { it } from 'zod/locales';
-import { describe } from 'node:test';
-import { beforeEach } from 'node:test';
-import { describe } from 'node:test';
 
 describe('Pricing Component', () => {
   beforeEach(() => {
@@ -135,9 +123,11 @@ describe('Pricing Component', () => {
     });
 
     it('shows pro plan features correctly', () => {
-      expect(screen.getByText('Hasta 5 usuarios')).toBeInTheDocument();
-      expect(screen.getByText('Pacientes ilimitados')).toBeInTheDocument();
-      expect(screen.getByText('Control de inventario completo')).toBeInTheDocument();
+      // Premium also lists unlimited patients, so look inside the Pro card
+      const proCard = within(screen.getByRole('heading', { level: 3, name: 'Plan Pro' }).closest('.h-full.relative') as HTMLElement);
+      expect(proCard.getByText('Hasta 5 usuarios')).toBeInTheDocument();
+      expect(proCard.getByText('Pacientes ilimitados')).toBeInTheDocument();
+      expect(proCard.getByText('Control de inventario completo')).toBeInTheDocument();
     });
 
     it('shows premium plan features correctly', () => {
@@ -197,7 +187,7 @@ describe('Pricing Component', () => {
   describe('Responsive Layout', () => {
     it('applies correct grid classes for responsive design', () => {
       const gridContainer = screen.getByText('Plan Básico').closest('.grid');
-      expect(gridContainer).toHaveClass('grid-cols-1', 'md:grid-cols-2', 'lg:grid-cols-3');
+      expect(gridContainer).toHaveClass('grid-responsive-3');
     });
 
     it('has proper spacing and container classes', () => {
@@ -224,6 +214,25 @@ describe('Pricing Component', () => {
     });
   });
 
+  describe('Display Currency', () => {
+    afterEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('shows reference prices in the selected currency', () => {
+      fireEvent.change(screen.getByLabelText('Moneda'), { target: { value: 'USD' } });
+
+      expect(screen.getByText('$32')).toBeInTheDocument();
+      expect(screen.getByText('$53')).toBeInTheDocument();
+      expect(screen.getByText(/La facturación se realiza en pesos chilenos/)).toBeInTheDocument();
+    });
+
+    it('bills in CLP by default without the reference note', () => {
+      expect(screen.getByLabelText('Moneda')).toHaveValue('CLP');
+      expect(screen.queryByText(/Precios referenciales/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('Visual Design Elements', () => {
     it('applies correct color scheme classes', () => {
       const title = screen.getByText('Elige el plan que se ajuste a tu clínica');
@@ -0,0 +1,14 @@
+import { serializeJsonLd, type JsonLdGraph } from '@/lib/structuredData';
+
+interface JsonLdProps {
+  data: JsonLdGraph;
+}
+
+/**
+ * Structured data script, rendered on the server
+ */
+export function JsonLd({ data }: JsonLdProps) {
+  return <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }} />;
+}
+
+export default JsonLd;
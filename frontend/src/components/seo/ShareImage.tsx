@@ -0,0 +1,78 @@
+import { ImageResponse } from 'next/og';
+import { colors } from '@/lib/constants';
+import { siteConfig } from '@/lib/siteConfig';
+import type { ShareCard } from '@/lib/shareCards';
+
+// Recommended size for OpenGraph and summary_large_image cards
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 };
+
+export const SHARE_IMAGE_CONTENT_TYPE = 'image/png';
+
+interface ShareImageProps {
+  card: ShareCard;
+}
+
+/**
+ * Branded share card; only the inline styles supported by next/og (flexbox, no classes)
+ */
+export function ShareImage({ card }: ShareImageProps) {
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: '72px 80px',
+        color: colors.primary.main,
+        backgroundColor: colors.background.primary,
+        // Brand gradient along the top edge, like the Hero title
+        borderTop: `16px solid ${colors.primary.accent}`,
+        backgroundImage: `linear-gradient(135deg, ${colors.background.primary} 0%, ${colors.background.primary} 60%, ${colors.background.secondary} 100%)`,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 20 }}>
+        <div
+          style={{
+            width: 64,
+            height: 64,
+            borderRadius: 16,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: colors.background.primary,
+            backgroundImage: `linear-gradient(135deg, ${colors.primary.main}, ${colors.primary.accent})`,
+            fontSize: 36,
+            fontWeight: 700,
+          }}
+        >
+          P
+        </div>
+        <div style={{ fontSize: 32, fontWeight: 600 }}>{card.eyebrow}</div>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+        <div style={{ display: 'flex', flexWrap: 'wrap', fontSize: 68, fontWeight: 700, lineHeight: 1.1 }}>
+          <span>{card.title}</span>
+          {card.highlight && <span style={{ marginLeft: 20, color: colors.primary.accent }}>{card.highlight}</span>}
+        </div>
+        {card.description && (
+          <div style={{ fontSize: 30, lineHeight: 1.4, color: colors.text.secondary, maxWidth: 960 }}>{card.description}</div>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 16, fontSize: 26, color: colors.text.secondary }}>
+        <div style={{ width: 48, height: 6, borderRadius: 3, backgroundColor: colors.primary.accent }} />
+        {new URL(siteConfig.url).host}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * PNG response for an opengraph-image or twitter-image route
+ */
+export function renderShareImage(card: ShareCard): ImageResponse {
+  return new ImageResponse(<ShareImage card={card} />, SHARE_IMAGE_SIZE);
+}
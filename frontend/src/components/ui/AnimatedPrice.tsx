@@ -0,0 +1,42 @@
+'use client';
+
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { useReducedMotion } from '@/hooks/useResponsive';
+
+interface AnimatedPriceProps {
+  value: string;
+  className?: string;
+}
+
+/**
+ * Price label that slides between values when it changes
+ * Swaps instantly when the user prefers reduced motion
+ */
+export const AnimatedPrice: React.FC<AnimatedPriceProps> = ({ value, className }) => {
+  const prefersReducedMotion = useReducedMotion();
+
+  if (prefersReducedMotion) {
+    return <span className={cn('inline-block', className)}>{value}</span>;
+  }
+
+  return (
+    <div className="relative inline-flex overflow-hidden align-bottom">
+      <AnimatePresence mode="popLayout" initial={false}>
+        <motion.div
+          key={value}
+          className={cn('inline-block', className)}
+          initial={{ y: '100%', opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: '-100%', opacity: 0 }}
+          transition={{ duration: 0.3, ease: [0.4, 0, 0.2, 1] }}
+        >
+          {value}
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default AnimatedPrice;
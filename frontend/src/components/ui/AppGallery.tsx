@@ -3,81 +3,38 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X } from 'lucide-react';
+import { useTranslations } from '@/hooks/useTranslations';
+import { useContent } from '@/hooks/useContent';
+import { useSectionView } from '@/hooks/useSectionView';
+import { track } from '@/lib/analytics';
 
-// Datos de ejemplo de las imágenes de la aplicación
-const appImages = [
-  {
-    id: 1,
-    src: '/assets/screenshots/dashboard.jpg',
-    alt: 'Dashboard Principal',
-    title: 'Dashboard Principal',
-    description: 'Vista general del panel de control con métricas en tiempo real, próximas citas y resumen de actividades diarias. Permite acceso rápido a todas las funcionalidades principales.',
-    features: ['Métricas en tiempo real', 'Próximas citas', 'Resumen de ingresos', 'Accesos rápidos'],
-    gridClass: 'col-span-2 row-span-2'
-  },
-  {
-    id: 2,
-    src: '/assets/screenshots/calendar.jpg',
-    alt: 'Calendario de Citas',
-    title: 'Calendario de Citas',
-    description: 'Sistema de agenda interactivo con vista mensual, semanal y diaria. Permite gestionar citas, ver disponibilidad y configurar recordatorios automáticos.',
-    features: ['Vista múltiple', 'Drag & drop', 'Recordatorios automáticos', 'Sincronización'],
-    gridClass: 'col-span-1 row-span-1'
-  },
-  {
-    id: 3,
-    src: '/assets/screenshots/patient-profile.jpg',
-    alt: 'Perfil de Paciente',
-    title: 'Ficha del Paciente',
-    description: 'Historial médico completo con fotos de tratamientos, notas de evolución y documentos adjuntos. Interfaz intuitiva para el seguimiento detallado.',
-    features: ['Historial completo', 'Fotos antes/después', 'Notas de evolución', 'Documentos'],
-    gridClass: 'col-span-1 row-span-2'
-  },
-  {
-    id: 4,
-    src: '/assets/screenshots/inventory.jpg',
-    alt: 'Control de Inventario',
-    title: 'Gestión de Inventario',
-    description: 'Control de stock con alertas automáticas, gestión de proveedores y reportes de rotación. Mantén tu inventario siempre actualizado.',
-    features: ['Control de stock', 'Alertas automáticas', 'Gestión de proveedores', 'Reportes'],
-    gridClass: 'col-span-1 row-span-1'
-  },
-  {
-    id: 5,
-    src: '/assets/screenshots/dashboard-alerts.jpg',
-    alt: 'Dashboard y Alertas',
-    title: 'Dashboard y Alertas',
-    description: 'Panel de control con alertas de insumos que se están agotando y visualización de citas del día en curso.',
-    features: ['Alertas de stock', 'Citas del día', 'Resumen diario', 'Reportes básicos'],
-    gridClass: 'col-span-2 row-span-1'
-  },
-  {
-    id: 6,
-    src: '/assets/screenshots/email-notifications.jpg',
-    alt: 'Recordatorios por Email',
-    title: 'Recordatorios Automáticos',
-    description: 'Sistema de notificaciones por email con recordatorios automáticos y plantillas personalizables para mantener informados a tus pacientes.',
-    features: ['Email automático', 'Plantillas personalizables', 'Horarios configurables', 'Historial de envíos'],
-    gridClass: 'col-span-1 row-span-1'
-  },
-  {
-    id: 7,
-    src: '/assets/screenshots/booking-system.jpg',
-    alt: 'Sistema de Reservas',
-    title: 'Reserva de Horas Online',
-    description: 'Permite a tus pacientes reservar citas online para servicios de podología y manicura. Sistema intuitivo con selección de especialidad, fecha y hora disponible.',
-    features: ['Reservas 24/7', 'Selección de especialidad', 'Calendario en tiempo real', 'Confirmación automática'],
-    gridClass: 'col-span-1 row-span-1'
-  }
+// Bento grid cells by position; screenshots come from content/<locale>/gallery.json
+const bentoLayout = [
+  'col-span-2 row-span-2',
+  'col-span-1 row-span-1',
+  'col-span-1 row-span-2',
+  'col-span-1 row-span-1',
+  'col-span-2 row-span-1',
+  'col-span-1 row-span-1',
+  'col-span-1 row-span-1',
 ];
 
 interface AppGalleryProps {}
 
 export function AppGallery({}: AppGalleryProps) {
-  const [selectedImage, setSelectedImage] = useState<typeof appImages[0] | null>(null);
-  const [hoveredImage, setHoveredImage] = useState<number | null>(null);
+  const { messages, t } = useTranslations();
+  const copy = messages.gallery;
+  const appImages = useContent().gallery.map((item, index) => ({
+    ...item,
+    gridClass: bentoLayout[index % bentoLayout.length],
+  }));
 
-  const openModal = (image: typeof appImages[0]) => {
+  const [selectedImage, setSelectedImage] = useState<(typeof appImages)[number] | null>(null);
+  const [hoveredImage, setHoveredImage] = useState<string | null>(null);
+  const galleryRef = useSectionView('gallery');
+
+  const openModal = (image: (typeof appImages)[number]) => {
+    track('gallery_open', { imageId: image.id });
     setSelectedImage(image);
     document.body.style.overflow = 'hidden';
   };
@@ -90,7 +47,7 @@ export function AppGallery({}: AppGalleryProps) {
   return (
     <>
       {/* Bento Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-3 max-w-5xl mx-auto">
+      <div ref={galleryRef} className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-3 max-w-5xl mx-auto">
         {appImages.map((image) => (
           <motion.div
             key={image.id}
@@ -137,7 +94,7 @@ export function AppGallery({}: AppGalleryProps) {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
                     </svg>
                   </div>
-                  <p className="text-sm font-medium">Ver detalles</p>
+                  <p className="text-sm font-medium">{copy.viewDetails}</p>
                 </motion.div>
               </div>
             </motion.div>
@@ -175,7 +132,7 @@ export function AppGallery({}: AppGalleryProps) {
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                         </svg>
                       </div>
-                      <p className="text-lg font-medium opacity-90">Vista previa de {selectedImage.title}</p>
+                      <p className="text-lg font-medium opacity-90">{t('gallery.previewOf', { title: selectedImage.title })}</p>
                     </div>
                   </div>
                 </div>
@@ -193,11 +150,12 @@ export function AppGallery({}: AppGalleryProps) {
                         </div>
                         <div>
                           <h3 className="font-semibold text-[#2C6145]">{selectedImage.title}</h3>
-                          <p className="text-sm text-gray-500">Podoclinic App</p>
+                          <p className="text-sm text-gray-500">{copy.appName}</p>
                         </div>
                       </div>
                       <button
                         onClick={closeModal}
+                        aria-label={copy.close}
                         className="p-2 hover:bg-gray-100 rounded-full transition-colors"
                       >
                         <X className="w-5 h-5 text-gray-500" />
@@ -210,13 +168,13 @@ export function AppGallery({}: AppGalleryProps) {
                     <div className="space-y-6">
                       {/* Description */}
                       <div>
-                        <h4 className="font-semibold text-[#2C6145] mb-2">Descripción</h4>
+                        <h4 className="font-semibold text-[#2C6145] mb-2">{copy.description}</h4>
                         <p className="text-[#495057] leading-relaxed">{selectedImage.description}</p>
                       </div>
 
                       {/* Features */}
                       <div>
-                        <h4 className="font-semibold text-[#2C6145] mb-3">Características principales</h4>
+                        <h4 className="font-semibold text-[#2C6145] mb-3">{copy.mainFeatures}</h4>
                         <div className="space-y-2">
                           {selectedImage.features.map((feature, index) => (
                             <div key={index} className="flex items-center space-x-2">
@@ -229,7 +187,7 @@ export function AppGallery({}: AppGalleryProps) {
 
                       {/* Tags */}
                       <div>
-                        <h4 className="font-semibold text-[#2C6145] mb-3">Funcionalidad</h4>
+                        <h4 className="font-semibold text-[#2C6145] mb-3">{copy.functionality}</h4>
                         <div className="flex flex-wrap gap-2">
                           {selectedImage.features.slice(0, 3).map((feature, index) => (
                             <span
@@ -248,7 +206,7 @@ export function AppGallery({}: AppGalleryProps) {
                   <div className="p-6 border-t border-gray-100 flex-shrink-0">
                     <div className="flex items-center justify-between text-sm text-gray-500">
                       <span>Podoclinic © 2024</span>
-                      <span>Gestión Integral</span>
+                      <span>{copy.footerTagline}</span>
                     </div>
                   </div>
                 </div>
@@ -3,13 +3,16 @@
 import React, { forwardRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { useTranslations } from '@/hooks/useTranslations';
 import type { InputProps } from '@/types';
 
+type FieldElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
 /**
  * Reusable Input component with validation states and accessibility features
- * Supports text, email, and tel input types with proper validation
+ * Supports text, email and tel inputs plus select and textarea variants
  */
-export const Input = forwardRef<HTMLInputElement, InputProps>(({
+export const Input = forwardRef<FieldElement, InputProps>(({
   label,
   type = 'text',
   name,
@@ -19,8 +22,12 @@ export const Input = forwardRef<HTMLInputElement, InputProps>(({
   error,
   placeholder,
   className,
+  options = [],
+  rows = 4,
   ...props
 }, ref) => {
+  const { messages } = useTranslations();
+
   // Generate unique IDs for accessibility
   const inputId = `input-${name}`;
   const errorId = `error-${name}`;
@@ -49,10 +56,27 @@ export const Input = forwardRef<HTMLInputElement, InputProps>(({
   const currentState = error ? 'error' : 'default';
 
   // Handle input change
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleChange = (e: React.ChangeEvent<FieldElement>) => {
     onChange(e.target.value);
   };
 
+  // Attributes shared by every field variant
+  const fieldProps = {
+    id: inputId,
+    name,
+    value,
+    onChange: handleChange,
+    required,
+    'aria-labelledby': labelId,
+    'aria-describedby': error ? errorId : undefined,
+    'aria-invalid': error ? 'true' as const : 'false' as const,
+    className: cn(
+      baseInputStyles,
+      stateStyles[currentState]
+    ),
+    ...props,
+  };
+
   // Animation variants for error message
   const errorVariants = {
     initial: { opacity: 0, y: -10, height: 0 },
@@ -77,24 +101,37 @@ export const Input = forwardRef<HTMLInputElement, InputProps>(({
       </label>
 
       {/* Input Field */}
-      <input
-        ref={ref}
-        id={inputId}
-        name={name}
-        type={type}
-        value={value}
-        onChange={handleChange}
-        placeholder={placeholder}
-        required={required}
-        aria-labelledby={labelId}
-        aria-describedby={error ? errorId : undefined}
-        aria-invalid={error ? 'true' : 'false'}
-        className={cn(
-          baseInputStyles,
-          stateStyles[currentState]
-        )}
-        {...props}
-      />
+      {type === 'select' ? (
+        <select
+          ref={ref as React.Ref<HTMLSelectElement>}
+          {...fieldProps}
+          className={cn(fieldProps.className, 'bg-white', !value && 'text-gray-400')}
+        >
+          <option value="" disabled={required}>
+            {placeholder || messages.form.selectPlaceholder}
+          </option>
+          {options.map((option) => (
+            <option key={option.value} value={option.value} className="text-gray-900">
+              {option.label}
+            </option>
+          ))}
+        </select>
+      ) : type === 'textarea' ? (
+        <textarea
+          ref={ref as React.Ref<HTMLTextAreaElement>}
+          rows={rows}
+          placeholder={placeholder}
+          {...fieldProps}
+          className={cn(fieldProps.className, 'resize-y')}
+        />
+      ) : (
+        <input
+          ref={ref as React.Ref<HTMLInputElement>}
+          type={type}
+          placeholder={placeholder}
+          {...fieldProps}
+        />
+      )}
 
       {/* Error Message */}
       <AnimatePresence mode="wait">
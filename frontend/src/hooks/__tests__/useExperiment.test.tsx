@@ -0,0 +1,66 @@
+import React from 'react';
+import { renderHook } from '@testing-library/react';
+import { useExperiment } from '../useExperiment';
+import { useConsent } from '../useConsent';
+import { ExperimentProvider } from '../../components/providers/ExperimentProvider';
+import { ConsentContext, type ConsentContextValue } from '../../components/providers/ConsentProvider';
+import { createConsent } from '../../lib/consent';
+import { setAnalyticsClient, type AnalyticsClient } from '../../lib/analytics';
+import type { ExperimentAssignments } from '../../lib/experiments';
+
+const assignments: ExperimentAssignments = { heroHeadline: 'outcome', heroCta: 'control', pricingBadge: 'hidden' };
+
+function wrapper({ children }: { children: React.ReactNode }) {
+  return <ExperimentProvider assignments={assignments}>{children}</ExperimentProvider>;
+}
+
+describe('useExperiment', () => {
+  let client: { [K in keyof AnalyticsClient]: jest.Mock };
+
+  beforeEach(() => {
+    client = { track: jest.fn(() => true), flush: jest.fn(), setContext: jest.fn() };
+    setAnalyticsClient(client);
+  });
+
+  afterEach(() => {
+    setAnalyticsClient(null);
+  });
+
+  it('returns control outside the provider without recording an exposure', () => {
+    const { result } = renderHook(() => useExperiment('pricingBadge'));
+
+    expect(result.current).toBe('control');
+    expect(client.track).not.toHaveBeenCalled();
+  });
+
+  it('returns the assigned variant and records one exposure per experiment', () => {
+    const first = renderHook(() => useExperiment('heroHeadline'), { wrapper });
+    renderHook(() => useExperiment('heroHeadline'), { wrapper });
+    first.rerender();
+
+    expect(first.result.current).toBe('outcome');
+    expect(client.track).toHaveBeenCalledTimes(1);
+    expect(client.track).toHaveBeenCalledWith('experiment_exposure', { experiment: 'heroHeadline', variant: 'outcome' });
+    expect(client.setContext).toHaveBeenCalledWith({ experiments: assignments });
+  });
+
+  it('records the exposure once analytics consent is given if it was dropped before', () => {
+    const defaults = renderHook(() => useConsent()).result.current;
+    let consent: ConsentContextValue = defaults;
+    const consentWrapper = ({ children }: { children: React.ReactNode }) => (
+      <ConsentContext.Provider value={consent}>{wrapper({ children })}</ConsentContext.Provider>
+    );
+
+    client.track.mockReturnValueOnce(false);
+    const { rerender } = renderHook(() => useExperiment('heroCta'), { wrapper: consentWrapper });
+    rerender();
+    expect(client.track).toHaveBeenCalledTimes(1);
+
+    consent = { ...defaults, consent: createConsent({ analytics: true }) };
+    rerender();
+    rerender();
+
+    expect(client.track).toHaveBeenCalledTimes(2);
+    expect(client.track).toHaveBeenLastCalledWith('experiment_exposure', { experiment: 'heroCta', variant: 'control' });
+  });
+});
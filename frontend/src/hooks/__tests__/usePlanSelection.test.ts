@@ -0,0 +1,43 @@
+import { renderHook, act } from '@testing-library/react';
+import { usePlanSelection } from '../usePlanSelection';
+
+describe('usePlanSelection', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('reads the plan preselected in the URL', () => {
+    window.history.replaceState(null, '', '/?plan=premium#contact');
+
+    const { result } = renderHook(() => usePlanSelection());
+
+    expect(result.current.plan).toBe('premium');
+  });
+
+  it('shares selections between components through the URL', () => {
+    const pricing = renderHook(() => usePlanSelection());
+    const contact = renderHook(() => usePlanSelection());
+
+    act(() => pricing.result.current.selectPlan('pro'));
+
+    expect(contact.result.current.plan).toBe('pro');
+    expect(window.location.search).toBe('?plan=pro');
+    expect(window.location.hash).toBe('#contact');
+
+    act(() => contact.result.current.clearPlan());
+
+    expect(pricing.result.current.plan).toBeNull();
+    expect(window.location.search).toBe('');
+  });
+
+  it('follows hash changes', () => {
+    const { result } = renderHook(() => usePlanSelection());
+
+    act(() => {
+      window.history.replaceState(null, '', '/#contact?plan=basico');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    expect(result.current.plan).toBe('basico');
+  });
+});
@@ -0,0 +1,11 @@
+'use client';
+
+import { useContext } from 'react';
+import { ConsentContext, type ConsentContextValue } from '@/components/providers/ConsentProvider';
+
+/**
+ * Cookie consent for the current visitor and actions to change it
+ */
+export function useConsent(): ConsentContextValue {
+  return useContext(ConsentContext);
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useContext } from 'react';
+import { SiteContentContext } from '@/components/providers/SiteContentProvider';
+import { getContent, type SiteContent } from '@/lib/content';
+import { useTranslations } from './useTranslations';
+
+/**
+ * Section content for the active locale, including drafts while previewing
+ */
+export function useContent(): SiteContent {
+  const content = useContext(SiteContentContext);
+  const { locale } = useTranslations();
+
+  return content ?? getContent(locale);
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { BILLING_CURRENCY, isCurrencyCode } from '@/lib/currency';
+import type { CurrencyCode } from '@/types';
+
+const STORAGE_KEY = 'podoclinic:currency';
+
+// Announces same-tab changes; the storage event only fires in other tabs
+const CURRENCY_EVENT = 'podoclinic:currency';
+
+interface CurrencySelection {
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+}
+
+function readStoredCurrency(): CurrencyCode {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isCurrencyCode(stored) ? stored : BILLING_CURRENCY;
+  } catch {
+    return BILLING_CURRENCY;
+  }
+}
+
+/**
+ * Hook exposing the visitor's display currency, remembered in localStorage
+ * Starts in CLP so server and first client render match
+ */
+export function useCurrency(): CurrencySelection {
+  const [currency, setCurrencyState] = useState<CurrencyCode>(BILLING_CURRENCY);
+
+  useEffect(() => {
+    const sync = () => setCurrencyState(readStoredCurrency());
+
+    sync();
+    window.addEventListener(CURRENCY_EVENT, sync);
+    window.addEventListener('storage', sync);
+
+    return () => {
+      window.removeEventListener(CURRENCY_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const setCurrency = useCallback((next: CurrencyCode) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Storage unavailable (private mode): keep the choice for this page only
+      setCurrencyState(next);
+      return;
+    }
+    window.dispatchEvent(new Event(CURRENCY_EVENT));
+  }, []);
+
+  return { currency, setCurrency };
+}
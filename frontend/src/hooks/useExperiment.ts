@@ -0,0 +1,31 @@
+'use client';
+
+import { useContext, useEffect } from 'react';
+import { ExperimentContext } from '@/components/providers/ExperimentProvider';
+import { useConsent } from '@/hooks/useConsent';
+import { track } from '@/lib/analytics';
+import { EXPERIMENTS, type ExperimentId, type ExperimentVariant } from '@/lib/experiments';
+
+// One exposure event per experiment and page load, however many components read it
+const exposed = new Set<ExperimentId>();
+
+/**
+ * Variant of an experiment for the current visitor
+ * Records an `experiment_exposure` event the first time the variant is rendered,
+ * or once analytics consent is given if the event was dropped before that
+ */
+export function useExperiment<E extends ExperimentId>(experiment: E): ExperimentVariant<E> {
+  const assignments = useContext(ExperimentContext);
+  const variant = (assignments?.[experiment] ?? EXPERIMENTS[experiment].variants[0]) as ExperimentVariant<E>;
+  const { consent } = useConsent();
+
+  useEffect(() => {
+    if (assignments && EXPERIMENTS[experiment].active && !exposed.has(experiment)) {
+      if (track('experiment_exposure', { experiment, variant })) {
+        exposed.add(experiment);
+      }
+    }
+  }, [assignments, consent, experiment, variant]);
+
+  return variant;
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  PLAN_SELECTION_EVENT,
+  readPlanFromUrl,
+  setPlanInUrl,
+} from '@/lib/planSelection';
+import type { PlanId } from '@/types';
+
+interface PlanSelection {
+  plan: PlanId | null;
+  selectPlan: (plan: PlanId) => void;
+  clearPlan: () => void;
+}
+
+/**
+ * Hook exposing the plan preselected through the URL query/hash
+ * Stays in sync with back/forward navigation, hash changes and other components
+ */
+export function usePlanSelection(): PlanSelection {
+  const [plan, setPlan] = useState<PlanId | null>(null);
+
+  useEffect(() => {
+    const sync = () => setPlan(readPlanFromUrl(window.location));
+
+    sync();
+    window.addEventListener(PLAN_SELECTION_EVENT, sync);
+    window.addEventListener('popstate', sync);
+    window.addEventListener('hashchange', sync);
+
+    return () => {
+      window.removeEventListener(PLAN_SELECTION_EVENT, sync);
+      window.removeEventListener('popstate', sync);
+      window.removeEventListener('hashchange', sync);
+    };
+  }, []);
+
+  const selectPlan = useCallback((next: PlanId) => setPlanInUrl(next), []);
+  const clearPlan = useCallback(() => setPlanInUrl(null), []);
+
+  return { plan, selectPlan, clearPlan };
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useScrollAnimation } from './useScrollAnimation';
+import { track, type AnalyticsSection } from '@/lib/analytics';
+import { recordSectionView } from '@/lib/attribution';
+
+/**
+ * Sends a `section_view` event the first time the section is mostly on screen
+ * and adds the section to the session's lead attribution
+ * Attach the returned ref to the section's root element
+ */
+export function useSectionView(section: AnalyticsSection) {
+  const { ref, isInView } = useScrollAnimation({ threshold: 0.3, rootMargin: '0px', triggerOnce: true });
+
+  useEffect(() => {
+    if (isInView) {
+      track('section_view', { section });
+      recordSectionView(section);
+    }
+  }, [isInView, section]);
+
+  return ref;
+}
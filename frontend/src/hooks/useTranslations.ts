@@ -0,0 +1,19 @@
+'use client';
+
+import { useCallback, useContext } from 'react';
+import { I18nContext } from '@/components/providers/I18nProvider';
+import { translate } from '@/lib/i18n';
+
+/**
+ * Active locale, its catalog and a `t(key, values)` lookup helper
+ */
+export function useTranslations() {
+  const { locale, messages } = useContext(I18nContext);
+
+  const t = useCallback(
+    (key: string, values?: Record<string, string | number>) => translate(messages, key, values),
+    [messages]
+  );
+
+  return { locale, messages, t };
+}
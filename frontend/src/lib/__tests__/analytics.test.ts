@@ -0,0 +1,138 @@
+/**
+ * Tests for the analytics event schemas and browser queue
+ */
+
+import { CONSENT_COOKIE, createConsent, serializeConsent } from '../consent';
+import {
+  MAX_BATCH_SIZE,
+  analyticsBatchSchema,
+  createAnalyticsClient,
+  isAnalyticsAllowed,
+  type AnalyticsTransport,
+} from '../analytics';
+
+function sentEvents(transport: jest.Mock) {
+  return transport.mock.calls.map(([body]) => JSON.parse(body).events);
+}
+
+describe('analyticsBatchSchema', () => {
+  const event = {
+    name: 'cta_click',
+    properties: { cta: 'pricing_plan', planId: 'pro' },
+    path: '/es',
+    timestamp: '2025-09-01T12:00:00.000Z',
+  };
+
+  it('accepts known events', () => {
+    expect(analyticsBatchSchema.safeParse({ events: [event] }).success).toBe(true);
+  });
+
+  it('rejects unknown events and extra properties', () => {
+    expect(analyticsBatchSchema.safeParse({ events: [{ ...event, name: 'page_view' }] }).success).toBe(false);
+    expect(
+      analyticsBatchSchema.safeParse({ events: [{ ...event, properties: { cta: 'hero_demo', email: 'a@b.cl' } }] }).success
+    ).toBe(false);
+    expect(analyticsBatchSchema.safeParse({ events: [{ ...event, userId: 'abc' }] }).success).toBe(false);
+  });
+
+  it('only accepts exposures to registered variants', () => {
+    const exposure = { ...event, name: 'experiment_exposure', properties: { experiment: 'heroCta', variant: 'urgency' } };
+
+    expect(analyticsBatchSchema.safeParse({ events: [exposure] }).success).toBe(true);
+    expect(
+      analyticsBatchSchema.safeParse({ events: [{ ...exposure, properties: { experiment: 'heroCta', variant: 'premium' } }] })
+        .success
+    ).toBe(false);
+  });
+
+  it('limits the batch size', () => {
+    expect(analyticsBatchSchema.safeParse({ events: [] }).success).toBe(false);
+    expect(analyticsBatchSchema.safeParse({ events: Array(MAX_BATCH_SIZE + 1).fill(event) }).success).toBe(false);
+  });
+});
+
+describe('createAnalyticsClient', () => {
+  let transport: jest.Mock<ReturnType<AnalyticsTransport>, Parameters<AnalyticsTransport>>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transport = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends queued events together after the flush interval', () => {
+    const client = createAnalyticsClient({ transport, flushIntervalMs: 1000, isEnabled: () => true });
+
+    client.track('section_view', { section: 'hero' });
+    client.track('cta_click', { cta: 'hero_demo' });
+    expect(transport).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport.mock.calls[0][1]).toEqual({ beacon: false });
+    expect(sentEvents(transport)[0]).toEqual([
+      expect.objectContaining({ name: 'section_view', properties: { section: 'hero' }, path: '/' }),
+      expect.objectContaining({ name: 'cta_click', properties: { cta: 'hero_demo' } }),
+    ]);
+  });
+
+  it('flushes as soon as the batch is full', () => {
+    const client = createAnalyticsClient({ transport, batchSize: 2, isEnabled: () => true });
+
+    client.track('gallery_open', { imageId: 'agenda' });
+    client.track('gallery_open', { imageId: 'fichas' });
+
+    expect(sentEvents(transport)).toHaveLength(1);
+    expect(sentEvents(transport)[0]).toHaveLength(2);
+  });
+
+  it('uses a beacon when the page is hidden', () => {
+    const client = createAnalyticsClient({ transport, isEnabled: () => true });
+
+    client.track('feature_expand', { featureId: 'agenda', expanded: true });
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(transport).toHaveBeenCalledWith(expect.any(String), { beacon: true });
+    jest.runOnlyPendingTimers();
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('adds the context to every event', () => {
+    const client = createAnalyticsClient({ transport, isEnabled: () => true });
+
+    client.setContext({ experiments: { heroCta: 'urgency' } });
+    client.track('cta_click', { cta: 'hero_demo' });
+    client.flush();
+
+    expect(sentEvents(transport)[0][0]).toMatchObject({ experiments: { heroCta: 'urgency' } });
+  });
+
+  it('drops events while tracking is not allowed', () => {
+    const client = createAnalyticsClient({ transport, isEnabled: () => false });
+
+    expect(client.track('section_view', { section: 'pricing' })).toBe(false);
+    client.flush();
+
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
+
+describe('isAnalyticsAllowed', () => {
+  afterEach(() => {
+    document.cookie = `${CONSENT_COOKIE}=; path=/; max-age=0`;
+  });
+
+  it('requires analytics consent', () => {
+    expect(isAnalyticsAllowed()).toBe(false);
+
+    document.cookie = `${CONSENT_COOKIE}=${serializeConsent(createConsent({ analytics: true }))}; path=/`;
+    expect(isAnalyticsAllowed()).toBe(true);
+
+    document.cookie = `${CONSENT_COOKIE}=${serializeConsent(createConsent({ marketing: true }))}; path=/`;
+    expect(isAnalyticsAllowed()).toBe(false);
+  });
+});
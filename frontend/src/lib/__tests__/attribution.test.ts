@@ -0,0 +1,111 @@
+/**
+ * Tests for lead attribution capture
+ */
+
+import { CONSENT_COOKIE, createConsent, serializeConsent } from '../consent';
+import {
+  captureAttribution,
+  describeTouch,
+  getTouch,
+  mergeTouch,
+  readAttribution,
+  recordSectionView,
+} from '../attribution';
+
+const now = new Date('2025-09-01T12:00:00.000Z');
+
+describe('getTouch', () => {
+  it('reads UTM parameters and the external referrer host', () => {
+    const url = new URL('https://podoclinic.cl/es?utm_source=google&utm_medium=cpc&utm_campaign=invierno&plan=pro');
+
+    expect(getTouch(url, 'https://www.google.com/search?q=podologia', now)).toEqual({
+      source: 'google',
+      medium: 'cpc',
+      campaign: 'invierno',
+      referrer: 'www.google.com',
+      landingPage: '/es',
+      at: '2025-09-01T12:00:00.000Z',
+    });
+  });
+
+  it('ignores internal and missing referrers', () => {
+    const url = new URL('https://podoclinic.cl/en');
+
+    expect(getTouch(url, 'https://podoclinic.cl/es', now)).toEqual({ landingPage: '/en', at: now.toISOString() });
+    expect(getTouch(url, '', now)).toEqual({ landingPage: '/en', at: now.toISOString() });
+  });
+});
+
+describe('mergeTouch', () => {
+  const campaign = { source: 'newsletter', landingPage: '/es', at: now.toISOString() };
+  const direct = { landingPage: '/es', at: now.toISOString() };
+  const social = { referrer: 'www.instagram.com', landingPage: '/pt', at: now.toISOString() };
+
+  it('starts with the same first and last touch', () => {
+    expect(mergeTouch(null, campaign)).toEqual({ firstTouch: campaign, lastTouch: campaign, sectionsViewed: [] });
+  });
+
+  it('replaces the last touch only for new campaign traffic', () => {
+    const first = mergeTouch(null, campaign);
+
+    expect(mergeTouch(first, direct)).toBe(first);
+    expect(mergeTouch(first, social)).toEqual({ firstTouch: campaign, lastTouch: social, sectionsViewed: [] });
+  });
+});
+
+describe('session storage', () => {
+  const grantAnalytics = (analytics: boolean) => {
+    document.cookie = `${CONSENT_COOKIE}=${serializeConsent(createConsent({ analytics }))}; path=/`;
+  };
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.history.replaceState(null, '', '/es?utm_source=facebook&utm_medium=social');
+  });
+
+  afterEach(() => {
+    document.cookie = `${CONSENT_COOKIE}=; path=/; max-age=0`;
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('captures nothing without analytics consent', () => {
+    grantAnalytics(false);
+
+    expect(captureAttribution()).toBeNull();
+    recordSectionView('hero');
+    expect(readAttribution()).toBeNull();
+  });
+
+  it('captures the visit and the sections viewed once each', () => {
+    grantAnalytics(true);
+
+    captureAttribution();
+    recordSectionView('hero');
+    recordSectionView('pricing');
+    recordSectionView('hero');
+
+    expect(readAttribution()).toEqual({
+      firstTouch: expect.objectContaining({ source: 'facebook', medium: 'social', landingPage: '/es' }),
+      lastTouch: expect.objectContaining({ source: 'facebook' }),
+      sectionsViewed: ['hero', 'pricing'],
+    });
+  });
+
+  it('records sections seen before the visit was captured', () => {
+    grantAnalytics(true);
+
+    recordSectionView('hero');
+
+    expect(readAttribution()).toMatchObject({ firstTouch: { source: 'facebook' }, sectionsViewed: ['hero'] });
+  });
+});
+
+describe('describeTouch', () => {
+  it('summarizes the source of a touch', () => {
+    expect(describeTouch({ source: 'google', medium: 'cpc', campaign: 'invierno', landingPage: '/es', at: '' })).toBe(
+      'google / cpc (invierno)'
+    );
+    expect(describeTouch({ referrer: 'www.instagram.com', landingPage: '/es', at: '' })).toBe('www.instagram.com');
+    expect(describeTouch({ landingPage: '/es', at: '' })).toBe('directo');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for demo booking storage and availability loading
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createFileBookingStorage,
+  createMemoryBookingStorage,
+  isBookingConflictError,
+  loadAvailability,
+} from '../bookingStorage';
+
+const slot = { start: '2026-01-12T12:00:00.000Z', end: '2026-01-12T12:30:00.000Z' };
+
+describe('bookingStorage', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bookings-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('persists bookings to a JSON file', async () => {
+    const storage = createFileBookingStorage(path.join(tempDir, 'bookings.json'));
+
+    const booking = await storage.reserve('lead-1', slot);
+
+    expect(booking).toMatchObject({ leadId: 'lead-1', ...slot });
+    await expect(storage.get(booking.id)).resolves.toEqual(booking);
+    await expect(storage.get('missing')).resolves.toBeUndefined();
+  });
+
+  it('prevents concurrent double booking of the same slot', async () => {
+    const storage = createFileBookingStorage(path.join(tempDir, 'bookings.json'));
+
+    const results = await Promise.allSettled([
+      storage.reserve('lead-1', slot),
+      storage.reserve('lead-2', slot),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    const error = (results[1] as PromiseRejectedResult).reason;
+    expect(isBookingConflictError(error) && error.reason).toBe('slot_unavailable');
+    await expect(storage.list()).resolves.toHaveLength(1);
+  });
+
+  it('allows a single booking per lead', async () => {
+    const storage = createMemoryBookingStorage();
+    await storage.reserve('lead-1', slot);
+
+    await expect(
+      storage.reserve('lead-1', { start: '2026-01-12T13:00:00.000Z', end: '2026-01-12T13:30:00.000Z' })
+    ).rejects.toMatchObject({ reason: 'already_booked' });
+  });
+
+  it('loads and validates the availability file', async () => {
+    const filePath = path.join(tempDir, 'availability.json');
+    await fs.writeFile(filePath, JSON.stringify({ weekly: { monday: [{ start: '09:00', end: '12:00' }] } }));
+
+    await expect(loadAvailability(filePath)).resolves.toMatchObject({
+      timeZone: 'America/Santiago',
+      weekly: { monday: [{ start: '09:00', end: '12:00' }] },
+    });
+
+    await fs.writeFile(filePath, JSON.stringify({ weekly: { monday: [{ start: '25:00', end: '12:00' }] } }));
+    await expect(loadAvailability(filePath)).rejects.toThrow();
+  });
+
+  it('ships a valid default availability file', async () => {
+    await expect(loadAvailability(path.join(process.cwd(), 'config', 'demo-availability.json'))).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for iCalendar generation
+ */
+
+import { createIcsEvent, escapeIcsText, formatIcsDate } from '../calendar';
+
+describe('calendar', () => {
+  it('formats UTC date-times', () => {
+    expect(formatIcsDate('2026-01-12T09:00:00-03:00')).toBe('20260112T120000Z');
+  });
+
+  it('escapes special characters', () => {
+    expect(escapeIcsText('Demo; clínica, piso 2\nSantiago\\Chile')).toBe('Demo\\; clínica\\, piso 2\\nSantiago\\\\Chile');
+  });
+
+  it('builds a single event calendar with CRLF line endings', () => {
+    const ics = createIcsEvent({
+      uid: 'booking-1@podoclinic.cl',
+      start: '2026-01-12T12:00:00.000Z',
+      end: '2026-01-12T12:30:00.000Z',
+      createdAt: '2026-01-10T10:00:00.000Z',
+      summary: 'Demostración Podoclinic',
+      location: 'Videollamada',
+      organizerEmail: 'contacto@podoclinic.cl',
+    });
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toEqual(expect.arrayContaining([
+      'BEGIN:VEVENT',
+      'UID:booking-1@podoclinic.cl',
+      'DTSTAMP:20260110T100000Z',
+      'DTSTART:20260112T120000Z',
+      'DTEND:20260112T123000Z',
+      'SUMMARY:Demostración Podoclinic',
+      'LOCATION:Videollamada',
+      'ORGANIZER:mailto:contacto@podoclinic.cl',
+      'END:VEVENT',
+    ]));
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('folds long lines', () => {
+    const ics = createIcsEvent({
+      uid: 'booking-1',
+      start: '2026-01-12T12:00:00.000Z',
+      end: '2026-01-12T12:30:00.000Z',
+      summary: 'Demo',
+      description: 'x'.repeat(200),
+    });
+    const lines = ics.split('\r\n');
+
+    expect(lines.every((line) => line.length <= 75)).toBe(true);
+    expect(lines.filter((line) => line.startsWith(' ')).length).toBeGreaterThan(0);
+  });
+});
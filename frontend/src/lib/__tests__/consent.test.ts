@@ -0,0 +1,78 @@
+/**
+ * Tests for cookie consent storage and checks
+ */
+
+import {
+  CONSENT_COOKIE,
+  CONSENT_VERSION,
+  createConsent,
+  getRevokedCategories,
+  isCategoryGranted,
+  parseConsent,
+  readConsentCookie,
+  serializeConsent,
+} from '../consent';
+
+const now = new Date('2025-09-01T12:00:00.000Z');
+
+describe('createConsent', () => {
+  it('always allows necessary cookies and defaults optional ones to denied', () => {
+    expect(createConsent({ necessary: false } as never, now)).toEqual({
+      version: CONSENT_VERSION,
+      updatedAt: '2025-09-01T12:00:00.000Z',
+      categories: { necessary: true, analytics: false, marketing: false },
+    });
+  });
+});
+
+describe('parseConsent', () => {
+  it('round-trips a serialized decision', () => {
+    const consent = createConsent({ analytics: true }, now);
+    expect(parseConsent(serializeConsent(consent))).toEqual(consent);
+  });
+
+  it('ignores decisions made under an older version', () => {
+    const outdated = { ...createConsent({ analytics: true }, now), version: CONSENT_VERSION - 1 };
+    expect(parseConsent(serializeConsent(outdated))).toBeNull();
+  });
+
+  it('ignores malformed values', () => {
+    expect(parseConsent(undefined)).toBeNull();
+    expect(parseConsent('not-json')).toBeNull();
+    expect(parseConsent(encodeURIComponent(JSON.stringify({ version: CONSENT_VERSION })))).toBeNull();
+  });
+});
+
+describe('readConsentCookie', () => {
+  it('finds the consent cookie among others', () => {
+    const consent = createConsent({ marketing: true }, now);
+    const cookie = `NEXT_LOCALE=en; ${CONSENT_COOKIE}=${serializeConsent(consent)}; other=1`;
+
+    expect(readConsentCookie(cookie)).toEqual(consent);
+    expect(readConsentCookie('NEXT_LOCALE=en')).toBeNull();
+  });
+});
+
+describe('isCategoryGranted', () => {
+  it('grants only necessary cookies before a decision', () => {
+    expect(isCategoryGranted(null, 'necessary')).toBe(true);
+    expect(isCategoryGranted(null, 'analytics')).toBe(false);
+    expect(isCategoryGranted(null, 'marketing')).toBe(false);
+  });
+
+  it('follows the stored choices', () => {
+    const consent = createConsent({ analytics: true }, now);
+    expect(isCategoryGranted(consent, 'analytics')).toBe(true);
+    expect(isCategoryGranted(consent, 'marketing')).toBe(false);
+  });
+});
+
+describe('getRevokedCategories', () => {
+  it('lists categories that were allowed and no longer are', () => {
+    const before = createConsent({ analytics: true, marketing: true }, now);
+    const after = createConsent({ analytics: true }, now);
+
+    expect(getRevokedCategories(before, after)).toEqual(['marketing']);
+    expect(getRevokedCategories(null, after)).toEqual([]);
+  });
+});
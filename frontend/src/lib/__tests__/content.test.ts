@@ -0,0 +1,79 @@
+/**
+ * Tests for the section content files and their validation
+ */
+
+import { LOCALES } from '../i18n';
+import { assertSameItems, getContent, getHeroVariantCopy, parseContent, type SiteContent } from '../content';
+
+describe('content', () => {
+  it.each(LOCALES)('loads valid %s content', (locale) => {
+    const content = getContent(locale);
+
+    expect(content.benefits).toHaveLength(3);
+    expect(content.features).toHaveLength(5);
+    expect(content.gallery).toHaveLength(7);
+    expect(Object.keys(content.plans)).toEqual(['basico', 'pro', 'premium']);
+  });
+
+  it('defaults to Spanish', () => {
+    expect(getContent().benefits[0].title).toBe('Ahorra hasta 5 horas semanales');
+  });
+
+  it('reports every problem in invalid content', () => {
+    const content = getContent('es');
+    const invalid = {
+      ...content,
+      benefits: [{ ...content.benefits[0], icon: 'rocket' }],
+      gallery: [{ ...content.gallery[0], image: 'dashboard.jpg' }],
+    };
+
+    expect(() => parseContent('es', invalid)).toThrow(/content\/es/);
+    expect(() => parseContent('es', invalid)).toThrow(/benefits\[0\]\.icon/);
+    expect(() => parseContent('es', invalid)).toThrow(/gallery\[0\]\.image/);
+  });
+
+  it('rejects duplicate ids', () => {
+    const content = getContent('es');
+
+    expect(() => parseContent('es', { ...content, benefits: [content.benefits[0], content.benefits[0]] })).toThrow(
+      /Benefit ids must be unique/
+    );
+  });
+
+  it('rejects missing plans and empty copy', () => {
+    const plans: Partial<SiteContent['plans']> = { ...getContent('es').plans };
+    delete plans.pro;
+
+    expect(() => parseContent('es', { ...getContent('es'), plans })).toThrow(/plans\.pro/);
+    expect(() =>
+      parseContent('es', { ...getContent('es'), features: [{ ...getContent('es').features[0], title: ' ' }] })
+    ).toThrow(/features\[0\]\.title/);
+  });
+
+  it('requires translations to list the same items as Spanish', () => {
+    const reference = getContent('es');
+    const reordered = { ...getContent('en'), features: [...getContent('en').features].reverse() };
+
+    expect(() => assertSameItems('en', getContent('en'), reference)).not.toThrow();
+    expect(() => assertSameItems('en', reordered, reference)).toThrow(/content\/en\/features\.json/);
+  });
+
+  it('applies Hero experiment copy for non-control variants', () => {
+    const { hero } = getContent('es');
+
+    expect(getHeroVariantCopy(hero, 'control', 'control')).toMatchObject({
+      titlePrefix: hero.titlePrefix,
+      primaryCta: hero.primaryCta,
+    });
+    expect(getHeroVariantCopy(hero, 'outcome', 'urgency')).toMatchObject({
+      titlePrefix: hero.experiments?.heroHeadline?.outcome?.titlePrefix,
+      titleHighlight: hero.experiments?.heroHeadline?.outcome?.titleHighlight,
+      primaryCta: hero.experiments?.heroCta?.urgency?.primaryCta,
+      subtitle: hero.subtitle,
+    });
+    expect(getHeroVariantCopy({ ...hero, experiments: undefined }, 'outcome', 'urgency')).toMatchObject({
+      titlePrefix: hero.titlePrefix,
+      primaryCta: hero.primaryCta,
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the file system and HTTP CMS content providers
+ */
+
+import { promises as fs } from 'fs';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { getContent } from '../content';
+import {
+  createContentProviderFromEnv,
+  createFileContentProvider,
+  createHttpContentProvider,
+  loadContent,
+  setContentProvider,
+} from '../contentProvider';
+
+const published = getContent('es');
+const draft = { ...published, hero: { ...published.hero, titleHighlight: 'Borrador sin publicar' } };
+
+describe('createFileContentProvider', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-'));
+    await fs.mkdir(path.join(rootDir, 'es'));
+    await Promise.all(
+      Object.entries(published).map(([collection, value]) =>
+        fs.writeFile(path.join(rootDir, 'es', `${collection}.json`), JSON.stringify(value))
+      )
+    );
+    await fs.writeFile(path.join(rootDir, 'es', 'hero.draft.json'), JSON.stringify(draft.hero));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('reads published content', async () => {
+    await expect(createFileContentProvider(rootDir).getContent('es')).resolves.toEqual(published);
+  });
+
+  it('prefers draft files in draft mode', async () => {
+    const content = await createFileContentProvider(rootDir).getContent('es', { draft: true });
+
+    expect(content.hero.titleHighlight).toBe('Borrador sin publicar');
+    expect(content.features).toEqual(published.features);
+  });
+
+  it('rejects invalid files', async () => {
+    await fs.writeFile(path.join(rootDir, 'es', 'benefits.json'), JSON.stringify([{ id: 'x' }]));
+
+    await expect(createFileContentProvider(rootDir).getContent('es')).rejects.toThrow(/benefits\[0\]/);
+  });
+
+  it('reads the bundled content directory by default', async () => {
+    await expect(createFileContentProvider().getContent('pt')).resolves.toEqual(getContent('pt'));
+  });
+});
+
+describe('createHttpContentProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: IncomingMessage[];
+  let status: number;
+
+  // Minimal CMS: /content/<locale>, drafts with ?draft=true and the preview token
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      requests.push(request);
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      const isDraft = url.searchParams.get('draft') === 'true';
+
+      if (status !== 200 || url.pathname !== '/api/content/es') {
+        response.writeHead(status === 200 ? 404 : status).end();
+        return;
+      }
+
+      if (isDraft && request.headers.authorization !== 'Bearer preview-token') {
+        response.writeHead(401).end();
+        return;
+      }
+
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(isDraft ? draft : published));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    status = 200;
+  });
+
+  it('fetches published content with the read token', async () => {
+    const provider = createHttpContentProvider({ baseUrl, token: 'read-token', previewToken: 'preview-token' });
+
+    await expect(provider.getContent('es')).resolves.toEqual(published);
+    expect(requests[0].url).toBe('/api/content/es');
+    expect(requests[0].headers.authorization).toBe('Bearer read-token');
+  });
+
+  it('fetches drafts with the preview token', async () => {
+    const provider = createHttpContentProvider({ baseUrl, token: 'read-token', previewToken: 'preview-token' });
+    const content = await provider.getContent('es', { draft: true });
+
+    expect(content.hero.titleHighlight).toBe('Borrador sin publicar');
+    expect(requests[0].url).toBe('/api/content/es?draft=true');
+  });
+
+  it('fails on error responses', async () => {
+    status = 503;
+
+    await expect(createHttpContentProvider({ baseUrl }).getContent('es')).rejects.toThrow('status 503');
+  });
+
+  it('validates the CMS payload', async () => {
+    const provider = createHttpContentProvider({
+      baseUrl,
+      fetch: async () => new Response(JSON.stringify({ ...published, hero: {} }), { status: 200 }),
+    });
+
+    await expect(provider.getContent('es')).rejects.toThrow(/CMS content for es/);
+  });
+});
+
+describe('loadContent', () => {
+  const failing = {
+    name: 'broken',
+    getContent: jest.fn().mockRejectedValue(new Error('CMS down')),
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    setContentProvider(failing);
+  });
+
+  afterEach(() => {
+    setContentProvider(null);
+    jest.restoreAllMocks();
+  });
+
+  it('falls back to bundled content when published content fails', async () => {
+    await expect(loadContent('en')).resolves.toEqual(getContent('en'));
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('surfaces draft errors', async () => {
+    await expect(loadContent('en', { draft: true })).rejects.toThrow('CMS down');
+  });
+});
+
+describe('createContentProviderFromEnv', () => {
+  it('uses the CMS when CMS_URL is set', () => {
+    expect(createContentProviderFromEnv({ CMS_URL: 'https://cms.example.com' }).name).toBe('cms');
+    expect(createContentProviderFromEnv({}).name).toBe('files');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Tests for reference currency conversion
+ */
+
+import { CURRENCIES, convertFromCLP, formatPrice, isCurrencyCode } from '../currency';
+
+// Intl may separate symbol and amount with a non-breaking space
+const normalizeSpaces = (value: string) => value.replace(/\s/g, ' ');
+
+describe('currency', () => {
+  it('keeps CLP amounts as billed', () => {
+    expect(convertFromCLP(29990, 'CLP')).toBe(29990);
+    expect(formatPrice(29990)).toBe('$29.990');
+  });
+
+  it('converts from CLP with the static table, rounded to whole units', () => {
+    expect(convertFromCLP(29990, 'USD')).toBe(32);
+    expect(convertFromCLP(29990, 'PEN')).toBe(118);
+    expect(convertFromCLP(29990, 'MXN')).toBe(588);
+    expect(convertFromCLP(0, 'COP')).toBe(0);
+  });
+
+  it('formats amounts with the currency conventions', () => {
+    expect(normalizeSpaces(formatPrice(29990, 'PEN'))).toBe('S/ 118');
+    expect(normalizeSpaces(formatPrice(29990, 'COP'))).toBe('$ 124.958');
+    expect(formatPrice(49990, 'USD')).toBe('$53');
+  });
+
+  it('recognizes supported currencies', () => {
+    expect(CURRENCIES).toContain('CLP');
+    expect(isCurrencyCode('ARS')).toBe(true);
+    expect(isCurrencyCode('EUR')).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for experiment bucketing
+ */
+
+import {
+  EXPERIMENTS,
+  EXPERIMENT_IDS,
+  VISITOR_COOKIE,
+  createVisitorId,
+  getAssignments,
+  getVariant,
+  getVisitorIdFromCookieHeader,
+  isVisitorId,
+} from '../experiments';
+
+const visitorId = '3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e43';
+
+function visitorIds(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `00000000-0000-4000-8000-${index.toString(16).padStart(12, '0')}`);
+}
+
+describe('experiments', () => {
+  it('assigns the same variant to the same visitor every time', () => {
+    expect(getAssignments(visitorId)).toEqual(getAssignments(visitorId));
+  });
+
+  it('returns a registered variant for every experiment', () => {
+    const assignments = getAssignments(visitorId);
+
+    EXPERIMENT_IDS.forEach((experiment) => {
+      expect(EXPERIMENTS[experiment].variants).toContain(assignments[experiment]);
+    });
+  });
+
+  it('splits visitors roughly evenly between variants', () => {
+    const counts = new Map<string, number>();
+    visitorIds(3000).forEach((id) => {
+      const variant = getVariant('pricingBadge', id);
+      counts.set(variant, (counts.get(variant) ?? 0) + 1);
+    });
+
+    expect(Array.from(counts.keys()).sort()).toEqual(['control', 'hidden', 'premium']);
+    counts.forEach((count) => {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    });
+  });
+
+  it('buckets each experiment independently', () => {
+    const ids = visitorIds(500);
+    const sameVariant = ids.filter((id) => getVariant('heroHeadline', id) === 'control' && getVariant('heroCta', id) === 'control');
+
+    // Correlated bucketing would put about half of the visitors in control for both
+    expect(sameVariant.length).toBeGreaterThan(75);
+    expect(sameVariant.length).toBeLessThan(175);
+  });
+
+  it('shows control without a valid visitor ID', () => {
+    expect(getAssignments(undefined)).toEqual({ heroHeadline: 'control', heroCta: 'control', pricingBadge: 'control' });
+    expect(getVariant('heroCta', 'not-a-uuid')).toBe('control');
+  });
+
+  it('creates valid visitor IDs', () => {
+    expect(isVisitorId(createVisitorId())).toBe(true);
+  });
+
+  it('reads the visitor ID from a Cookie header', () => {
+    expect(getVisitorIdFromCookieHeader(`NEXT_LOCALE=es; ${VISITOR_COOKIE}=${visitorId}`)).toBe(visitorId);
+    expect(getVisitorIdFromCookieHeader(`${VISITOR_COOKIE}=forged`)).toBeUndefined();
+    expect(getVisitorIdFromCookieHeader(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the hero foot model geometry and scene
+ */
+
+import { createFootGeometry } from '../footModel';
+import { createFootScene, easeFootPose, getFootModelMatrix, getFootPose } from '../footScene';
+
+const center = { x: 0.5, y: 0.5 };
+
+function getBounds(positions: Float32Array, axis: number): [number, number] {
+  const values = Array.from(positions).filter((_, index) => index % 3 === axis);
+  return [Math.min(...values), Math.max(...values)];
+}
+
+describe('foot geometry', () => {
+  const geometry = createFootGeometry();
+
+  it('produces a valid indexed mesh', () => {
+    const vertexCount = geometry.positions.length / 3;
+
+    expect(geometry.normals).toHaveLength(geometry.positions.length);
+    expect(geometry.indices.length % 3).toBe(0);
+    expect(Math.max(...Array.from(geometry.indices))).toBeLessThan(vertexCount);
+    expect(vertexCount).toBeLessThan(65536);
+  });
+
+  it('has unit normals', () => {
+    for (let i = 0; i < geometry.normals.length; i += 3) {
+      expect(Math.hypot(geometry.normals[i], geometry.normals[i + 1], geometry.normals[i + 2])).toBeCloseTo(1, 5);
+    }
+  });
+
+  it('is centred and longer than it is wide or tall', () => {
+    const [[minX, maxX], [minY, maxY], [minZ, maxZ]] = [0, 1, 2].map((axis) => getBounds(geometry.positions, axis));
+
+    expect(minZ + maxZ).toBeCloseTo(0, 5);
+    expect(maxZ - minZ).toBeGreaterThan(2 * (maxX - minX));
+    expect(maxZ - minZ).toBeGreaterThan(maxY - minY);
+  });
+
+  it('points its normals outwards', () => {
+    // The topmost vertex faces up and the frontmost (a toe tip) faces forwards
+    const top = getBounds(geometry.positions, 1)[1];
+    const front = getBounds(geometry.positions, 2)[1];
+    const topIndex = geometry.positions.findIndex((value, index) => index % 3 === 1 && value === top);
+    const frontIndex = geometry.positions.findIndex((value, index) => index % 3 === 2 && value === front);
+
+    expect(geometry.normals[topIndex]).toBeGreaterThan(0.5);
+    expect(geometry.normals[frontIndex]).toBeGreaterThan(0.5);
+  });
+
+  it('uses fewer vertices at lower detail', () => {
+    expect(createFootGeometry({ segments: 8 }).positions.length).toBeLessThan(geometry.positions.length);
+  });
+});
+
+describe('foot pose', () => {
+  it('turns towards the pointer', () => {
+    const left = getFootPose({ scrollY: 0, mousePosition: { x: 0, y: 0.5 }, time: 0, animated: false });
+    const right = getFootPose({ scrollY: 0, mousePosition: { x: 1, y: 0.5 }, time: 0, animated: false });
+
+    expect(right.rotationY).toBeGreaterThan(left.rotationY);
+    expect(right.offsetX).toBeGreaterThan(left.offsetX);
+  });
+
+  it('tilts and lifts the foot as the page scrolls', () => {
+    const top = getFootPose({ scrollY: 0, mousePosition: center, time: 0, animated: false });
+    const scrolled = getFootPose({ scrollY: 400, mousePosition: center, time: 0, animated: false });
+
+    expect(scrolled.rotationX).toBeGreaterThan(top.rotationX);
+    expect(scrolled.offsetY).toBeGreaterThan(top.offsetY);
+  });
+
+  it('only moves over time when animated', () => {
+    const still = getFootPose({ scrollY: 0, mousePosition: center, time: 0, animated: false });
+
+    expect(getFootPose({ scrollY: 0, mousePosition: center, time: 3, animated: false })).toEqual(still);
+    expect(getFootPose({ scrollY: 0, mousePosition: center, time: 3, animated: true })).not.toEqual(still);
+  });
+
+  it('eases part of the way towards the target', () => {
+    const from = getFootPose({ scrollY: 0, mousePosition: { x: 0, y: 0.5 }, time: 0, animated: false });
+    const to = getFootPose({ scrollY: 0, mousePosition: { x: 1, y: 0.5 }, time: 0, animated: false });
+
+    expect(easeFootPose(from, to, 0.5).rotationY).toBeCloseTo((from.rotationY + to.rotationY) / 2);
+    expect(easeFootPose(from, to, 1)).toEqual(to);
+  });
+
+  it('builds a model matrix with the pose offset as its translation', () => {
+    const matrix = getFootModelMatrix({ rotationX: 0.3, rotationY: -0.6, offsetX: 0.2, offsetY: -0.1, scale: 1 });
+
+    expect(matrix[12]).toBeCloseTo(0.2);
+    expect(matrix[13]).toBeCloseTo(-0.1);
+    expect(matrix[15]).toBe(1);
+  });
+});
+
+describe('createFootScene', () => {
+  it('returns null without WebGL so the CSS scene can be used', () => {
+    expect(createFootScene(document.createElement('canvas'))).toBeNull();
+  });
+});
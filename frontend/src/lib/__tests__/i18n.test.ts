@@ -0,0 +1,86 @@
+/**
+ * Tests for the message catalogs and locale helpers
+ */
+
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  catalogs,
+  getLocaleFromPath,
+  localizePath,
+  matchLocale,
+  translate,
+} from '../i18n';
+
+// Flatten a catalog into "path -> string" entries, including array indices
+function flatten(node: unknown, prefix = ''): Record<string, string> {
+  if (typeof node === 'string') {
+    return { [prefix]: node };
+  }
+
+  return Object.entries(node as Record<string, unknown>).reduce<Record<string, string>>(
+    (entries, [key, value]) => ({ ...entries, ...flatten(value, prefix ? `${prefix}.${key}` : key) }),
+    {}
+  );
+}
+
+const placeholders = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort();
+
+describe('message catalogs', () => {
+  const reference = flatten(catalogs[DEFAULT_LOCALE]);
+
+  it.each(LOCALES.filter((locale) => locale !== DEFAULT_LOCALE))('%s has exactly the keys of es', (locale) => {
+    const keys = Object.keys(flatten(catalogs[locale]));
+    const missing = Object.keys(reference).filter((key) => !keys.includes(key));
+    const extra = keys.filter((key) => !(key in reference));
+
+    expect(missing).toEqual([]);
+    expect(extra).toEqual([]);
+  });
+
+  it.each(LOCALES)('%s has no empty messages and keeps interpolation variables', (locale) => {
+    const messages = flatten(catalogs[locale]);
+
+    Object.entries(messages).forEach(([key, message]) => {
+      expect({ key, empty: message.trim() === '' }).toEqual({ key, empty: false });
+      expect({ key, placeholders: placeholders(message) }).toEqual({
+        key,
+        placeholders: placeholders(reference[key] ?? ''),
+      });
+    });
+  });
+});
+
+describe('translate', () => {
+  it('resolves dotted keys and interpolates values', () => {
+    expect(translate(catalogs.es, 'navigation.cta')).toBe('Demo Gratis');
+    expect(translate(catalogs.en, 'errors.canvas.retry', { count: 2 })).toBe('Retry (2 left)');
+    expect(translate(catalogs.pt, 'metadata.keywords.0')).toBe('podologia');
+  });
+
+  it('returns the key when it is missing', () => {
+    expect(translate(catalogs.es, 'navigation.unknown')).toBe('navigation.unknown');
+    expect(translate(catalogs.es, 'navigation')).toBe('navigation');
+  });
+});
+
+describe('locale negotiation', () => {
+  it.each([
+    ['pt-BR,pt;q=0.9,en;q=0.8', 'pt'],
+    ['en-US,en;q=0.9', 'en'],
+    ['fr-FR,en;q=0.5,es;q=0.8', 'es'],
+    ['de-DE', 'es'],
+    [null, 'es'],
+  ])('matches %s to %s', (header, expected) => {
+    expect(matchLocale(header)).toBe(expected);
+  });
+
+  it('reads and replaces the locale prefix of a path', () => {
+    expect(getLocaleFromPath('/pt/privacy')).toBe('pt');
+    expect(getLocaleFromPath('/privacy')).toBeNull();
+    expect(localizePath('/', 'en')).toBe('/en');
+    expect(localizePath('/privacy', 'pt')).toBe('/pt/privacy');
+    expect(localizePath('/es/terms', 'en')).toBe('/en/terms');
+    expect(localizePath('/es', 'pt')).toBe('/pt');
+  });
+});
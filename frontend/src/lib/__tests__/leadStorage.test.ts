@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for lead storage adapters
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createFileLeadStorage,
+  createMemoryLeadStorage,
+  getLeadStorage,
+  setLeadStorage,
+} from '../leadStorage';
+
+const leadData = {
+  fullName: 'María González',
+  email: 'maria@clinica.cl',
+  whatsapp: '+56912345678',
+  clinicName: 'Clínica Podológica Los Andes',
+  professionals: '2-5' as const,
+  region: 'RM' as const,
+};
+
+describe('leadStorage', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'leads-'));
+  });
+
+  afterEach(async () => {
+    setLeadStorage(null);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createFileLeadStorage', () => {
+    it('creates the file and persists leads with id and timestamp', async () => {
+      const filePath = path.join(tempDir, 'nested', 'leads.json');
+      const storage = createFileLeadStorage(filePath);
+
+      const lead = await storage.save(leadData);
+
+      expect(lead).toMatchObject(leadData);
+      expect(lead.id).toEqual(expect.any(String));
+      expect(new Date(lead.createdAt).toISOString()).toBe(lead.createdAt);
+
+      const stored = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      expect(stored).toEqual([lead]);
+    });
+
+    it('does not lose concurrent writes', async () => {
+      const storage = createFileLeadStorage(path.join(tempDir, 'leads.json'));
+
+      await Promise.all(
+        Array.from({ length: 5 }, (_, index) =>
+          storage.save({ ...leadData, email: `lead${index}@clinica.cl` })
+        )
+      );
+
+      const leads = await storage.list();
+      expect(leads).toHaveLength(5);
+    });
+
+    it('returns an empty list when the file does not exist', async () => {
+      const storage = createFileLeadStorage(path.join(tempDir, 'missing.json'));
+      await expect(storage.list()).resolves.toEqual([]);
+    });
+  });
+
+  describe('createMemoryLeadStorage', () => {
+    it('keeps leads in memory', async () => {
+      const storage = createMemoryLeadStorage();
+      await storage.save(leadData);
+
+      const leads = await storage.list();
+      expect(leads).toHaveLength(1);
+      expect(leads[0]).toMatchObject(leadData);
+    });
+  });
+
+  describe('getLeadStorage / setLeadStorage', () => {
+    it('returns the overridden storage', () => {
+      const storage = createMemoryLeadStorage();
+      setLeadStorage(storage);
+
+      expect(getLeadStorage()).toBe(storage);
+    });
+  });
+});
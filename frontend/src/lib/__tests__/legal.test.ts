@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the versioned legal documents
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LOCALES } from '../i18n';
+import { LEGAL_DOCUMENTS, formatLegalDate, listLegalVersions, loadLegalDocument } from '../legal';
+
+describe('bundled legal documents', () => {
+  it.each(LOCALES)('publishes every document in %s', async (locale) => {
+    for (const id of LEGAL_DOCUMENTS) {
+      const document = await loadLegalDocument(id, locale);
+
+      expect(document).not.toBeNull();
+      expect(document?.isCurrent).toBe(true);
+      expect(document?.toc.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('versions', () => {
+  let rootDir: string;
+
+  const write = (file: string, contents: string) =>
+    fs.writeFile(path.join(rootDir, 'es', 'legal', 'terms', file), contents);
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'legal-'));
+    await fs.mkdir(path.join(rootDir, 'es', 'legal', 'terms'), { recursive: true });
+    await write('2024-01-15.md', '---\ntitle: Términos antiguos\ndescription: Versión 1\n---\n\n## Uso\n');
+    await write('2025-06-01.md', '---\ntitle: Términos\ndescription: Versión 2\n---\n\n## Uso\n');
+    await write('notas.md', 'No es una versión');
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('lists versions newest first, ignoring other files', async () => {
+    await expect(listLegalVersions('terms', 'es', rootDir)).resolves.toEqual(['2025-06-01', '2024-01-15']);
+    await expect(listLegalVersions('privacy', 'es', rootDir)).resolves.toEqual([]);
+  });
+
+  it('loads the current version by default', async () => {
+    const document = await loadLegalDocument('terms', 'es', undefined, rootDir);
+
+    expect(document).toMatchObject({ title: 'Términos', version: '2025-06-01', isCurrent: true });
+  });
+
+  it('loads previous versions', async () => {
+    const document = await loadLegalDocument('terms', 'es', '2024-01-15', rootDir);
+
+    expect(document).toMatchObject({
+      title: 'Términos antiguos',
+      isCurrent: false,
+      versions: ['2025-06-01', '2024-01-15'],
+    });
+  });
+
+  it('returns null for unknown versions', async () => {
+    await expect(loadLegalDocument('terms', 'es', '2023-01-01', rootDir)).resolves.toBeNull();
+    await expect(loadLegalDocument('cookies', 'es', undefined, rootDir)).resolves.toBeNull();
+  });
+
+  it('rejects documents without a title', async () => {
+    await write('2025-09-01.md', '---\ndescription: Sin título\n---\n\nTexto');
+
+    await expect(loadLegalDocument('terms', 'es', undefined, rootDir)).rejects.toThrow(/Invalid front matter/);
+  });
+});
+
+describe('formatLegalDate', () => {
+  it('formats the version date in the page language', () => {
+    expect(formatLegalDate('2025-09-01', 'es')).toBe('1 de septiembre de 2025');
+    expect(formatLegalDate('2025-09-01', 'en')).toBe('September 1, 2025');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for the Markdown parser used by the legal pages
+ */
+
+import { getTableOfContents, parseInline, parseMarkdown, slugify } from '../markdown';
+
+describe('slugify', () => {
+  it('strips accents and punctuation', () => {
+    expect(slugify('¿Qué datos recopilamos?')).toBe('que-datos-recopilamos');
+    expect(slugify('  Derechos del titular (ARCO)  ')).toBe('derechos-del-titular-arco');
+  });
+});
+
+describe('parseInline', () => {
+  it('parses bold, italics and links', () => {
+    expect(parseInline('Lee **esto** y _aquello_ en [la política](/es/privacy).')).toEqual([
+      { type: 'text', value: 'Lee ' },
+      { type: 'strong', children: [{ type: 'text', value: 'esto' }] },
+      { type: 'text', value: ' y ' },
+      { type: 'emphasis', children: [{ type: 'text', value: 'aquello' }] },
+      { type: 'text', value: ' en ' },
+      { type: 'link', href: '/es/privacy', children: [{ type: 'text', value: 'la política' }] },
+      { type: 'text', value: '.' },
+    ]);
+  });
+
+  it('keeps unsafe links as plain text', () => {
+    expect(parseInline('[clic](javascript:alert(1))')).toEqual([
+      { type: 'text', value: '[clic](javascript:alert(1)' },
+      { type: 'text', value: ')' },
+    ]);
+    expect(parseInline('[otro sitio](//evil.example)')[0]).toEqual({
+      type: 'text',
+      value: '[otro sitio](//evil.example)',
+    });
+  });
+});
+
+describe('parseMarkdown', () => {
+  const source = [
+    '---',
+    'title: "Política de privacidad"',
+    'description: Cómo tratamos tus datos',
+    '---',
+    '',
+    '## Datos',
+    '',
+    'Primera línea',
+    'continúa el párrafo.',
+    '',
+    '- Nombre',
+    '- Correo',
+    '  electrónico',
+    '',
+    '1. Uno',
+    '2. Dos',
+    '',
+    '### Detalle',
+    '',
+    '## Datos',
+  ].join('\n');
+
+  it('reads front matter without quotes', () => {
+    expect(parseMarkdown(source).frontmatter).toEqual({
+      title: 'Política de privacidad',
+      description: 'Cómo tratamos tus datos',
+    });
+  });
+
+  it('groups lines into paragraphs and lists', () => {
+    const { blocks } = parseMarkdown(source);
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      'heading',
+      'paragraph',
+      'list',
+      'list',
+      'heading',
+      'heading',
+    ]);
+    expect(blocks[1]).toEqual({
+      type: 'paragraph',
+      children: [{ type: 'text', value: 'Primera línea continúa el párrafo.' }],
+    });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [[{ value: 'Nombre' }], [{ value: 'Correo electrónico' }]] });
+    expect(blocks[3]).toMatchObject({ ordered: true });
+  });
+
+  it('gives repeated headings unique ids', () => {
+    const ids = getTableOfContents(parseMarkdown(source).blocks).map((entry) => entry.id);
+    expect(ids).toEqual(['datos', 'detalle', 'datos-2']);
+  });
+
+  it('builds the table of contents from h2 and h3 only', () => {
+    const { blocks } = parseMarkdown('# Título\n\n## Sección\n\n### Subsección\n\n#### Nota');
+    expect(getTableOfContents(blocks)).toEqual([
+      { id: 'seccion', text: 'Sección', level: 2 },
+      { id: 'subseccion', text: 'Subsección', level: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the lead notification dispatcher
+ */
+
+import {
+  createChannelsFromEnv,
+  createEmailChannel,
+  createFakeTransport,
+  createNotificationDispatcher,
+  createWebhookChannel,
+  createWhatsAppChannel,
+  formatLeadSummary,
+} from '../notifications';
+import type { RetryConfig } from '../retry';
+import type { Lead } from '@/types';
+
+const lead: Lead = {
+  id: 'lead-1',
+  fullName: 'María González',
+  email: 'maria@clinica.cl',
+  whatsapp: '+56912345678',
+  clinicName: 'Clínica Podológica Los Andes',
+  professionals: '2-5',
+  region: 'RM',
+  plan: 'pro',
+  createdAt: '2026-01-15T12:00:00.000Z',
+};
+
+const fastRetry: RetryConfig = {
+  maxRetries: 2,
+  baseDelay: 1,
+  maxDelay: 2,
+  backoffMultiplier: 2,
+};
+
+describe('notifications', () => {
+  let warnSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('formats a readable lead summary', () => {
+    const summary = formatLeadSummary(lead);
+
+    expect(summary).toContain('María González');
+    expect(summary).toContain('+56 9 1234 5678');
+    expect(summary).toContain('Región: Metropolitana de Santiago');
+    expect(summary).toContain('Plan de interés: Plan Pro');
+    expect(summary).not.toContain('Ciudad');
+  });
+
+  it('includes the lead attribution in the summary', () => {
+    const summary = formatLeadSummary({
+      ...lead,
+      attribution: {
+        firstTouch: { source: 'google', medium: 'cpc', campaign: 'invierno', landingPage: '/es', at: lead.createdAt },
+        lastTouch: { referrer: 'www.instagram.com', landingPage: '/es', at: lead.createdAt },
+        sectionsViewed: ['hero', 'pricing'],
+      },
+    });
+
+    expect(summary).toContain('Primer contacto: google / cpc (invierno) en /es');
+    expect(summary).toContain('Último contacto: www.instagram.com en /es');
+    expect(summary).toContain('Secciones vistas: hero, pricing');
+  });
+
+  describe('channels', () => {
+    it('sends an email to sales', async () => {
+      const fake = createFakeTransport();
+      await createEmailChannel(fake.transport, { from: 'bot@podoclinic.cl', to: 'ventas@podoclinic.cl' }).send(lead);
+
+      expect(fake.emails).toEqual([
+        expect.objectContaining({
+          from: 'bot@podoclinic.cl',
+          to: 'ventas@podoclinic.cl',
+          subject: 'Nueva solicitud de demo: María González',
+        }),
+      ]);
+    });
+
+    it('posts a WhatsApp Cloud API text message', async () => {
+      const fake = createFakeTransport();
+      await createWhatsAppChannel(fake.transport, {
+        phoneNumberId: '12345',
+        accessToken: 'token',
+        to: '+56 9 8765 4321',
+      }).send(lead);
+
+      expect(fake.requests[0]).toMatchObject({
+        url: 'https://graph.facebook.com/v19.0/12345/messages',
+        headers: { Authorization: 'Bearer token' },
+        body: { messaging_product: 'whatsapp', to: '56987654321', type: 'text' },
+      });
+    });
+
+    it('posts the lead to a generic webhook', async () => {
+      const fake = createFakeTransport();
+      await createWebhookChannel(fake.transport, { url: 'https://hooks.example/lead', secret: 's3cret' }).send(lead);
+
+      expect(fake.requests[0]).toEqual({
+        url: 'https://hooks.example/lead',
+        headers: { 'X-Webhook-Secret': 's3cret' },
+        body: { event: 'lead.created', lead },
+      });
+    });
+  });
+
+  describe('createNotificationDispatcher', () => {
+    it('delivers to every channel', async () => {
+      const fake = createFakeTransport();
+      const dispatcher = createNotificationDispatcher([
+        createEmailChannel(fake.transport, { from: 'a@b.cl', to: 'c@d.cl' }),
+        createWebhookChannel(fake.transport, { url: 'https://hooks.example/lead' }),
+      ], fastRetry);
+
+      const results = await dispatcher.notify(lead);
+
+      expect(results).toEqual([
+        { channel: 'email', success: true },
+        { channel: 'webhook', success: true },
+      ]);
+      expect(fake.emails).toHaveLength(1);
+      expect(fake.requests).toHaveLength(1);
+    });
+
+    it('retries transient failures', async () => {
+      const fake = createFakeTransport();
+      fake.failNext(2, 503);
+      const dispatcher = createNotificationDispatcher([
+        createWebhookChannel(fake.transport, { url: 'https://hooks.example/lead' }),
+      ], fastRetry);
+
+      const [result] = await dispatcher.notify(lead);
+
+      expect(result.success).toBe(true);
+      expect(fake.requests).toHaveLength(1);
+    });
+
+    it('does not retry client errors and reports the failure', async () => {
+      const fake = createFakeTransport();
+      fake.failNext(1, 401);
+      const send = jest.fn(() => fake.transport.postJson({ url: 'https://hooks.example', body: {} }));
+      const dispatcher = createNotificationDispatcher([{ name: 'webhook', send }], fastRetry);
+
+      const [result] = await dispatcher.notify(lead);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ channel: 'webhook', success: false, error: 'Fake transport failure' });
+    });
+
+    it('isolates failing channels from healthy ones', async () => {
+      const fake = createFakeTransport();
+      const dispatcher = createNotificationDispatcher([
+        { name: 'broken', send: jest.fn().mockRejectedValue(new Error('down')) },
+        createEmailChannel(fake.transport, { from: 'a@b.cl', to: 'c@d.cl' }),
+      ], fastRetry);
+
+      const results = await dispatcher.notify(lead);
+
+      expect(results[0]).toEqual({ channel: 'broken', success: false, error: 'down' });
+      expect(results[1]).toEqual({ channel: 'email', success: true });
+    });
+  });
+
+  describe('createChannelsFromEnv', () => {
+    it('enables only configured channels', () => {
+      const { transport } = createFakeTransport();
+
+      expect(createChannelsFromEnv({} as NodeJS.ProcessEnv, transport)).toEqual([]);
+
+      const channels = createChannelsFromEnv({
+        SMTP_HOST: 'smtp.example',
+        LEAD_NOTIFY_EMAIL_TO: 'ventas@podoclinic.cl',
+        WHATSAPP_PHONE_NUMBER_ID: '123',
+        WHATSAPP_ACCESS_TOKEN: 'token',
+        WHATSAPP_NOTIFY_TO: '+56912345678',
+        LEAD_WEBHOOK_URL: 'https://hooks.example/lead',
+      } as unknown as NodeJS.ProcessEnv, transport);
+
+      expect(channels.map((channel) => channel.name)).toEqual(['email', 'whatsapp', 'webhook']);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for country-aware mobile number rules
+ */
+
+import { detectPhoneCountry, formatPhone, isPhoneCountry, isValidMobile, normalizePhone } from '../phone';
+
+describe('phone', () => {
+  describe('normalizePhone', () => {
+    it.each([
+      ['CL', '9 1234 5678', '+56912345678'],
+      ['CL', '+56 9 1234 5678', '+56912345678'],
+      ['PE', '987 654 321', '+51987654321'],
+      ['PE', '0051987654321', '+51987654321'],
+      ['AR', '011 2345-6789', '+5491123456789'],
+      ['AR', '+54 9 351 123 4567', '+5493511234567'],
+      ['AR', '+54 351 123 4567', '+5493511234567'],
+      ['CO', '300 123 4567', '+573001234567'],
+      ['CO', '57 3001234567', '+573001234567'],
+      ['MX', '55 1234 5678', '+525512345678'],
+      ['MX', '+52 1 55 1234 5678', '+525512345678'],
+    ] as const)('normalizes %s number %s', (country, input, expected) => {
+      expect(normalizePhone(input, country)).toBe(expected);
+    });
+
+    it.each([
+      ['CL', '221234567'],
+      ['CL', '+51987654321'],
+      ['PE', '187654321'],
+      ['AR', '12345'],
+      ['CO', '6012345678'],
+      ['MX', '551234567'],
+      ['MX', '55-1234-567a'],
+    ] as const)('rejects %s number %s', (country, input) => {
+      expect(normalizePhone(input, country)).toBeNull();
+      expect(isValidMobile(input, country)).toBe(false);
+    });
+
+    it('defaults to Chile', () => {
+      expect(normalizePhone('912345678')).toBe('+56912345678');
+    });
+  });
+
+  describe('detectPhoneCountry', () => {
+    it('detects the country from the dial code', () => {
+      expect(detectPhoneCountry('+51987654321')).toBe('PE');
+      expect(detectPhoneCountry('+5491123456789')).toBe('AR');
+      expect(detectPhoneCountry('+525512345678')).toBe('MX');
+    });
+
+    it('needs an international number', () => {
+      expect(detectPhoneCountry('912345678')).toBeNull();
+      expect(detectPhoneCountry('+34612345678')).toBeNull();
+    });
+  });
+
+  describe('formatPhone', () => {
+    it.each([
+      ['+56912345678', '+56 9 1234 5678'],
+      ['+51987654321', '+51 987 654 321'],
+      ['+5491123456789', '+54 9 11 2345 6789'],
+      ['+5493511234567', '+54 9 351 123 4567'],
+      ['+573001234567', '+57 300 123 4567'],
+      ['+525512345678', '+52 55 1234 5678'],
+      ['+522221234567', '+52 222 123 4567'],
+    ])('formats %s as %s', (input, expected) => {
+      expect(formatPhone(input)).toBe(expected);
+    });
+
+    it('formats local numbers for the given country', () => {
+      expect(formatPhone('3001234567', 'CO')).toBe('+57 300 123 4567');
+    });
+
+    it('returns invalid input unchanged', () => {
+      expect(formatPhone('12345')).toBe('12345');
+      expect(formatPhone('912345678')).toBe('912345678');
+    });
+  });
+
+  it('recognizes supported countries', () => {
+    expect(isPhoneCountry('MX')).toBe(true);
+    expect(isPhoneCountry('BR')).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for plan preselection through the URL
+ */
+
+import { buildPlanUrl, isPlanId, readPlanFromUrl } from '../planSelection';
+
+describe('planSelection', () => {
+  it('recognizes the catalog plan ids', () => {
+    expect(isPlanId('pro')).toBe(true);
+    expect(isPlanId('enterprise')).toBe(false);
+    expect(isPlanId(undefined)).toBe(false);
+  });
+
+  describe('readPlanFromUrl', () => {
+    it.each([
+      [{ search: '?plan=pro', hash: '#contact' }, 'pro'],
+      [{ search: '', hash: '#contact?plan=premium' }, 'premium'],
+      [{ search: '', hash: '#plan=basico' }, 'basico'],
+      [{ search: '?utm_source=ads', hash: '' }, null],
+      [{ search: '?plan=gold', hash: '#contact' }, null],
+    ])('reads %j as %s', (url, expected) => {
+      expect(readPlanFromUrl(url)).toBe(expected);
+    });
+
+    it('prefers the query string over hash state', () => {
+      expect(readPlanFromUrl({ search: '?plan=pro', hash: '#plan=basico' })).toBe('pro');
+    });
+  });
+
+  describe('buildPlanUrl', () => {
+    it('sets the plan and points at the contact section', () => {
+      expect(buildPlanUrl('https://podoclinic.cl/?utm_source=ads#pricing', 'pro'))
+        .toBe('https://podoclinic.cl/?utm_source=ads&plan=pro#contact');
+    });
+
+    it('removes the plan and keeps other parameters and anchors', () => {
+      expect(buildPlanUrl('https://podoclinic.cl/?utm_source=ads&plan=pro#contact', null))
+        .toBe('https://podoclinic.cl/?utm_source=ads#contact');
+      expect(buildPlanUrl('https://podoclinic.cl/#contact?plan=pro', null))
+        .toBe('https://podoclinic.cl/#contact');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the plan catalog
+ */
+
+import {
+  PLAN_IDS,
+  PLAN_OPTIONS,
+  applyPopularBadge,
+  formatPatientLimit,
+  formatUserLimit,
+  getComparisonTable,
+  getPlan,
+  getPlanHighlights,
+  getPlanOffers,
+  pricingPlans,
+} from '../plans';
+import { contactSchema } from '../validation';
+
+describe('plans', () => {
+  it('defines each plan once with numeric prices', () => {
+    expect(PLAN_IDS).toEqual(['basico', 'pro', 'premium']);
+    expect(new Set(PLAN_IDS).size).toBe(pricingPlans.length);
+    pricingPlans.forEach((plan) => {
+      expect(Number.isInteger(plan.monthlyPrice)).toBe(true);
+    });
+    expect(pricingPlans.filter((plan) => plan.popular).map((plan) => plan.id)).toEqual(['pro']);
+  });
+
+  it('drives the contact form plan options and validation', () => {
+    expect(PLAN_OPTIONS).toEqual(pricingPlans.map((plan) => ({ value: plan.id, label: plan.name })));
+    expect(contactSchema.shape.plan.safeParse('premium').success).toBe(true);
+    expect(contactSchema.shape.plan.safeParse('enterprise').success).toBe(false);
+  });
+
+  it('formats limits', () => {
+    expect(formatUserLimit(1)).toBe('1 usuario');
+    expect(formatUserLimit(5)).toBe('Hasta 5 usuarios');
+    expect(formatUserLimit('unlimited')).toBe('Usuarios ilimitados');
+    expect(formatPatientLimit(20)).toBe('Hasta 20 pacientes');
+    expect(formatPatientLimit('unlimited')).toBe('Pacientes ilimitados');
+  });
+
+  it('lists limits before features on plan cards', () => {
+    expect(getPlanHighlights(getPlan('basico')).slice(0, 3)).toEqual([
+      '1 usuario',
+      'Hasta 20 pacientes',
+      'Agenda de citas básica',
+    ]);
+  });
+
+  it('builds schema.org offers from the catalog', () => {
+    const offers = getPlanOffers('https://podoclinic.cl');
+
+    expect(offers).toHaveLength(pricingPlans.length);
+    expect(offers[1]).toMatchObject({
+      '@type': 'Offer',
+      name: 'Plan Pro',
+      price: 29990,
+      priceCurrency: 'CLP',
+      priceSpecification: { unitCode: 'MON' },
+    });
+    expect(offers[0]).not.toHaveProperty('priceSpecification');
+  });
+
+  it('moves or hides the popular badge for the pricing experiment', () => {
+    const popularIds = (variant: Parameters<typeof applyPopularBadge>[1]) =>
+      applyPopularBadge(pricingPlans, variant).filter((plan) => plan.popular).map((plan) => plan.id);
+
+    expect(popularIds('control')).toEqual(['pro']);
+    expect(popularIds('premium')).toEqual(['premium']);
+    expect(popularIds('hidden')).toEqual([]);
+  });
+
+  describe('getComparisonTable', () => {
+    const categories = getComparisonTable();
+    const findRow = (id: string) =>
+      categories.flatMap((category) => category.rows).find((row) => row.id === id)!;
+
+    it('groups rows into categories with one cell per plan', () => {
+      expect(categories.map((category) => category.label)).toContain('Facturación y reportes');
+      categories.forEach((category) => {
+        category.rows.forEach((row) => expect(row.cells).toHaveLength(pricingPlans.length));
+      });
+    });
+
+    it('answers which plans include electronic invoicing', () => {
+      expect(findRow('electronicInvoicing').cells.map((cell) => cell.type)).toEqual(['cross', 'cross', 'check']);
+      expect(findRow('whatsappReminders').cells.map((cell) => cell.type)).toEqual(['cross', 'check', 'check']);
+    });
+
+    it('renders limits and qualifiers as labels', () => {
+      expect(findRow('users').cells).toEqual([
+        { type: 'limit', label: '1' },
+        { type: 'limit', label: '5' },
+        { type: 'limit', label: 'Ilimitados' },
+      ]);
+      expect(findRow('phoneSupport').cells[2]).toEqual({ type: 'limit', label: '24/7' });
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for billing period pricing
+ */
+
+import { formatCLP, getDiscountPercent, getPlanPrice } from '../pricing';
+
+describe('pricing', () => {
+  it('formats CLP amounts with es-CL separators', () => {
+    expect(formatCLP(29990)).toBe('$29.990');
+    expect(formatCLP(305898)).toBe('$305.898');
+    expect(formatCLP(0)).toBe('$0');
+  });
+
+  it('bills the list price monthly', () => {
+    expect(getPlanPrice(29990, 'monthly')).toEqual({
+      period: 'monthly',
+      total: 29990,
+      monthlyEquivalent: 29990,
+      savings: 0,
+    });
+  });
+
+  it('applies the default annual discount', () => {
+    expect(getPlanPrice(29990, 'annual')).toEqual({
+      period: 'annual',
+      total: 305898,
+      monthlyEquivalent: 25492,
+      savings: 53982,
+    });
+  });
+
+  it('accepts a custom annual discount', () => {
+    expect(getPlanPrice(49990, 'annual', 0.2).total).toBe(479904);
+    expect(getPlanPrice(49990, 'annual', 0).savings).toBe(0);
+  });
+
+  it('rejects out of range discounts', () => {
+    expect(() => getPlanPrice(29990, 'annual', 1)).toThrow(RangeError);
+    expect(() => getPlanPrice(29990, 'annual', -0.1)).toThrow(RangeError);
+  });
+
+  it('rounds the discount for labels', () => {
+    expect(getDiscountPercent()).toBe(15);
+    expect(getDiscountPercent(0.175)).toBe(18);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for token bucket rate limiting
+ */
+
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getClientIp,
+  getRateLimitStore,
+  setRateLimitStore,
+  type RateLimitStore,
+} from '../rateLimit';
+
+describe('rateLimit', () => {
+  let store: RateLimitStore;
+
+  beforeEach(() => {
+    store = createMemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    setRateLimitStore(null);
+  });
+
+  describe('createRateLimiter', () => {
+    it('allows a burst up to capacity and then blocks', async () => {
+      const limiter = createRateLimiter('test', { capacity: 3, refillIntervalMs: 1000 }, store);
+
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await limiter.consume('client', 0));
+      }
+
+      expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+      expect(results[0].remaining).toBe(2);
+      expect(results[3].retryAfterMs).toBe(1000);
+    });
+
+    it('refills tokens over time', async () => {
+      const limiter = createRateLimiter('test', { capacity: 1, refillIntervalMs: 1000 }, store);
+
+      await limiter.consume('client', 0);
+      expect((await limiter.consume('client', 500)).allowed).toBe(false);
+      expect((await limiter.consume('client', 1000)).allowed).toBe(true);
+    });
+
+    it('never refills beyond capacity', async () => {
+      const limiter = createRateLimiter('test', { capacity: 2, refillIntervalMs: 1000 }, store);
+
+      await limiter.consume('client', 0);
+      const result = await limiter.consume('client', 60_000);
+
+      expect(result.remaining).toBe(1);
+    });
+
+    it('tracks keys and prefixes independently', async () => {
+      const ipLimiter = createRateLimiter('ip', { capacity: 1, refillIntervalMs: 1000 }, store);
+      const emailLimiter = createRateLimiter('email', { capacity: 1, refillIntervalMs: 1000 }, store);
+
+      expect((await ipLimiter.consume('a', 0)).allowed).toBe(true);
+      expect((await ipLimiter.consume('b', 0)).allowed).toBe(true);
+      expect((await emailLimiter.consume('a', 0)).allowed).toBe(true);
+      expect((await ipLimiter.consume('a', 0)).allowed).toBe(false);
+    });
+
+    it('uses the active store by default', async () => {
+      const customStore: RateLimitStore = {
+        get: jest.fn().mockResolvedValue(undefined),
+        set: jest.fn().mockResolvedValue(undefined),
+      };
+      setRateLimitStore(customStore);
+
+      await createRateLimiter('test', { capacity: 1, refillIntervalMs: 1000 }).consume('client', 0);
+
+      expect(getRateLimitStore()).toBe(customStore);
+      expect(customStore.set).toHaveBeenCalledWith('test:client', { tokens: 0, updatedAt: 0 }, 1000);
+    });
+  });
+
+  describe('createMemoryRateLimitStore', () => {
+    const config = { capacity: 2, refillIntervalMs: 1000 };
+
+    it('drops buckets once they are full again', async () => {
+      const limiter = createRateLimiter('test', config, store);
+
+      await limiter.consume('a', 0);
+      await limiter.consume('b', 0);
+      await limiter.consume('b', 0);
+      expect(await store.get('test:a')).toBeDefined();
+
+      // a is full again at 1000 and b at 2000
+      await limiter.consume('c', 1500);
+      expect(await store.get('test:a')).toBeUndefined();
+      expect(await store.get('test:b')).toEqual({ tokens: 0, updatedAt: 0 });
+    });
+
+    it('evicts the least recently updated buckets beyond the cap', async () => {
+      const limiter = createRateLimiter('test', config, createMemoryRateLimitStore({ maxBuckets: 2 }));
+
+      await limiter.consume('a', 0);
+      await limiter.consume('a', 0);
+      await limiter.consume('b', 0);
+      await limiter.consume('a', 0);
+      await limiter.consume('c', 0);
+
+      // b was evicted, so it starts over with a full bucket; a is still limited
+      expect((await limiter.consume('a', 0)).allowed).toBe(false);
+      expect((await limiter.consume('b', 0)).remaining).toBe(1);
+    });
+  });
+
+  describe('getClientIp', () => {
+    const headers = new Headers({ 'x-forwarded-for': '198.51.100.7, 203.0.113.5, 10.0.0.1', 'x-real-ip': '10.0.0.2' });
+
+    it('prefers the IP provided by the platform', () => {
+      expect(getClientIp({ headers, ip: '192.0.2.1' })).toBe('192.0.2.1');
+    });
+
+    it('uses the x-forwarded-for entry added by the trusted proxies', () => {
+      expect(getClientIp({ headers })).toBe('10.0.0.1');
+      expect(getClientIp({ headers }, 2)).toBe('203.0.113.5');
+    });
+
+    it('ignores addresses spoofed ahead of the proxy entry', () => {
+      const spoofed = new Headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.5' });
+      expect(getClientIp({ headers: spoofed })).toBe('203.0.113.5');
+    });
+
+    it('falls back to x-real-ip and then unknown', () => {
+      expect(getClientIp({ headers }, 0)).toBe('10.0.0.2');
+      expect(getClientIp({ headers: new Headers({ 'x-real-ip': '10.0.0.2' }) })).toBe('10.0.0.2');
+      expect(getClientIp({ headers: new Headers() })).toBe('unknown');
+    });
+  });
+});
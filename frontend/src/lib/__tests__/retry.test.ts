@@ -0,0 +1,69 @@
+/**
+ * Tests for generic retry with exponential backoff
+ */
+
+import { getBackoffDelay, retryWithBackoff, type RetryConfig } from '../retry';
+
+const fastConfig: RetryConfig = {
+  maxRetries: 2,
+  baseDelay: 1,
+  maxDelay: 5,
+  backoffMultiplier: 2,
+};
+
+describe('retry', () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  describe('getBackoffDelay', () => {
+    it('grows exponentially and caps at maxDelay', () => {
+      const config = { maxRetries: 5, baseDelay: 100, maxDelay: 500, backoffMultiplier: 2 };
+
+      expect([0, 1, 2, 3].map((attempt) => getBackoffDelay(attempt, config))).toEqual([100, 200, 400, 500]);
+    });
+  });
+
+  describe('retryWithBackoff', () => {
+    it('retries until the operation succeeds', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new Error('first'))
+        .mockResolvedValue('ok');
+
+      await expect(retryWithBackoff(operation, fastConfig)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws the last error after max retries', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('always'));
+
+      await expect(retryWithBackoff(operation, fastConfig)).rejects.toThrow('always');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops immediately when isRetryable returns false', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('fatal'));
+
+      await expect(
+        retryWithBackoff(operation, fastConfig, { isRetryable: () => false })
+      ).rejects.toThrow('fatal');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('maps errors before throwing', async () => {
+      const operation = jest.fn().mockRejectedValue('plain string');
+
+      await expect(
+        retryWithBackoff(operation, fastConfig, {
+          mapError: (error) => new Error(`mapped: ${error.message}`),
+        })
+      ).rejects.toThrow('mapped: plain string');
+    });
+  });
+});
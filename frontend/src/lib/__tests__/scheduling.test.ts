@@ -0,0 +1,155 @@
+/**
+ * Tests for demo scheduling utilities
+ */
+
+import {
+  availabilitySchema,
+  findAvailableSlot,
+  formatSlotTime,
+  generateSlots,
+  getZonedDate,
+  groupSlotsByDate,
+  slotsOverlap,
+  zonedTimeToUtc,
+  type WeeklyAvailability,
+} from '../scheduling';
+
+const TZ = 'America/Santiago';
+
+function createAvailability(overrides: Partial<WeeklyAvailability> = {}): WeeklyAvailability {
+  return availabilitySchema.parse({
+    timeZone: TZ,
+    slotMinutes: 30,
+    minNoticeHours: 0,
+    daysAhead: 7,
+    weekly: {
+      monday: [{ start: '09:00', end: '10:30' }],
+      wednesday: [{ start: '15:00', end: '16:00' }],
+    },
+    ...overrides,
+  });
+}
+
+describe('scheduling', () => {
+  describe('zonedTimeToUtc', () => {
+    it('uses the summer offset (UTC-3)', () => {
+      expect(zonedTimeToUtc('2026-01-12', '09:00', TZ).toISOString()).toBe('2026-01-12T12:00:00.000Z');
+    });
+
+    it('uses the winter offset (UTC-4)', () => {
+      expect(zonedTimeToUtc('2026-07-13', '09:00', TZ).toISOString()).toBe('2026-07-13T13:00:00.000Z');
+    });
+
+    it('handles the days around the April DST change', () => {
+      expect(zonedTimeToUtc('2026-04-04', '12:00', TZ).toISOString()).toBe('2026-04-04T15:00:00.000Z');
+      expect(zonedTimeToUtc('2026-04-05', '12:00', TZ).toISOString()).toBe('2026-04-05T16:00:00.000Z');
+    });
+  });
+
+  describe('getZonedDate', () => {
+    it('returns the local calendar date', () => {
+      // 02:00 UTC is still the previous evening in Santiago
+      expect(getZonedDate(new Date('2026-01-13T02:00:00Z'), TZ)).toBe('2026-01-12');
+    });
+  });
+
+  describe('availabilitySchema', () => {
+    it('applies defaults', () => {
+      const availability = availabilitySchema.parse({ weekly: {} });
+
+      expect(availability).toMatchObject({ timeZone: TZ, slotMinutes: 30, daysAhead: 14, blackoutDates: [] });
+    });
+
+    it('rejects invalid ranges and time zones', () => {
+      expect(availabilitySchema.safeParse({ weekly: { monday: [{ start: '10:00', end: '09:00' }] } }).success).toBe(false);
+      expect(availabilitySchema.safeParse({ weekly: { funday: [] } }).success).toBe(false);
+      expect(availabilitySchema.safeParse({ timeZone: 'Mars/Olympus', weekly: {} }).success).toBe(false);
+    });
+  });
+
+  describe('generateSlots', () => {
+    // Sunday 2026-01-11 08:00 in Santiago
+    const now = new Date('2026-01-11T11:00:00Z');
+
+    it('generates slots for each configured weekday', () => {
+      const slots = generateSlots(createAvailability(), [], now);
+
+      expect(slots.map((slot) => slot.start)).toEqual([
+        '2026-01-12T12:00:00.000Z',
+        '2026-01-12T12:30:00.000Z',
+        '2026-01-12T13:00:00.000Z',
+        '2026-01-14T18:00:00.000Z',
+        '2026-01-14T18:30:00.000Z',
+      ]);
+      expect(slots[0].end).toBe('2026-01-12T12:30:00.000Z');
+    });
+
+    it('respects the minimum notice', () => {
+      const slots = generateSlots(createAvailability({ minNoticeHours: 26 }), [], now);
+
+      expect(slots[0].start).toBe('2026-01-12T13:00:00.000Z');
+    });
+
+    it('skips blackout dates', () => {
+      const slots = generateSlots(createAvailability({ blackoutDates: ['2026-01-12'] }), [], now);
+
+      expect(slots.every((slot) => !slot.start.startsWith('2026-01-12'))).toBe(true);
+    });
+
+    it('excludes booked and overlapping slots', () => {
+      const slots = generateSlots(
+        createAvailability(),
+        [{ start: '2026-01-12T12:15:00.000Z', end: '2026-01-12T12:45:00.000Z' }],
+        now
+      );
+
+      expect(slots.map((slot) => slot.start)).not.toContain('2026-01-12T12:00:00.000Z');
+      expect(slots.map((slot) => slot.start)).not.toContain('2026-01-12T12:30:00.000Z');
+      expect(slots.map((slot) => slot.start)).toContain('2026-01-12T13:00:00.000Z');
+    });
+  });
+
+  describe('findAvailableSlot', () => {
+    const now = new Date('2026-01-11T11:00:00Z');
+
+    it('finds an open slot regardless of ISO offset notation', () => {
+      expect(findAvailableSlot('2026-01-12T09:00:00-03:00', createAvailability(), [], now)).toEqual({
+        start: '2026-01-12T12:00:00.000Z',
+        end: '2026-01-12T12:30:00.000Z',
+      });
+    });
+
+    it('returns null for times outside availability', () => {
+      expect(findAvailableSlot('2026-01-12T12:10:00.000Z', createAvailability(), [], now)).toBeNull();
+    });
+  });
+
+  describe('helpers', () => {
+    it('detects overlaps but not touching slots', () => {
+      const a = { start: '2026-01-12T12:00:00Z', end: '2026-01-12T12:30:00Z' };
+
+      expect(slotsOverlap(a, { start: '2026-01-12T12:29:00Z', end: '2026-01-12T13:00:00Z' })).toBe(true);
+      expect(slotsOverlap(a, { start: '2026-01-12T12:30:00Z', end: '2026-01-12T13:00:00Z' })).toBe(false);
+    });
+
+    it('groups slots by local date', () => {
+      const groups = groupSlotsByDate(
+        [
+          { start: '2026-01-12T12:00:00Z', end: '2026-01-12T12:30:00Z' },
+          { start: '2026-01-13T02:00:00Z', end: '2026-01-13T02:30:00Z' },
+          { start: '2026-01-13T12:00:00Z', end: '2026-01-13T12:30:00Z' },
+        ],
+        TZ
+      );
+
+      expect(groups.map((group) => [group.date, group.slots.length])).toEqual([
+        ['2026-01-12', 2],
+        ['2026-01-13', 1],
+      ]);
+    });
+
+    it('formats times in the scheduling time zone', () => {
+      expect(formatSlotTime('2026-01-12T12:00:00Z', TZ)).toBe('09:00');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for the share image copy
+ */
+
+import { getContent } from '../content';
+import { setContentProvider } from '../contentProvider';
+import {
+  HOME_SHARE_IMAGE_ID,
+  getHomeShareImageId,
+  getHomeShareImageIds,
+  getHomeVariantShareCard,
+  getLegalShareCard,
+  getShareCardAlt,
+} from '../shareCards';
+
+describe('share cards', () => {
+  beforeEach(() => {
+    setContentProvider({ name: 'test', getContent: async (locale) => getContent(locale) });
+  });
+
+  afterEach(() => {
+    setContentProvider(null);
+  });
+
+  it('uses the Hero headline for the landing page', async () => {
+    const { hero } = getContent('en');
+    const card = await getHomeVariantShareCard('en', HOME_SHARE_IMAGE_ID);
+
+    expect(card).toMatchObject({ title: hero.titlePrefix, highlight: hero.titleHighlight });
+    expect(getShareCardAlt(card)).toBe(`${hero.titlePrefix} ${hero.titleHighlight}`);
+  });
+
+  it('uses the headline published through the content provider', async () => {
+    const bundled = getContent('es');
+    setContentProvider({
+      name: 'cms',
+      getContent: async () => ({ ...bundled, hero: { ...bundled.hero, titlePrefix: 'Agenda llena,', titleHighlight: 'cero papeles' } }),
+    });
+
+    expect(await getHomeVariantShareCard('es', HOME_SHARE_IMAGE_ID)).toMatchObject({
+      title: 'Agenda llena,',
+      highlight: 'cero papeles',
+    });
+  });
+
+  it('shows the plan name and monthly price for plan share links', async () => {
+    expect(await getHomeVariantShareCard('es', 'pro')).toMatchObject({ title: 'Plan Pro', highlight: '$29.990/mes' });
+    expect((await getHomeVariantShareCard('es', 'basico')).highlight).toBe('Gratuito');
+  });
+
+  it('has one image variant per plan plus the default card', () => {
+    expect(getHomeShareImageIds()).toEqual(['home', 'basico', 'pro', 'premium']);
+    expect(getHomeShareImageId('premium')).toBe('premium');
+    expect(getHomeShareImageId('gold')).toBe(HOME_SHARE_IMAGE_ID);
+    expect(getHomeShareImageId(['pro', 'premium'])).toBe(HOME_SHARE_IMAGE_ID);
+  });
+
+  it('shortens long descriptions', () => {
+    const card = getLegalShareCard('es', { title: 'Términos', description: 'a'.repeat(300) });
+
+    expect(card.description).toHaveLength(160);
+    expect(card.description?.endsWith('…')).toBe(true);
+  });
+});
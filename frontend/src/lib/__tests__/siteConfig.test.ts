@@ -0,0 +1,33 @@
+/**
+ * Tests for the SEO site configuration
+ */
+
+import { getLanguageAlternates, getPageUrls, siteConfig } from '../siteConfig';
+
+describe('siteConfig', () => {
+  it('lists the landing page and every legal page', () => {
+    expect(siteConfig.routes.map((route) => route.path)).toEqual(['', '/privacy', '/terms', '/cookies']);
+    expect(siteConfig.url).not.toMatch(/\/$/);
+  });
+
+  it('builds hreflang alternates with x-default', () => {
+    expect(getLanguageAlternates('/terms')).toEqual({
+      'es-CL': `${siteConfig.url}/es/terms`,
+      en: `${siteConfig.url}/en/terms`,
+      'pt-BR': `${siteConfig.url}/pt/terms`,
+      'x-default': `${siteConfig.url}/es/terms`,
+    });
+    expect(getLanguageAlternates('', ['en'])).toEqual({ en: `${siteConfig.url}/en` });
+  });
+
+  it('uses the same URL for the canonical link and OpenGraph', () => {
+    const urls = getPageUrls('pt', '/privacy');
+
+    expect(urls.alternates.canonical).toBe(`${siteConfig.url}/pt/privacy`);
+    expect(urls.openGraph).toEqual({
+      url: `${siteConfig.url}/pt/privacy`,
+      locale: 'pt_BR',
+      alternateLocale: ['es_CL', 'en_US'],
+    });
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Tests for contact form bot detection
+ */
+
+import { detectSpam, HONEYPOT_FIELD, MIN_SUBMIT_TIME_MS, STARTED_AT_FIELD } from '../spamProtection';
+
+describe('detectSpam', () => {
+  const now = 1_000_000;
+
+  it('accepts a human-paced submission with an empty honeypot', () => {
+    expect(detectSpam({ [HONEYPOT_FIELD]: '', [STARTED_AT_FIELD]: now - MIN_SUBMIT_TIME_MS }, now)).toBeNull();
+  });
+
+  it('flags a filled honeypot', () => {
+    expect(detectSpam({ [HONEYPOT_FIELD]: 'https://spam.example', [STARTED_AT_FIELD]: 0 }, now)).toBe('honeypot');
+  });
+
+  it('ignores a whitespace-only honeypot', () => {
+    expect(detectSpam({ [HONEYPOT_FIELD]: '  ', [STARTED_AT_FIELD]: 0 }, now)).toBeNull();
+  });
+
+  it('flags submissions faster than the minimum time', () => {
+    expect(detectSpam({ [STARTED_AT_FIELD]: now - MIN_SUBMIT_TIME_MS + 1 }, now)).toBe('too_fast');
+  });
+
+  it('flags a missing or invalid start time', () => {
+    expect(detectSpam({}, now)).toBe('too_fast');
+    expect(detectSpam({ [STARTED_AT_FIELD]: 'yesterday' }, now)).toBe('too_fast');
+  });
+});
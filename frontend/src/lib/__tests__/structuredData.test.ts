@@ -0,0 +1,104 @@
+/**
+ * Tests for the JSON-LD structured data
+ */
+
+import { getContent } from '../content';
+import { LOCALES } from '../i18n';
+import { pricingPlans } from '../plans';
+import { siteConfig } from '../siteConfig';
+import {
+  getFaqPageJsonLd,
+  getLandingJsonLd,
+  serializeJsonLd,
+  type JsonLdNode,
+} from '../structuredData';
+
+// Properties schema.org consumers (Google rich results) require per type
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  SoftwareApplication: ['name', 'offers', 'applicationCategory', 'operatingSystem'],
+  Offer: ['price', 'priceCurrency'],
+  UnitPriceSpecification: ['price', 'priceCurrency'],
+  Organization: ['name', 'url'],
+  ContactPoint: ['contactType'],
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+};
+
+/**
+ * Problems found in a node and every typed node nested in it
+ */
+function validate(node: unknown, path = '$'): string[] {
+  if (Array.isArray(node)) {
+    return node.flatMap((item, index) => validate(item, `${path}[${index}]`));
+  }
+  if (!node || typeof node !== 'object') {
+    return [];
+  }
+
+  const record = node as Record<string, unknown>;
+  const type = record['@type'];
+  const missing =
+    typeof type === 'string'
+      ? (REQUIRED_PROPERTIES[type] ?? []).filter((property) => record[property] === undefined || record[property] === '')
+      : [];
+
+  return [
+    ...missing.map((property) => `${path} (${type}) is missing ${property}`),
+    ...Object.entries(record).flatMap(([key, value]) => validate(value, `${path}.${key}`)),
+  ];
+}
+
+function nodeOfType(nodes: JsonLdNode[], type: string): JsonLdNode | undefined {
+  return nodes.find((node) => node['@type'] === type);
+}
+
+describe('getLandingJsonLd', () => {
+  it.each(LOCALES)('publishes valid structured data for %s', (locale) => {
+    const jsonLd = getLandingJsonLd({ locale, content: getContent(locale) });
+
+    expect(jsonLd['@context']).toBe('https://schema.org');
+    expect(validate(jsonLd['@graph'])).toEqual([]);
+  });
+
+  it('lists one offer per plan with localized names', () => {
+    const content = getContent('en');
+    const { '@graph': graph } = getLandingJsonLd({ locale: 'en', content });
+    const offers = nodeOfType(graph, 'SoftwareApplication')?.offers as JsonLdNode[];
+
+    expect(offers).toHaveLength(pricingPlans.length);
+    expect(offers.map((offer) => offer.name)).toEqual([content.plans.basico.name, content.plans.pro.name, content.plans.premium.name]);
+    expect(offers[1]).toMatchObject({ price: 29990, priceCurrency: 'CLP', url: `${siteConfig.url}/en#pricing` });
+  });
+
+  it('links the product to the organization from the footer details', () => {
+    const { '@graph': graph } = getLandingJsonLd({ locale: 'es', content: getContent('es') });
+    const organization = nodeOfType(graph, 'Organization');
+
+    expect(organization).toMatchObject({ name: 'Podoclinic', email: 'contacto@podoclinic.cl', telephone: '+56912345678' });
+    expect(nodeOfType(graph, 'SoftwareApplication')?.publisher).toEqual({ '@id': organization?.['@id'] });
+  });
+
+  it('adds an FAQPage only when the locale has FAQ content', () => {
+    const content = getContent('es');
+    const faq = [{ question: '¿Puedo probarlo gratis?', answer: 'Sí, el plan Básico es gratuito.' }];
+
+    expect(nodeOfType(getLandingJsonLd({ locale: 'es', content })['@graph'], 'FAQPage')).toBeUndefined();
+
+    const { '@graph': graph } = getLandingJsonLd({ locale: 'es', content: { ...content, faq } });
+    expect(validate(graph)).toEqual([]);
+    expect(nodeOfType(graph, 'FAQPage')).toEqual(getFaqPageJsonLd(faq));
+  });
+});
+
+describe('serializeJsonLd', () => {
+  it('cannot close the script element', () => {
+    const content = getContent('es');
+    const faq = [{ question: '</script><script>alert(1)</script>', answer: 'No' }];
+
+    const json = serializeJsonLd(getLandingJsonLd({ locale: 'es', content: { ...content, faq } }));
+
+    expect(json).not.toContain('</script>');
+    expect(JSON.parse(json)['@graph'][2].mainEntity[0].name).toBe(faq[0].question);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for shared contact lead validation
+ */
+
+import {
+  CHILEAN_REGIONS,
+  contactSchema,
+  emailSchema,
+  formatChileanPhone,
+  getFieldErrors,
+  isValidChileanMobile,
+  nameSchema,
+  normalizeChileanPhone,
+  whatsappSchema,
+} from '../validation';
+
+describe('validation', () => {
+  describe('normalizeChileanPhone', () => {
+    it.each([
+      ['912345678', '+56912345678'],
+      ['+56912345678', '+56912345678'],
+      ['56912345678', '+56912345678'],
+      ['0056912345678', '+56912345678'],
+      ['+56 9 1234 5678', '+56912345678'],
+      ['9 1234-5678', '+56912345678'],
+      ['(+56) 9.1234.5678', '+56912345678'],
+      ['  912345678  ', '+56912345678'],
+    ])('normalizes %p to %p', (input, expected) => {
+      expect(normalizeChileanPhone(input)).toBe(expected);
+    });
+
+    it.each([
+      ['', 'empty'],
+      ['221234567', 'Santiago landline'],
+      ['+56221234567', 'landline with country code'],
+      ['812345678', 'does not start with 9'],
+      ['91234567', 'too short'],
+      ['9123456789', 'too long'],
+      ['+54912345678', 'foreign country code'],
+      ['+5691234567a', 'contains letters'],
+      ['++56912345678', 'double plus'],
+      ['56 9123 4567', 'prefix without enough digits'],
+    ])('rejects %p (%s)', (input) => {
+      expect(normalizeChileanPhone(input)).toBeNull();
+    });
+  });
+
+  describe('isValidChileanMobile', () => {
+    it('accepts mobiles and rejects landlines', () => {
+      expect(isValidChileanMobile('+56 9 8765 4321')).toBe(true);
+      expect(isValidChileanMobile('322123456')).toBe(false);
+    });
+  });
+
+  describe('formatChileanPhone', () => {
+    it('formats valid mobiles for display', () => {
+      expect(formatChileanPhone('912345678')).toBe('+56 9 1234 5678');
+      expect(formatChileanPhone('+56912345678')).toBe('+56 9 1234 5678');
+    });
+
+    it('returns invalid input unchanged', () => {
+      expect(formatChileanPhone('221234567')).toBe('221234567');
+      expect(formatChileanPhone('abc')).toBe('abc');
+    });
+  });
+
+  describe('nameSchema', () => {
+    it.each(['Ana', 'María José Pérez', 'Núñez', "O'Higgins", 'Ana-Luisa Muñoz', 'Müller'])(
+      'accepts %p',
+      (name) => {
+        expect(nameSchema.safeParse(name).success).toBe(true);
+      }
+    );
+
+    it('trims and collapses whitespace', () => {
+      expect(nameSchema.parse('  María   José  ')).toBe('María José');
+    });
+
+    it.each([
+      ['A', 'El nombre debe tener al menos 2 caracteres'],
+      ['   ', 'El nombre debe tener al menos 2 caracteres'],
+      ['A'.repeat(51), 'El nombre no puede exceder 50 caracteres'],
+      ['Juan123', 'El nombre solo puede contener letras y espacios'],
+      ['Juan@Pérez', 'El nombre solo puede contener letras y espacios'],
+      ['-Juan', 'El nombre solo puede contener letras y espacios'],
+      ["Juan ''Pérez", 'El nombre solo puede contener letras y espacios'],
+    ])('rejects %p', (name, message) => {
+      const result = nameSchema.safeParse(name);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(message);
+    });
+  });
+
+  describe('emailSchema', () => {
+    it('trims and lowercases', () => {
+      expect(emailSchema.parse('  Maria@Clinica.CL ')).toBe('maria@clinica.cl');
+    });
+
+    it.each([
+      ['', 'El email es requerido'],
+      ['maria', 'Por favor ingresa un email válido'],
+      ['maria@', 'Por favor ingresa un email válido'],
+      ['maria@clinica', 'Por favor ingresa un email válido'],
+      [`${'a'.repeat(250)}@x.cl`, 'El email no puede exceder 254 caracteres'],
+    ])('rejects %p', (email, message) => {
+      const result = emailSchema.safeParse(email);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(message);
+    });
+  });
+
+  describe('whatsappSchema', () => {
+    it('normalizes to E.164', () => {
+      expect(whatsappSchema.parse('9 1234 5678')).toBe('+56912345678');
+    });
+
+    it('requires a value', () => {
+      const result = whatsappSchema.safeParse('');
+      expect(result.error?.issues[0].message).toBe('El número de WhatsApp es requerido');
+    });
+
+    it('rejects landlines', () => {
+      expect(whatsappSchema.safeParse('221234567').success).toBe(false);
+    });
+  });
+
+  describe('contactSchema', () => {
+    const qualification = { clinicName: 'Clínica Los Andes', professionals: '2-5', region: 'RM' };
+
+    it('parses and normalizes a complete lead', () => {
+      expect(
+        contactSchema.parse({
+          fullName: ' María  González ',
+          email: 'MARIA@clinica.cl',
+          whatsapp: '+56 9 1234 5678',
+          clinicName: ' Clínica Los Andes ',
+          professionals: '2-5',
+          region: 'RM',
+          city: ' Santiago ',
+          currentSoftware: 'Agenda en papel',
+          plan: 'pro',
+        })
+      ).toEqual({
+        fullName: 'María González',
+        email: 'maria@clinica.cl',
+        whatsapp: '+56912345678',
+        clinicName: 'Clínica Los Andes',
+        professionals: '2-5',
+        region: 'RM',
+        city: 'Santiago',
+        currentSoftware: 'Agenda en papel',
+        plan: 'pro',
+      });
+    });
+
+    it('is idempotent on already normalized data', () => {
+      const lead = { fullName: 'María González', email: 'maria@clinica.cl', whatsapp: '+56912345678', ...qualification };
+      expect(contactSchema.parse(contactSchema.parse(lead))).toEqual(lead);
+    });
+
+    it('drops empty optional fields', () => {
+      const result = contactSchema.parse({
+        fullName: 'María González',
+        email: 'maria@clinica.cl',
+        whatsapp: '+56912345678',
+        ...qualification,
+        city: '  ',
+        currentSoftware: '',
+        plan: '',
+      });
+
+      expect(result.city).toBeUndefined();
+      expect(result.currentSoftware).toBeUndefined();
+      expect(result.plan).toBeUndefined();
+    });
+
+    it('rejects unknown select values', () => {
+      const result = contactSchema.safeParse({
+        fullName: 'María González',
+        email: 'maria@clinica.cl',
+        whatsapp: '+56912345678',
+        clinicName: 'Clínica Los Andes',
+        professionals: '50',
+        region: 'XX',
+        plan: 'enterprise',
+      });
+
+      expect(result.success).toBe(false);
+      expect(Object.keys(getFieldErrors(result.error!)).sort()).toEqual(['plan', 'professionals', 'region']);
+    });
+
+    it('requires a Chilean region only for leads from Chile', () => {
+      const lead = {
+        fullName: 'Lucía Torres',
+        email: 'lucia@clinica.pe',
+        whatsapp: '912 345 678',
+        phoneCountry: 'PE',
+        clinicName: 'Podología Miraflores',
+        professionals: '1',
+      };
+
+      expect(contactSchema.parse(lead).region).toBeUndefined();
+      expect(contactSchema.parse({ ...lead, region: ' Lima ' }).region).toBe('Lima');
+
+      const tooLong = contactSchema.safeParse({ ...lead, region: 'a'.repeat(61) });
+      expect(getFieldErrors(tooLong.error!)).toEqual({ region: 'La provincia o estado no puede exceder 60 caracteres' });
+
+      const chilean = contactSchema.safeParse({ ...lead, whatsapp: '+56912345678', phoneCountry: 'CL', region: 'Lima' });
+      expect(getFieldErrors(chilean.error!)).toEqual({ region: 'Selecciona tu región' });
+    });
+
+    it('validates the WhatsApp number for the selected country', () => {
+      const lead = { fullName: 'María González', email: 'maria@clinica.cl', ...qualification };
+
+      expect(contactSchema.parse({ ...lead, whatsapp: '300 123 4567', phoneCountry: 'CO' })).toMatchObject({
+        whatsapp: '+573001234567',
+        phoneCountry: 'CO',
+      });
+
+      const result = contactSchema.safeParse({ ...lead, whatsapp: '912345678', phoneCountry: 'MX' });
+      expect(result.success).toBe(false);
+      expect(getFieldErrors(result.error!)).toEqual({
+        whatsapp: 'Ingresa un número de WhatsApp válido de México (ej: 5512345678)',
+      });
+    });
+
+    it('rejects unsupported phone countries', () => {
+      const result = contactSchema.safeParse({
+        fullName: 'María González',
+        email: 'maria@clinica.cl',
+        whatsapp: '+56912345678',
+        phoneCountry: 'BR',
+        ...qualification,
+      });
+
+      expect(result.success).toBe(false);
+      expect(Object.keys(getFieldErrors(result.error!))).toEqual(['phoneCountry']);
+    });
+
+    it('lists all 16 Chilean regions', () => {
+      expect(CHILEAN_REGIONS).toHaveLength(16);
+      expect(new Set(CHILEAN_REGIONS.map((region) => region.value)).size).toBe(16);
+    });
+  });
+
+  describe('getFieldErrors', () => {
+    it('keeps the first message per field', () => {
+      const result = contactSchema.safeParse({ fullName: '1', email: '', whatsapp: '', clinicName: '' });
+      expect(result.success).toBe(false);
+
+      expect(getFieldErrors(result.error!)).toEqual({
+        fullName: 'El nombre debe tener al menos 2 caracteres',
+        email: 'El email es requerido',
+        whatsapp: 'El número de WhatsApp es requerido',
+        clinicName: 'El nombre de la clínica debe tener al menos 2 caracteres',
+        professionals: 'Selecciona cuántos profesionales trabajan en tu clínica',
+        region: 'Selecciona tu región',
+      });
+    });
+  });
+});
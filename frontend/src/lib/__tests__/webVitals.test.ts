@@ -0,0 +1,164 @@
+/**
+ * Tests for Web Vitals sampling, reporting and percentiles
+ */
+
+import {
+  createWebVitalsReporter,
+  getDeviceClass,
+  getWebVitalAttribution,
+  percentile,
+  rateWebVital,
+  summarizeWebVitals,
+  toWebVitalSample,
+  webVitalsBatchSchema,
+  type WebVitalMetric,
+  type WebVitalSample,
+} from '../webVitals';
+
+function metric(overrides: Partial<WebVitalMetric> = {}): WebVitalMetric {
+  return { name: 'LCP', value: 2100.4, id: 'v4-1700000000000-123', navigationType: 'navigate', entries: [], ...overrides };
+}
+
+function sample(overrides: Partial<WebVitalSample> = {}): WebVitalSample {
+  return {
+    name: 'LCP',
+    value: 2000,
+    rating: 'good',
+    id: `v4-${Math.random()}`,
+    path: '/es',
+    deviceClass: 'mobile',
+    timestamp: '2025-09-01T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('rateWebVital', () => {
+  it('uses the published thresholds', () => {
+    expect(rateWebVital('LCP', 2500)).toBe('good');
+    expect(rateWebVital('LCP', 2501)).toBe('needs-improvement');
+    expect(rateWebVital('INP', 501)).toBe('poor');
+    expect(rateWebVital('CLS', 0.05)).toBe('good');
+  });
+});
+
+describe('getDeviceClass', () => {
+  it('splits viewports at the md and lg breakpoints', () => {
+    expect(getDeviceClass(375)).toBe('mobile');
+    expect(getDeviceClass(768)).toBe('tablet');
+    expect(getDeviceClass(1024)).toBe('desktop');
+  });
+});
+
+describe('getWebVitalAttribution', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('describes the LCP element and resource without query strings', () => {
+    document.body.innerHTML = '<section id="hero"><div class="grid gap-4"><img src="/hero.webp" /></div></section>';
+    const entry = { element: document.querySelector('img'), url: 'https://podoclinic.cl/hero.webp?token=secret' };
+
+    expect(getWebVitalAttribution('LCP', [entry as unknown as PerformanceEntry])).toEqual({
+      target: 'section#hero>div.grid>img',
+      resource: 'https://podoclinic.cl/hero.webp',
+    });
+  });
+
+  it('uses the largest layout shift and the slowest interaction', () => {
+    document.body.innerHTML = '<header></header><button class="cta">Demo</button>';
+    const header = document.querySelector('header');
+    const button = document.querySelector('button');
+
+    const shifts = [
+      { value: 0.01, sources: [{ node: button }] },
+      { value: 0.2, sources: [{ node: header }] },
+    ] as unknown as PerformanceEntry[];
+    const interactions = [
+      { name: 'keydown', duration: 40, target: header },
+      { name: 'click', duration: 320, target: button },
+    ] as unknown as PerformanceEntry[];
+
+    expect(getWebVitalAttribution('CLS', shifts)).toEqual({ target: 'header' });
+    expect(getWebVitalAttribution('INP', interactions)).toEqual({ target: 'button.cta', eventType: 'click' });
+    expect(getWebVitalAttribution('TTFB', [])).toBeUndefined();
+  });
+});
+
+describe('toWebVitalSample', () => {
+  it('builds a valid sample for tracked metrics', () => {
+    const result = toWebVitalSample(metric(), new Date('2025-09-01T12:00:00Z'));
+
+    expect(result).toMatchObject({ name: 'LCP', value: 2100, rating: 'good', path: '/', deviceClass: 'desktop' });
+    expect(webVitalsBatchSchema.safeParse({ metrics: [result] }).success).toBe(true);
+    expect(toWebVitalSample(metric({ name: 'CLS', value: 0.123456 }))?.value).toBe(0.1235);
+  });
+
+  it('ignores metrics the collector does not track', () => {
+    expect(toWebVitalSample(metric({ name: 'FID' }))).toBeNull();
+  });
+});
+
+describe('createWebVitalsReporter', () => {
+  let transport: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transport = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends queued metrics with a beacon when the page is hidden', () => {
+    const reporter = createWebVitalsReporter({ transport, isEnabled: () => true });
+
+    reporter.report(metric());
+    reporter.report(metric({ name: 'TTFB', value: 300, id: 'v4-2' }));
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport).toHaveBeenCalledWith(expect.any(String), { beacon: true });
+    expect(JSON.parse(transport.mock.calls[0][0]).metrics).toHaveLength(2);
+    jest.runOnlyPendingTimers();
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops metrics while tracking is not allowed', () => {
+    const reporter = createWebVitalsReporter({ transport, isEnabled: () => false });
+
+    reporter.report(metric());
+    reporter.flush();
+
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
+
+describe('summarizeWebVitals', () => {
+  it('computes nearest-rank percentiles', () => {
+    const values = Array.from({ length: 20 }, (_, index) => (index + 1) * 100);
+
+    expect(percentile(values, 50)).toBe(1000);
+    expect(percentile(values, 75)).toBe(1500);
+    expect(percentile(values, 95)).toBe(1900);
+    expect(percentile([], 75)).toBe(0);
+  });
+
+  it('groups samples per page, device class and metric', () => {
+    const summary = summarizeWebVitals([
+      sample({ value: 1800 }),
+      sample({ value: 2200 }),
+      sample({ value: 5000, rating: 'poor' }),
+      sample({ value: 1200, deviceClass: 'desktop' }),
+      sample({ name: 'CLS', value: 0.02 }),
+      sample({ path: '/en', value: 900 }),
+    ]);
+
+    expect(summary).toEqual([
+      { path: '/en', deviceClass: 'mobile', name: 'LCP', count: 1, p50: 900, p75: 900, p95: 900, good: 1 },
+      { path: '/es', deviceClass: 'mobile', name: 'LCP', count: 3, p50: 2200, p75: 5000, p95: 5000, good: 0.67 },
+      { path: '/es', deviceClass: 'mobile', name: 'CLS', count: 1, p50: 0.02, p75: 0.02, p95: 0.02, good: 1 },
+      { path: '/es', deviceClass: 'desktop', name: 'LCP', count: 1, p50: 1200, p75: 1200, p95: 1200, good: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for Web Vitals storage adapters
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileWebVitalsStorage, createMemoryWebVitalsStorage } from '../webVitalsStorage';
+import type { WebVitalSample } from '../webVitals';
+
+function sample(id: string, value = 0.05): WebVitalSample {
+  return {
+    name: 'CLS',
+    value,
+    rating: 'good',
+    id,
+    path: '/es',
+    deviceClass: 'mobile',
+    timestamp: '2025-09-01T12:00:00.000Z',
+  };
+}
+
+describe('webVitalsStorage', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vitals-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('keeps only the latest value per sample id', async () => {
+    const storage = createMemoryWebVitalsStorage();
+
+    await storage.append([sample('a'), sample('b')]);
+    await storage.append([sample('a', 0.2), sample('c'), sample('c', 0.3)]);
+
+    expect((await storage.list()).map(({ id, value }) => [id, value])).toEqual([
+      ['a', 0.2],
+      ['b', 0.05],
+      ['c', 0.3],
+    ]);
+  });
+
+  it('drops the oldest samples beyond the cap in the file', async () => {
+    const filePath = path.join(tempDir, 'web-vitals.json');
+    const storage = createFileWebVitalsStorage(filePath, { maxSamples: 3 });
+
+    await storage.append([sample('a'), sample('b')]);
+    await storage.append([sample('c'), sample('d')]);
+    await storage.append([sample('b', 0.4)]);
+
+    const stored: WebVitalSample[] = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    expect(stored.map(({ id, value }) => [id, value])).toEqual([
+      ['b', 0.4],
+      ['c', 0.05],
+      ['d', 0.05],
+    ]);
+  });
+});
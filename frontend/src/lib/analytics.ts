@@ -0,0 +1,237 @@
+/**
+ * First-party analytics events
+ * Events are typed and validated with the same schemas on both ends, batched in the
+ * browser and sent to /api/events. Nothing is tracked without analytics consent or when
+ * the browser sends Do Not Track, and events carry no identifiers, only the page path
+ * and the visitor's experiment variants
+ */
+
+import { z } from 'zod';
+import { isCategoryGranted, readConsentCookie } from './consent';
+import { EXPERIMENTS, EXPERIMENT_IDS } from './experiments';
+import { PLAN_IDS } from './plans';
+
+export const ANALYTICS_ENDPOINT = '/api/events';
+
+export const ANALYTICS_SECTIONS = ['hero', 'benefits', 'features', 'gallery', 'pricing', 'contact'] as const;
+
+export type AnalyticsSection = (typeof ANALYTICS_SECTIONS)[number];
+
+// Largest batch the collector accepts
+export const MAX_BATCH_SIZE = 50;
+
+const identifier = z.string().min(1).max(64);
+
+const baseEvent = {
+  path: z.string().startsWith('/').max(512),
+  timestamp: z.iso.datetime(),
+  experiments: z.partialRecord(z.enum(EXPERIMENT_IDS), identifier).optional(),
+};
+
+export const analyticsEventSchema = z.discriminatedUnion('name', [
+  z.strictObject({
+    name: z.literal('cta_click'),
+    properties: z.strictObject({
+      cta: z.enum(['hero_demo', 'hero_features', 'pricing_plan']),
+      planId: z.enum(PLAN_IDS).optional(),
+    }),
+    ...baseEvent,
+  }),
+  z.strictObject({
+    name: z.literal('feature_expand'),
+    properties: z.strictObject({ featureId: identifier, expanded: z.boolean() }),
+    ...baseEvent,
+  }),
+  z.strictObject({
+    name: z.literal('gallery_open'),
+    properties: z.strictObject({ imageId: identifier }),
+    ...baseEvent,
+  }),
+  z.strictObject({
+    name: z.literal('section_view'),
+    properties: z.strictObject({ section: z.enum(ANALYTICS_SECTIONS) }),
+    ...baseEvent,
+  }),
+  z.strictObject({
+    name: z.literal('experiment_exposure'),
+    properties: z
+      .strictObject({ experiment: z.enum(EXPERIMENT_IDS), variant: identifier })
+      .refine(({ experiment, variant }) => (EXPERIMENTS[experiment].variants as readonly string[]).includes(variant), {
+        path: ['variant'],
+        error: 'Unknown variant',
+      }),
+    ...baseEvent,
+  }),
+]);
+
+export const analyticsBatchSchema = z.object({
+  events: z.array(analyticsEventSchema).min(1).max(MAX_BATCH_SIZE),
+});
+
+export type AnalyticsEvent = z.infer<typeof analyticsEventSchema>;
+
+export type AnalyticsEventName = AnalyticsEvent['name'];
+
+export type AnalyticsEventProperties<N extends AnalyticsEventName> = Extract<AnalyticsEvent, { name: N }>['properties'];
+
+export interface AnalyticsTransportOptions {
+  // True while the page is being hidden or unloaded
+  beacon: boolean;
+}
+
+export type AnalyticsTransport = (body: string, options: AnalyticsTransportOptions) => void;
+
+export interface AnalyticsClientOptions {
+  endpoint?: string;
+  // Events queued before a flush is forced
+  batchSize?: number;
+  // Delay after the first queued event before sending
+  flushIntervalMs?: number;
+  transport?: AnalyticsTransport;
+  isEnabled?: () => boolean;
+}
+
+// Added to every event, e.g. experiment variants so conversions can be compared per variant
+export type AnalyticsContext = Pick<AnalyticsEvent, 'experiments'>;
+
+export interface AnalyticsClient {
+  // False when the event was dropped (no consent, Do Not Track or on the server)
+  track<N extends AnalyticsEventName>(name: N, properties: AnalyticsEventProperties<N>): boolean;
+  flush(options?: Partial<AnalyticsTransportOptions>): void;
+  setContext(context: AnalyticsContext): void;
+}
+
+const DEFAULT_BATCH_SIZE = 10;
+
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * sendBeacon while the page goes away (survives unload), fetch with keepalive otherwise
+ */
+export function createBeaconTransport(endpoint: string = ANALYTICS_ENDPOINT): AnalyticsTransport {
+  return (body, { beacon }) => {
+    if (beacon && typeof navigator.sendBeacon === 'function') {
+      if (navigator.sendBeacon(endpoint, new Blob([body], { type: 'application/json' }))) {
+        return;
+      }
+    }
+
+    fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    }).catch(() => {
+      // Analytics must never break the page; a lost batch is acceptable
+    });
+  };
+}
+
+/**
+ * Analytics consent granted and Do Not Track not set
+ */
+export function isAnalyticsAllowed(): boolean {
+  return navigator.doNotTrack !== '1' && isCategoryGranted(readConsentCookie(), 'analytics');
+}
+
+/**
+ * Browser-side event queue
+ * Flushes when the batch is full, after a short delay, and with a beacon when the page is hidden
+ */
+export function createAnalyticsClient(options: AnalyticsClientOptions = {}): AnalyticsClient {
+  const batchSize = Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE);
+  const flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  const transport = options.transport ?? createBeaconTransport(options.endpoint);
+  const isEnabled = options.isEnabled ?? isAnalyticsAllowed;
+
+  let queue: AnalyticsEvent[] = [];
+  let context: AnalyticsContext = {};
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let listening = false;
+
+  const flush = ({ beacon = false }: Partial<AnalyticsTransportOptions> = {}) => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (queue.length === 0) {
+      return;
+    }
+
+    const events = queue;
+    queue = [];
+    transport(JSON.stringify({ events }), { beacon });
+  };
+
+  // Registered on first use so pages without events add no listeners
+  const listenForPageHide = () => {
+    if (listening) {
+      return;
+    }
+    listening = true;
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        flush({ beacon: true });
+      }
+    });
+    window.addEventListener('pagehide', () => flush({ beacon: true }));
+  };
+
+  return {
+    track(name, properties) {
+      if (typeof window === 'undefined' || !isEnabled()) {
+        return false;
+      }
+
+      listenForPageHide();
+      queue.push({
+        name,
+        properties,
+        path: window.location.pathname,
+        timestamp: new Date().toISOString(),
+        ...context,
+      } as AnalyticsEvent);
+
+      if (queue.length >= batchSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(() => flush(), flushIntervalMs);
+      }
+      return true;
+    },
+
+    flush,
+
+    setContext(next) {
+      context = next;
+    },
+  };
+}
+
+let activeClient: AnalyticsClient | null = null;
+
+/**
+ * Get the active analytics client (posting to /api/events unless overridden)
+ */
+export function getAnalyticsClient(): AnalyticsClient {
+  if (!activeClient) {
+    activeClient = createAnalyticsClient();
+  }
+  return activeClient;
+}
+
+/**
+ * Override the active analytics client; pass null to restore the default
+ */
+export function setAnalyticsClient(client: AnalyticsClient | null): void {
+  activeClient = client;
+}
+
+/**
+ * Record an event, e.g. `track('cta_click', { cta: 'hero_demo' })`
+ * Returns whether the event was queued
+ */
+export function track<N extends AnalyticsEventName>(name: N, properties: AnalyticsEventProperties<N>): boolean {
+  return getAnalyticsClient().track(name, properties);
+}
@@ -0,0 +1,88 @@
+/**
+ * Pluggable persistence for analytics events
+ * Defaults to a local JSON file; swap the adapter with setAnalyticsStorage()
+ */
+
+import { createJsonFileStore, getDataFilePath } from './jsonFileStore';
+import type { AnalyticsEvent } from './analytics';
+
+export type StoredAnalyticsEvent = AnalyticsEvent & {
+  receivedAt: string;
+};
+
+export interface AnalyticsStorage {
+  append(events: AnalyticsEvent[]): Promise<void>;
+  list(): Promise<StoredAnalyticsEvent[]>;
+}
+
+export interface FileAnalyticsStorageOptions {
+  // Oldest events beyond this are dropped
+  maxEvents?: number;
+}
+
+const DEFAULT_EVENTS_FILE = getDataFilePath('events.json');
+
+const DEFAULT_MAX_EVENTS = 50_000;
+
+function stamp(events: AnalyticsEvent[]): StoredAnalyticsEvent[] {
+  const receivedAt = new Date().toISOString();
+  return events.map((event) => ({ ...event, receivedAt }));
+}
+
+/**
+ * JSON file storage, writes are serialized to avoid lost updates
+ */
+export function createFileAnalyticsStorage(
+  filePath: string = DEFAULT_EVENTS_FILE,
+  { maxEvents = DEFAULT_MAX_EVENTS }: FileAnalyticsStorageOptions = {}
+): AnalyticsStorage {
+  const store = createJsonFileStore<StoredAnalyticsEvent>(filePath, { maxItems: maxEvents });
+
+  return {
+    append(events) {
+      return store.update((stored) => {
+        stored.push(...stamp(events));
+      });
+    },
+
+    list() {
+      return store.read();
+    },
+  };
+}
+
+/**
+ * In-memory storage, useful for tests and previews
+ */
+export function createMemoryAnalyticsStorage(): AnalyticsStorage {
+  const stored: StoredAnalyticsEvent[] = [];
+
+  return {
+    async append(events) {
+      stored.push(...stamp(events));
+    },
+
+    async list() {
+      return [...stored];
+    },
+  };
+}
+
+let activeStorage: AnalyticsStorage | null = null;
+
+/**
+ * Get the active analytics storage (file storage unless overridden)
+ */
+export function getAnalyticsStorage(): AnalyticsStorage {
+  if (!activeStorage) {
+    activeStorage = createFileAnalyticsStorage(process.env.ANALYTICS_STORAGE_PATH || DEFAULT_EVENTS_FILE);
+  }
+  return activeStorage;
+}
+
+/**
+ * Override the active analytics storage; pass null to restore the default
+ */
+export function setAnalyticsStorage(storage: AnalyticsStorage | null): void {
+  activeStorage = storage;
+}
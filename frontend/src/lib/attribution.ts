@@ -0,0 +1,148 @@
+/**
+ * Lead attribution
+ * Records where a visitor came from (UTM parameters, referring site, landing page) and
+ * which sections they viewed, in sessionStorage for the current browser session.
+ * The first touch is kept for the whole session; the last touch is replaced whenever the
+ * visitor arrives again from a campaign or another site. Only captured with analytics consent
+ */
+
+import { z } from 'zod';
+import { ANALYTICS_SECTIONS, isAnalyticsAllowed, type AnalyticsSection } from './analytics';
+import type { AttributionTouch, LeadAttribution } from '@/types';
+
+const STORAGE_KEY = 'podoclinic:attribution';
+
+// Query parameter -> touch field
+export const UTM_PARAMETERS = {
+  utm_source: 'source',
+  utm_medium: 'medium',
+  utm_campaign: 'campaign',
+  utm_term: 'term',
+  utm_content: 'content',
+} as const;
+
+const utmValue = z.string().trim().max(200).optional();
+
+const touchSchema = z.object({
+  source: utmValue,
+  medium: utmValue,
+  campaign: utmValue,
+  term: utmValue,
+  content: utmValue,
+  referrer: z.string().max(255).optional(),
+  landingPage: z.string().startsWith('/').max(512),
+  at: z.iso.datetime(),
+});
+
+export const attributionSchema = z.object({
+  firstTouch: touchSchema,
+  lastTouch: touchSchema,
+  sectionsViewed: z.array(z.enum(ANALYTICS_SECTIONS)).max(ANALYTICS_SECTIONS.length),
+}) satisfies z.ZodType<LeadAttribution>;
+
+/**
+ * Touch for a page load; internal referrers are ignored and only the host of external ones is kept
+ */
+export function getTouch(url: URL, referrer: string, now: Date = new Date()): AttributionTouch {
+  const touch: AttributionTouch = { landingPage: url.pathname, at: now.toISOString() };
+
+  for (const [parameter, field] of Object.entries(UTM_PARAMETERS)) {
+    const value = url.searchParams.get(parameter)?.trim().slice(0, 200);
+    if (value) {
+      touch[field] = value;
+    }
+  }
+
+  try {
+    const { host } = new URL(referrer);
+    if (host && host !== url.host) {
+      touch.referrer = host;
+    }
+  } catch {
+    // No referrer or not a URL: direct visit
+  }
+
+  return touch;
+}
+
+/**
+ * Whether a touch says anything about the traffic source (direct visits and reloads don't)
+ */
+export function hasCampaignSignal(touch: AttributionTouch): boolean {
+  return Boolean(touch.referrer || Object.values(UTM_PARAMETERS).some((field) => touch[field]));
+}
+
+/**
+ * Add a page load to the session's attribution
+ */
+export function mergeTouch(previous: LeadAttribution | null, touch: AttributionTouch): LeadAttribution {
+  if (!previous) {
+    return { firstTouch: touch, lastTouch: touch, sectionsViewed: [] };
+  }
+  return hasCampaignSignal(touch) ? { ...previous, lastTouch: touch } : previous;
+}
+
+/**
+ * Attribution stored for this session, or null when there is none or it is unreadable
+ */
+export function readAttribution(storage?: Storage): LeadAttribution | null {
+  try {
+    const stored = (storage ?? window.sessionStorage).getItem(STORAGE_KEY);
+    const parsed = stored ? attributionSchema.safeParse(JSON.parse(stored)) : null;
+    return parsed?.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function updateAttribution(
+  update: (current: LeadAttribution | null) => LeadAttribution,
+  storage?: Storage
+): LeadAttribution | null {
+  if (!isAnalyticsAllowed()) {
+    return null;
+  }
+
+  const target = storage ?? window.sessionStorage;
+  const next = update(readAttribution(target));
+  try {
+    target.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Storage unavailable (private mode): attribution is simply not recorded
+  }
+  return next;
+}
+
+function getCurrentTouch(): AttributionTouch {
+  return getTouch(new URL(window.location.href), document.referrer);
+}
+
+/**
+ * Record the current page load; call once per load, client side
+ */
+export function captureAttribution(storage?: Storage): LeadAttribution | null {
+  return updateAttribution((current) => mergeTouch(current, getCurrentTouch()), storage);
+}
+
+/**
+ * Remember that a section was viewed (each section once, in order)
+ */
+export function recordSectionView(section: AnalyticsSection, storage?: Storage): void {
+  updateAttribution((current) => {
+    // A section can come into view before the page load has been captured
+    const attribution = current ?? mergeTouch(null, getCurrentTouch());
+    return attribution.sectionsViewed.includes(section)
+      ? attribution
+      : { ...attribution, sectionsViewed: [...attribution.sectionsViewed, section] };
+  }, storage);
+}
+
+/**
+ * Short description of a touch for sales notifications, e.g. "google / cpc (invierno)"
+ */
+export function describeTouch(touch: AttributionTouch): string {
+  const source = touch.source
+    ? [touch.source, touch.medium].filter(Boolean).join(' / ')
+    : touch.referrer ?? 'directo';
+  return touch.campaign ? `${source} (${touch.campaign})` : source;
+}
@@ -0,0 +1,137 @@
+/**
+ * Server-side persistence for demo scheduling
+ * Bookings default to a local JSON file; swap the adapter with setBookingStorage().
+ * The weekly availability is read from a JSON file on every request so edits apply without a redeploy.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createJsonFileStore, getDataFilePath } from './jsonFileStore';
+import { availabilitySchema, slotsOverlap, type WeeklyAvailability } from './scheduling';
+import type { DemoBooking, DemoSlot } from '@/types';
+
+export type BookingConflictReason = 'slot_unavailable' | 'already_booked';
+
+export interface BookingConflictError extends Error {
+  reason: BookingConflictReason;
+}
+
+export interface BookingStorage {
+  /**
+   * Atomically reserve a slot for a lead.
+   * Rejects with a BookingConflictError when the slot overlaps another booking
+   * or the lead already has one.
+   */
+  reserve(leadId: string, slot: DemoSlot): Promise<DemoBooking>;
+  list(): Promise<DemoBooking[]>;
+  get(id: string): Promise<DemoBooking | undefined>;
+}
+
+const DEFAULT_BOOKINGS_FILE = getDataFilePath('bookings.json');
+const DEFAULT_AVAILABILITY_FILE = path.join(process.cwd(), 'config', 'demo-availability.json');
+
+export function createBookingConflictError(reason: BookingConflictReason): BookingConflictError {
+  const error = new Error(
+    reason === 'already_booked' ? 'Lead already has a booking' : 'Slot is no longer available'
+  ) as BookingConflictError;
+  error.reason = reason;
+  return error;
+}
+
+export function isBookingConflictError(error: unknown): error is BookingConflictError {
+  return error instanceof Error && 'reason' in error;
+}
+
+/**
+ * Shared conflict check so every adapter prevents double booking the same way
+ */
+function reserveIn(bookings: DemoBooking[], leadId: string, slot: DemoSlot): DemoBooking {
+  if (bookings.some((booking) => booking.leadId === leadId)) {
+    throw createBookingConflictError('already_booked');
+  }
+  if (bookings.some((booking) => slotsOverlap(booking, slot))) {
+    throw createBookingConflictError('slot_unavailable');
+  }
+
+  const booking: DemoBooking = {
+    id: randomUUID(),
+    leadId,
+    start: slot.start,
+    end: slot.end,
+    createdAt: new Date().toISOString(),
+  };
+  bookings.push(booking);
+  return booking;
+}
+
+/**
+ * JSON file storage; the conflict check and write run inside one serialized update
+ */
+export function createFileBookingStorage(filePath: string = DEFAULT_BOOKINGS_FILE): BookingStorage {
+  const store = createJsonFileStore<DemoBooking>(filePath);
+
+  return {
+    reserve(leadId, slot) {
+      return store.update((bookings) => reserveIn(bookings, leadId, slot));
+    },
+
+    list() {
+      return store.read();
+    },
+
+    async get(id) {
+      return (await store.read()).find((booking) => booking.id === id);
+    },
+  };
+}
+
+/**
+ * In-memory storage, useful for tests and previews
+ */
+export function createMemoryBookingStorage(): BookingStorage {
+  const bookings: DemoBooking[] = [];
+
+  return {
+    async reserve(leadId, slot) {
+      return reserveIn(bookings, leadId, slot);
+    },
+
+    async list() {
+      return [...bookings];
+    },
+
+    async get(id) {
+      return bookings.find((booking) => booking.id === id);
+    },
+  };
+}
+
+let activeStorage: BookingStorage | null = null;
+
+/**
+ * Get the active booking storage (file storage unless overridden)
+ */
+export function getBookingStorage(): BookingStorage {
+  if (!activeStorage) {
+    activeStorage = createFileBookingStorage(process.env.BOOKINGS_STORAGE_PATH || DEFAULT_BOOKINGS_FILE);
+  }
+  return activeStorage;
+}
+
+/**
+ * Override the active booking storage; pass null to restore the default
+ */
+export function setBookingStorage(storage: BookingStorage | null): void {
+  activeStorage = storage;
+}
+
+/**
+ * Load and validate the weekly availability file
+ */
+export async function loadAvailability(
+  filePath: string = process.env.DEMO_AVAILABILITY_PATH || DEFAULT_AVAILABILITY_FILE
+): Promise<WeeklyAvailability> {
+  const contents = await fs.readFile(filePath, 'utf8');
+  return availabilitySchema.parse(JSON.parse(contents));
+}
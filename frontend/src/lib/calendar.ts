@@ -0,0 +1,75 @@
+/**
+ * iCalendar (.ics) generation for booked demos (RFC 5545)
+ */
+
+export interface CalendarEvent {
+  uid: string;
+  start: string; // ISO 8601
+  end: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizerEmail?: string;
+  createdAt?: string;
+}
+
+const LINE_BREAK = '\r\n';
+const MAX_LINE_LENGTH = 75;
+
+/**
+ * Format an instant as a UTC iCalendar date-time (YYYYMMDDTHHMMSSZ)
+ */
+export function formatIcsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape text values per RFC 5545 section 3.3.11
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 characters with a leading space on continuation lines
+ */
+function foldLine(line: string): string {
+  if (line.length <= MAX_LINE_LENGTH) return line;
+
+  const chunks = [line.slice(0, MAX_LINE_LENGTH)];
+  for (let index = MAX_LINE_LENGTH; index < line.length; index += MAX_LINE_LENGTH - 1) {
+    chunks.push(` ${line.slice(index, index + MAX_LINE_LENGTH - 1)}`);
+  }
+  return chunks.join(LINE_BREAK);
+}
+
+/**
+ * Build a single-event calendar file
+ */
+export function createIcsEvent(event: CalendarEvent): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Podoclinic//Demo Scheduling//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(event.createdAt ?? new Date().toISOString())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.organizerEmail) lines.push(`ORGANIZER:mailto:${event.organizerEmail}`);
+
+  lines.push('STATUS:CONFIRMED', 'END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join(LINE_BREAK) + LINE_BREAK;
+}
@@ -2,6 +2,10 @@
  * Comprehensive error handling utilities for Canvas and WebGL operations
  */
 
+import { retryWithBackoff as retry, DEFAULT_RETRY_CONFIG, type RetryConfig } from './retry';
+
+export type { RetryConfig };
+
 export interface CanvasError extends Error {
   type: 'webgl' | 'asset' | 'context' | 'memory' | 'network' | 'unknown';
   recoverable: boolean;
@@ -9,13 +13,6 @@ export interface CanvasError extends Error {
   context?: Record<string, any>;
 }
 
-export interface RetryConfig {
-  maxRetries: number;
-  baseDelay: number;
-  maxDelay: number;
-  backoffMultiplier: number;
-}
-
 export interface AssetLoadResult {
   success: boolean;
   error?: CanvasError;
@@ -96,48 +93,16 @@ export function classifyError(error: Error): CanvasError {
 
 /**
  * Retry mechanism with exponential backoff
+ * Only retries errors classified as retryable and rethrows them as CanvasErrors
  */
-export async function retryWithBackoff<T>(
+export function retryWithBackoff<T>(
   operation: () => Promise<T>,
-  config: RetryConfig = {
-    maxRetries: 3,
-    baseDelay: 1000,
-    maxDelay: 5000,
-    backoffMultiplier: 2
-  }
+  config: RetryConfig = DEFAULT_RETRY_CONFIG
 ): Promise<T> {
-  let lastError: Error;
-  
-  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      
-      // Don't retry on the last attempt
-      if (attempt === config.maxRetries) {
-        break;
-      }
-      
-      // Check if error is retryable
-      const canvasError = classifyError(lastError);
-      if (!canvasError.retryable) {
-        throw canvasError;
-      }
-      
-      // Calculate delay with exponential backoff
-      const delay = Math.min(
-        config.baseDelay * Math.pow(config.backoffMultiplier, attempt),
-        config.maxDelay
-      );
-      
-      console.warn(`Operation failed (attempt ${attempt + 1}/${config.maxRetries + 1}), retrying in ${delay}ms:`, lastError.message);
-      
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  throw classifyError(lastError!);
+  return retry(operation, config, {
+    isRetryable: (error) => classifyError(error).retryable,
+    mapError: classifyError,
+  });
 }
 
 /**
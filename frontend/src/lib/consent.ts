@@ -0,0 +1,112 @@
+/**
+ * Cookie consent
+ * Visitors choose which optional categories they allow; the choice is stored in a
+ * first-party cookie together with the version of the consent text they agreed to.
+ * Bumping CONSENT_VERSION (new purposes or vendors) asks everyone again
+ */
+
+import { z } from 'zod';
+
+export const CONSENT_CATEGORIES = ['necessary', 'analytics', 'marketing'] as const;
+
+export type ConsentCategory = (typeof CONSENT_CATEGORIES)[number];
+
+export type ConsentChoices = Record<ConsentCategory, boolean>;
+
+export interface ConsentState {
+  version: number;
+  // ISO timestamp of the decision, kept as proof of consent
+  updatedAt: string;
+  categories: ConsentChoices;
+}
+
+export const CONSENT_VERSION = 1;
+
+export const CONSENT_COOKIE = 'podoclinic_consent';
+
+// Consent is renewed every six months
+export const CONSENT_MAX_AGE_SECONDS = 60 * 60 * 24 * 182;
+
+const consentSchema = z.object({
+  version: z.literal(CONSENT_VERSION),
+  updatedAt: z.iso.datetime(),
+  categories: z.object({
+    necessary: z.boolean(),
+    analytics: z.boolean(),
+    marketing: z.boolean(),
+  }),
+});
+
+export function isConsentCategory(value: unknown): value is ConsentCategory {
+  return CONSENT_CATEGORIES.includes(value as ConsentCategory);
+}
+
+/**
+ * Build a consent decision; necessary cookies are always allowed
+ */
+export function createConsent(choices: Partial<ConsentChoices>, now: Date = new Date()): ConsentState {
+  return {
+    version: CONSENT_VERSION,
+    updatedAt: now.toISOString(),
+    categories: {
+      analytics: choices.analytics ?? false,
+      marketing: choices.marketing ?? false,
+      necessary: true,
+    },
+  };
+}
+
+/**
+ * Read a stored decision, or null when it is missing, malformed or from an older version
+ */
+export function parseConsent(value: string | null | undefined): ConsentState | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = consentSchema.safeParse(JSON.parse(decodeURIComponent(value)));
+    return parsed.success ? createConsent(parsed.data.categories, new Date(parsed.data.updatedAt)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function serializeConsent(consent: ConsentState): string {
+  return encodeURIComponent(JSON.stringify(consent));
+}
+
+/**
+ * Whether a category is allowed; optional categories stay off until the visitor decides
+ */
+export function isCategoryGranted(consent: ConsentState | null, category: ConsentCategory): boolean {
+  if (category === 'necessary') {
+    return true;
+  }
+  return consent?.categories[category] ?? false;
+}
+
+/**
+ * Categories allowed before that are no longer allowed
+ */
+export function getRevokedCategories(previous: ConsentState | null, next: ConsentState | null): ConsentCategory[] {
+  return CONSENT_CATEGORIES.filter(
+    (category) => isCategoryGranted(previous, category) && !isCategoryGranted(next, category)
+  );
+}
+
+/**
+ * Stored decision from document.cookie (browser only)
+ */
+export function readConsentCookie(cookie: string = document.cookie): ConsentState | null {
+  const entry = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${CONSENT_COOKIE}=`));
+
+  return parseConsent(entry?.slice(CONSENT_COOKIE.length + 1));
+}
+
+export function writeConsentCookie(consent: ConsentState): void {
+  document.cookie = `${CONSENT_COOKIE}=${serializeConsent(consent)}; path=/; max-age=${CONSENT_MAX_AGE_SECONDS}; samesite=lax`;
+}
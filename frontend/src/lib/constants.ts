@@ -3,6 +3,8 @@
  * Based on design-01.json specifications
  */
 
+import type { CompanyInfo } from '@/types';
+
 // Color Palette
 export const colors = {
   primary: {
@@ -97,4 +99,11 @@ export const breakpoints = {
   tablet: '768px',
   desktop: '1024px',
   largeDesktop: '1440px',
-} as const;
\ No newline at end of file
+} as const;
+
+// Company contact details shown in the Footer and published as structured data
+export const companyInfo: CompanyInfo = {
+  name: 'Podoclinic',
+  email: 'contacto@podoclinic.cl',
+  phone: '+56 9 1234 5678',
+};
@@ -0,0 +1,186 @@
+/**
+ * Marketing content layer
+ * Section copy (hero, benefits, features, gallery screenshots, plan copy and the optional
+ * FAQ) lives in JSON files under `content/<locale>/` so it can be edited without touching components.
+ * Files are validated when this module loads, so invalid content fails `next build`
+ */
+
+import { z } from 'zod';
+import { DEFAULT_LOCALE, LOCALES, type Locale } from './i18n';
+import type { ExperimentVariant } from './experiments';
+import type { Benefit, FaqItem, Feature, GalleryItem, HeroContent, PlanContent, PlanId } from '@/types';
+
+import esHero from '../../content/es/hero.json';
+import esBenefits from '../../content/es/benefits.json';
+import esFeatures from '../../content/es/features.json';
+import esGallery from '../../content/es/gallery.json';
+import esPlans from '../../content/es/plans.json';
+import enHero from '../../content/en/hero.json';
+import enBenefits from '../../content/en/benefits.json';
+import enFeatures from '../../content/en/features.json';
+import enGallery from '../../content/en/gallery.json';
+import enPlans from '../../content/en/plans.json';
+import ptHero from '../../content/pt/hero.json';
+import ptBenefits from '../../content/pt/benefits.json';
+import ptFeatures from '../../content/pt/features.json';
+import ptGallery from '../../content/pt/gallery.json';
+import ptPlans from '../../content/pt/plans.json';
+
+// Icon names content can reference; components map them to their artwork
+export const BENEFIT_ICONS = ['clock', 'package', 'heart'] as const;
+export const FEATURE_ICONS = ['calendar', 'records', 'inventory', 'dashboard', 'reminders'] as const;
+
+export type BenefitIcon = (typeof BENEFIT_ICONS)[number];
+export type FeatureIcon = (typeof FEATURE_ICONS)[number];
+
+const text = z.string().trim().min(1);
+const slug = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Expected a kebab-case id');
+
+export const heroSchema = z.object({
+  titlePrefix: text,
+  titleHighlight: text,
+  subtitle: text,
+  primaryCta: text,
+  secondaryCta: text,
+  // The layout has a slot (and icon) for exactly three highlights
+  highlights: z.array(z.object({ title: text, description: text })).length(3),
+  scrollHint: text,
+  // Copy for the non-control variants of the Hero experiments (lib/experiments); missing copy falls back to control
+  experiments: z
+    .object({
+      heroHeadline: z.object({ outcome: z.object({ titlePrefix: text, titleHighlight: text }) }).partial(),
+      heroCta: z.object({ urgency: z.object({ primaryCta: text }) }).partial(),
+    })
+    .partial()
+    .optional(),
+}) satisfies z.ZodType<HeroContent>;
+
+export const benefitSchema = z.object({
+  id: slug,
+  icon: z.enum(BENEFIT_ICONS),
+  title: text,
+  description: text,
+  stat: z.object({
+    value: z.number().nonnegative(),
+    suffix: z.string(),
+    label: text,
+  }),
+}) satisfies z.ZodType<Benefit>;
+
+export const featureSchema = z.object({
+  id: slug,
+  icon: z.enum(FEATURE_ICONS),
+  title: text,
+  description: text,
+  details: z.array(text).min(1),
+}) satisfies z.ZodType<Feature>;
+
+export const galleryItemSchema = z.object({
+  id: slug,
+  image: z.string().regex(/^\/[\w./-]+\.(?:jpg|jpeg|png|webp|avif)$/, 'Expected an image path under /public'),
+  alt: text,
+  title: text,
+  description: text,
+  features: z.array(text).min(1),
+}) satisfies z.ZodType<GalleryItem>;
+
+export const planContentSchema = z.object({
+  name: text,
+  description: text,
+  features: z.array(text).min(1),
+  limitations: z.array(text),
+  cta: text,
+}) satisfies z.ZodType<PlanContent>;
+
+export const faqItemSchema = z.object({
+  question: text,
+  answer: text,
+}) satisfies z.ZodType<FaqItem>;
+
+const uniqueIds = (items: ReadonlyArray<{ id: string }>) =>
+  new Set(items.map((item) => item.id)).size === items.length;
+
+export const siteContentSchema = z.object({
+  hero: heroSchema,
+  benefits: z.array(benefitSchema).min(1).refine(uniqueIds, 'Benefit ids must be unique'),
+  features: z.array(featureSchema).min(1).refine(uniqueIds, 'Feature ids must be unique'),
+  gallery: z.array(galleryItemSchema).min(1).refine(uniqueIds, 'Gallery ids must be unique'),
+  plans: z.strictObject({
+    basico: planContentSchema,
+    pro: planContentSchema,
+    premium: planContentSchema,
+  }) satisfies z.ZodType<Record<PlanId, PlanContent>>,
+  // Published as FAQPage structured data; locales without a faq.json have no FAQ
+  faq: z.array(faqItemSchema).min(1).optional(),
+});
+
+export type SiteContent = z.infer<typeof siteContentSchema>;
+
+// One file per collection in each locale directory
+export const CONTENT_COLLECTIONS = Object.keys(siteContentSchema.shape) as Array<keyof SiteContent>;
+
+const rawContent: Record<Locale, unknown> = {
+  es: { hero: esHero, benefits: esBenefits, features: esFeatures, gallery: esGallery, plans: esPlans },
+  en: { hero: enHero, benefits: enBenefits, features: enFeatures, gallery: enGallery, plans: enPlans },
+  pt: { hero: ptHero, benefits: ptBenefits, features: ptFeatures, gallery: ptGallery, plans: ptPlans },
+};
+
+/**
+ * Validate one locale's content, throwing a readable error listing every problem
+ */
+export function parseContent(locale: string, raw: unknown, source = `content/${locale}`): SiteContent {
+  const result = siteContentSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid content in ${source}:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+const idsOf = (items: ReadonlyArray<{ id: string }>) => items.map((item) => item.id).join(', ');
+
+/**
+ * Translations must list the same items, in the same order, as the default locale
+ */
+export function assertSameItems(locale: string, content: SiteContent, reference: SiteContent): void {
+  (['benefits', 'features', 'gallery'] as const).forEach((collection) => {
+    const expected = idsOf(reference[collection]);
+    const actual = idsOf(content[collection]);
+    if (actual !== expected) {
+      throw new Error(`Invalid content in content/${locale}/${collection}.json: expected items [${expected}], got [${actual}]`);
+    }
+  });
+}
+
+const defaultContent = parseContent(DEFAULT_LOCALE, rawContent[DEFAULT_LOCALE]);
+
+const siteContent = Object.fromEntries(
+  LOCALES.map((locale) => {
+    if (locale === DEFAULT_LOCALE) {
+      return [locale, defaultContent];
+    }
+    const content = parseContent(locale, rawContent[locale]);
+    assertSameItems(locale, content, defaultContent);
+    return [locale, content];
+  })
+) as Record<Locale, SiteContent>;
+
+/**
+ * Section content in the given language
+ */
+export function getContent(locale: Locale = DEFAULT_LOCALE): SiteContent {
+  return siteContent[locale];
+}
+
+/**
+ * Hero copy for the visitor's experiment variants; variants without copy show control
+ */
+export function getHeroVariantCopy(
+  hero: SiteContent['hero'],
+  headline: ExperimentVariant<'heroHeadline'>,
+  cta: ExperimentVariant<'heroCta'>
+): HeroContent {
+  const title = headline === 'control' ? undefined : hero.experiments?.heroHeadline?.[headline];
+  const primaryCta = cta === 'control' ? undefined : hero.experiments?.heroCta?.[cta]?.primaryCta;
+
+  return { ...hero, ...title, primaryCta: primaryCta ?? hero.primaryCta };
+}
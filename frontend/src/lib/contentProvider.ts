@@ -0,0 +1,158 @@
+/**
+ * Pluggable source for section content
+ * Reads the local content files by default, or a headless CMS when CMS_URL is set.
+ * Draft requests (Next.js draft mode) return unpublished versions
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CONTENT_COLLECTIONS, getContent, parseContent, type SiteContent } from './content';
+import type { Locale } from './i18n';
+
+export interface ContentRequest {
+  draft?: boolean;
+}
+
+export interface ContentProvider {
+  name: string;
+  getContent(locale: Locale, request?: ContentRequest): Promise<SiteContent>;
+}
+
+export interface HttpContentProviderOptions {
+  baseUrl: string;
+  token?: string;
+  // Token allowed to read drafts; falls back to `token`
+  previewToken?: string;
+  // Seconds Next.js caches published content before asking the CMS again
+  revalidate?: number;
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_CONTENT_DIR = path.join(process.cwd(), 'content');
+
+const DEFAULT_REVALIDATE_SECONDS = 60;
+
+async function readJsonFile(filePath: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Content files under `<rootDir>/<locale>/<collection>.json`.
+ * In draft mode a sibling `<collection>.draft.json` replaces the published file
+ */
+export function createFileContentProvider(rootDir: string = DEFAULT_CONTENT_DIR): ContentProvider {
+  return {
+    name: 'files',
+
+    async getContent(locale, { draft = false } = {}) {
+      const directory = path.join(rootDir, locale);
+      const entries = await Promise.all(
+        CONTENT_COLLECTIONS.map(async (collection) => {
+          const unpublished = draft ? await readJsonFile(path.join(directory, `${collection}.draft.json`)) : undefined;
+          return [collection, unpublished ?? (await readJsonFile(path.join(directory, `${collection}.json`)))];
+        })
+      );
+
+      return parseContent(locale, Object.fromEntries(entries), directory);
+    },
+  };
+}
+
+/**
+ * Headless CMS over HTTP
+ * `GET <baseUrl>/content/<locale>` returns the locale's content as one JSON document;
+ * `?draft=true` includes unpublished changes
+ */
+export function createHttpContentProvider(options: HttpContentProviderOptions): ContentProvider {
+  const fetchContent = options.fetch ?? fetch;
+  const baseUrl = options.baseUrl.endsWith('/') ? options.baseUrl : `${options.baseUrl}/`;
+
+  return {
+    name: 'cms',
+
+    async getContent(locale, { draft = false } = {}) {
+      const url = new URL(`content/${locale}`, baseUrl);
+      if (draft) {
+        url.searchParams.set('draft', 'true');
+      }
+
+      const token = draft ? options.previewToken ?? options.token : options.token;
+      const response = await fetchContent(url, {
+        headers: {
+          Accept: 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        // Drafts are always fetched fresh; published content is cached between edits
+        ...(draft
+          ? { cache: 'no-store' as const }
+          : { next: { revalidate: options.revalidate ?? DEFAULT_REVALIDATE_SECONDS } }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`CMS request for ${locale} content failed with status ${response.status}`);
+      }
+
+      return parseContent(locale, await response.json(), `CMS content for ${locale}`);
+    },
+  };
+}
+
+/**
+ * Build the provider selected by environment variables
+ */
+export function createContentProviderFromEnv(env: Partial<Record<string, string>> = process.env): ContentProvider {
+  if (env.CMS_URL) {
+    return createHttpContentProvider({
+      baseUrl: env.CMS_URL,
+      token: env.CMS_TOKEN,
+      previewToken: env.CMS_PREVIEW_TOKEN,
+      revalidate: Number(env.CMS_REVALIDATE_SECONDS) || undefined,
+    });
+  }
+
+  return createFileContentProvider(env.CONTENT_DIR || DEFAULT_CONTENT_DIR);
+}
+
+let activeProvider: ContentProvider | null = null;
+
+/**
+ * Get the active content provider (from environment unless overridden)
+ */
+export function getContentProvider(): ContentProvider {
+  if (!activeProvider) {
+    activeProvider = createContentProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Override the active content provider; pass null to restore the default
+ */
+export function setContentProvider(provider: ContentProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Content for a page render
+ * Published content falls back to the bundled files when the provider fails, so a
+ * CMS outage never takes the site down; draft errors surface to the editor instead
+ */
+export async function loadContent(locale: Locale, request: ContentRequest = {}): Promise<SiteContent> {
+  try {
+    return await getContentProvider().getContent(locale, request);
+  } catch (error) {
+    if (request.draft) {
+      throw error;
+    }
+
+    console.error(`Content provider "${getContentProvider().name}" failed, using bundled content:`, error);
+    return getContent(locale);
+  }
+}
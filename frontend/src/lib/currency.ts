@@ -0,0 +1,61 @@
+/**
+ * Reference currency display for prices
+ * Plans are priced and billed in CLP; other currencies are converted from a
+ * static table for display only and rounded to whole units
+ */
+
+import type { CurrencyCode } from '@/types';
+
+interface CurrencyRate {
+  // Chilean pesos per unit of the currency
+  clpPerUnit: number;
+  // Locale whose separators and symbol placement are used for the amount
+  formatLocale: string;
+}
+
+// Reference rates, reviewed manually; not meant for invoicing
+export const CURRENCY_RATES: Record<CurrencyCode, CurrencyRate> = {
+  CLP: { clpPerUnit: 1, formatLocale: 'es-CL' },
+  PEN: { clpPerUnit: 255, formatLocale: 'es-PE' },
+  ARS: { clpPerUnit: 0.7, formatLocale: 'es-AR' },
+  COP: { clpPerUnit: 0.24, formatLocale: 'es-CO' },
+  MXN: { clpPerUnit: 51, formatLocale: 'es-MX' },
+  USD: { clpPerUnit: 950, formatLocale: 'en-US' },
+};
+
+export const CURRENCIES = Object.keys(CURRENCY_RATES) as [CurrencyCode, ...CurrencyCode[]];
+
+export const BILLING_CURRENCY: CurrencyCode = 'CLP';
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return CURRENCIES.includes(value as CurrencyCode);
+}
+
+const formatters = new Map<CurrencyCode, Intl.NumberFormat>();
+
+function getFormatter(currency: CurrencyCode): Intl.NumberFormat {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(CURRENCY_RATES[currency].formatLocale, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    });
+    formatters.set(currency, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Convert a CLP amount to the currency, rounded to whole units
+ */
+export function convertFromCLP(amountClp: number, currency: CurrencyCode): number {
+  return Math.round(amountClp / CURRENCY_RATES[currency].clpPerUnit);
+}
+
+/**
+ * Format a CLP amount in the currency, e.g. 29990 -> "S/ 118" for PEN
+ */
+export function formatPrice(amountClp: number, currency: CurrencyCode = BILLING_CURRENCY): string {
+  return getFormatter(currency).format(convertFromCLP(amountClp, currency));
+}
@@ -0,0 +1,108 @@
+/**
+ * A/B experiments
+ * Each visitor gets a random ID cookie in middleware; variants are derived from a hash of
+ * the experiment and that ID, so the server renders the same variant on every request
+ * without storing assignments. Runs in the edge middleware, so keep it dependency free
+ */
+
+export interface ExperimentDefinition {
+  // The first variant is the control shown when the experiment is off or unassigned
+  variants: readonly [string, ...string[]];
+  // Relative traffic per variant; even split when omitted
+  weights?: readonly number[];
+  active: boolean;
+}
+
+export const EXPERIMENTS = {
+  // Hero title: product name vs. the outcome for the clinic
+  heroHeadline: { variants: ['control', 'outcome'], active: true },
+  // Hero primary CTA label
+  heroCta: { variants: ['control', 'urgency'], active: true },
+  // "Most popular" badge on Pro, on Premium, or no badge at all
+  pricingBadge: { variants: ['control', 'premium', 'hidden'], active: true },
+} as const satisfies Record<string, ExperimentDefinition>;
+
+export type ExperimentId = keyof typeof EXPERIMENTS;
+
+export type ExperimentVariant<E extends ExperimentId> = (typeof EXPERIMENTS)[E]['variants'][number];
+
+export type ExperimentAssignments = { [E in ExperimentId]: ExperimentVariant<E> };
+
+export const EXPERIMENT_IDS = Object.keys(EXPERIMENTS) as [ExperimentId, ...ExperimentId[]];
+
+export const VISITOR_COOKIE = 'podoclinic_vid';
+
+export const VISITOR_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 90;
+
+const VISITOR_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function isVisitorId(value: unknown): value is string {
+  return typeof value === 'string' && VISITOR_ID.test(value);
+}
+
+export function createVisitorId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * FNV-1a hash mapped to [0, 1)
+ * The murmur3 finalizer spreads the last characters (where IDs differ most) into the high bits
+ */
+function hashToUnit(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < input.length; index++) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Variant of an experiment for a visitor; control without a valid visitor ID
+ */
+export function getVariant<E extends ExperimentId>(experiment: E, visitorId: string | undefined): ExperimentVariant<E> {
+  const definition: ExperimentDefinition = EXPERIMENTS[experiment];
+  const [control] = definition.variants;
+  if (!definition.active || !isVisitorId(visitorId)) {
+    return control as ExperimentVariant<E>;
+  }
+
+  const weights = definition.weights ?? definition.variants.map(() => 1);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let point = hashToUnit(`${experiment}:${visitorId}`) * total;
+
+  for (let index = 0; index < definition.variants.length; index++) {
+    point -= weights[index] ?? 0;
+    if (point < 0) {
+      return definition.variants[index] as ExperimentVariant<E>;
+    }
+  }
+  return control as ExperimentVariant<E>;
+}
+
+/**
+ * Every experiment's variant for a visitor
+ */
+export function getAssignments(visitorId: string | undefined): ExperimentAssignments {
+  return Object.fromEntries(
+    EXPERIMENT_IDS.map((experiment) => [experiment, getVariant(experiment, visitorId)])
+  ) as ExperimentAssignments;
+}
+
+/**
+ * Visitor ID from a Cookie header (route handlers outside the middleware matcher)
+ */
+export function getVisitorIdFromCookieHeader(cookie: string | null): string | undefined {
+  const value = cookie
+    ?.split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${VISITOR_COOKIE}=`))
+    ?.slice(VISITOR_COOKIE.length + 1);
+
+  return isVisitorId(value) ? value : undefined;
+}
@@ -0,0 +1,167 @@
+/**
+ * Stylized foot mesh for the hero scene
+ * Built from deformed ellipsoids (sole, ankle and five toes) so no model file has to be
+ * downloaded; the foot points along +Z with the sole resting near the bottom of the model
+ */
+
+export interface FootGeometry {
+  positions: Float32Array<ArrayBuffer>;
+  normals: Float32Array<ArrayBuffer>;
+  indices: Uint16Array<ArrayBuffer>;
+}
+
+export interface FootGeometryOptions {
+  // Rings around the sole; the toes and ankle use proportionally fewer
+  segments?: number;
+}
+
+type Vec3 = [number, number, number];
+
+interface MeshPart {
+  positions: number[];
+  indices: number[];
+}
+
+const DEFAULT_SEGMENTS = 24;
+const MIN_SEGMENTS = 6;
+
+// Big toe first, from the medial side outwards: [x, z, radius]
+const TOES: ReadonlyArray<Vec3> = [
+  [-0.34, 1.5, 0.21],
+  [-0.04, 1.48, 0.15],
+  [0.17, 1.38, 0.135],
+  [0.35, 1.26, 0.12],
+  [0.5, 1.1, 0.105],
+];
+
+/**
+ * Ellipsoid with its vertices passed through `deform`, as a latitude/longitude grid
+ */
+function createEllipsoid(center: Vec3, radii: Vec3, segments: number, deform?: (point: Vec3) => Vec3): MeshPart {
+  const rings = Math.max(MIN_SEGMENTS / 2, Math.round(segments));
+  const sectors = rings * 2;
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  for (let ring = 0; ring <= rings; ring++) {
+    const phi = (ring / rings) * Math.PI;
+    for (let sector = 0; sector <= sectors; sector++) {
+      const theta = (sector / sectors) * Math.PI * 2;
+      const point: Vec3 = [
+        center[0] + radii[0] * Math.sin(phi) * Math.cos(theta),
+        center[1] + radii[1] * Math.cos(phi),
+        center[2] + radii[2] * Math.sin(phi) * Math.sin(theta),
+      ];
+      positions.push(...(deform ? deform(point) : point));
+    }
+  }
+
+  for (let ring = 0; ring < rings; ring++) {
+    for (let sector = 0; sector < sectors; sector++) {
+      const a = ring * (sectors + 1) + sector;
+      const b = a + sectors + 1;
+      indices.push(a, a + 1, b, b, a + 1, b + 1);
+    }
+  }
+
+  return { positions, indices };
+}
+
+/**
+ * Sole shape: narrow heel, wide ball, lower towards the toes, flat underneath with an arch
+ */
+function deformSole([x, y, z]: Vec3): Vec3 {
+  // 0 at the heel, 1 at the tip
+  const t = Math.min(1, Math.max(0, (z + 1.45) / 2.9));
+  const width = 0.72 + 0.4 * Math.sin(t * Math.PI * 0.85);
+  let height = y > 0 ? y * (1.3 - 0.8 * t) : y;
+
+  // Flat sole with a little give at the edges
+  if (height < -0.22) {
+    height = -0.22 + (height + 0.22) * 0.15;
+  }
+  // Medial arch
+  if (height < 0 && x < 0) {
+    height += 0.14 * Math.sin(t * Math.PI) * Math.min(1, -x / 0.55);
+  }
+
+  return [x * width, height, z];
+}
+
+/**
+ * Per-vertex normals averaged from the faces around each vertex
+ */
+export function computeVertexNormals(positions: ArrayLike<number>, indices: ArrayLike<number>): Float32Array {
+  const normals = new Float32Array(positions.length);
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i] * 3, indices[i + 1] * 3, indices[i + 2] * 3];
+    const ab = [positions[b] - positions[a], positions[b + 1] - positions[a + 1], positions[b + 2] - positions[a + 2]];
+    const ac = [positions[c] - positions[a], positions[c + 1] - positions[a + 1], positions[c + 2] - positions[a + 2]];
+    const face = [ab[1] * ac[2] - ab[2] * ac[1], ab[2] * ac[0] - ab[0] * ac[2], ab[0] * ac[1] - ab[1] * ac[0]];
+
+    for (const vertex of [a, b, c]) {
+      normals[vertex] += face[0];
+      normals[vertex + 1] += face[1];
+      normals[vertex + 2] += face[2];
+    }
+  }
+
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+    if (length > 0) {
+      normals[i] /= length;
+      normals[i + 1] /= length;
+      normals[i + 2] /= length;
+    } else {
+      // Degenerate vertices (the poles) point outwards along Y
+      normals[i + 1] = 1;
+    }
+  }
+
+  return normals;
+}
+
+/**
+ * The foot mesh, centred on the origin; `segments` trades detail for vertex count
+ */
+export function createFootGeometry({ segments = DEFAULT_SEGMENTS }: FootGeometryOptions = {}): FootGeometry {
+  const detail = Math.max(MIN_SEGMENTS, Math.round(segments));
+  const parts: MeshPart[] = [
+    createEllipsoid([0, 0, 0], [0.55, 0.42, 1.45], detail, deformSole),
+    createEllipsoid([0.02, 0.5, -0.88], [0.36, 0.6, 0.4], detail / 2),
+    ...TOES.map(([x, z, radius]) => createEllipsoid([x, -0.1, z], [radius, radius * 0.8, radius * 1.15], detail / 3)),
+  ];
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+
+  for (const part of parts) {
+    const offset = positions.length / 3;
+    positions.push(...part.positions);
+    // Normals per part, so overlapping parts keep their own rounded shading
+    normals.push(...Array.from(computeVertexNormals(part.positions, part.indices)));
+    indices.push(...part.indices.map((index) => index + offset));
+  }
+
+  // Centre the bounding box so the model rotates around its middle
+  for (let axis = 0; axis < 3; axis++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = axis; i < positions.length; i += 3) {
+      min = Math.min(min, positions[i]);
+      max = Math.max(max, positions[i]);
+    }
+    const middle = (min + max) / 2;
+    for (let i = axis; i < positions.length; i += 3) {
+      positions[i] -= middle;
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    indices: new Uint16Array(indices),
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Raw WebGL renderer for the hero foot model
+ * One mesh, one program, brand-coloured lighting; the page behind the transparent canvas
+ * shows through. createFootScene returns null wherever WebGL isn't available, so callers
+ * can fall back to the CSS scene
+ */
+
+import { createFootGeometry, type FootGeometryOptions } from './footModel';
+
+export interface FootPoseInput {
+  scrollY: number;
+  // Pointer position over the hero, 0 to 1 on each axis
+  mousePosition: { x: number; y: number };
+  // Seconds since the scene started, drives the idle motion
+  time: number;
+  animated: boolean;
+}
+
+export interface FootPose {
+  rotationX: number;
+  rotationY: number;
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+}
+
+export interface FootSceneOptions extends FootGeometryOptions {
+  antialias?: boolean;
+}
+
+export interface FootScene {
+  render(pose: FootPose): void;
+  // Replace the mesh, e.g. for a new detail level, keeping the context and program
+  setGeometry(options: FootGeometryOptions): void;
+  dispose(): void;
+}
+
+type Mat4 = Float32Array;
+
+// Brand colours (#2C6145 main, #55A05E accent) as linear-ish RGB for the shader
+const MAIN_COLOR = [0x2c / 255, 0x61 / 255, 0x45 / 255];
+const ACCENT_COLOR = [0x55 / 255, 0xa0 / 255, 0x5e / 255];
+
+const VERTEX_SHADER = `
+attribute vec3 position;
+attribute vec3 normal;
+uniform mat4 model;
+uniform mat4 viewProjection;
+varying vec3 vNormal;
+varying float vHeight;
+
+void main() {
+  vNormal = normalize((model * vec4(normal, 0.0)).xyz);
+  vHeight = position.y;
+  gl_Position = viewProjection * model * vec4(position, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform vec3 mainColor;
+uniform vec3 accentColor;
+varying vec3 vNormal;
+varying float vHeight;
+
+void main() {
+  vec3 normal = normalize(vNormal);
+  vec3 light = normalize(vec3(0.4, 0.8, 0.6));
+  float diffuse = max(dot(normal, light), 0.0);
+  float sky = 0.5 + 0.5 * normal.y;
+  float rim = pow(1.0 - max(normal.z, 0.0), 3.0);
+  float specular = pow(max(dot(normal, normalize(light + vec3(0.0, 0.0, 1.0))), 0.0), 32.0);
+
+  vec3 base = mix(mainColor, accentColor, smoothstep(-0.4, 0.6, vHeight));
+  vec3 color = base * (0.35 + 0.25 * sky + 0.7 * diffuse) + accentColor * rim * 0.45 + vec3(specular * 0.25);
+  gl_FragColor = vec4(color, 1.0);
+}
+`;
+
+const CAMERA_DISTANCE = 6;
+const FIELD_OF_VIEW = Math.PI / 5;
+
+/**
+ * Where the foot sits for the current pointer and scroll position
+ * The pointer turns the foot towards it, scrolling tilts it away and lifts it out of view
+ */
+export function getFootPose({ scrollY, mousePosition, time, animated }: FootPoseInput): FootPose {
+  const idle = animated ? time : 0;
+
+  return {
+    rotationX: 0.35 + (mousePosition.y - 0.5) * 0.4 + Math.min(scrollY, 1000) * 0.0006,
+    rotationY: -0.6 + (mousePosition.x - 0.5) * 0.8 + Math.sin(idle * 0.4) * 0.25,
+    offsetX: (mousePosition.x - 0.5) * 0.15,
+    offsetY: Math.sin(idle * 0.9) * 0.08 + Math.min(scrollY, 1000) * 0.0015,
+    scale: 0.9 + (mousePosition.y - 0.5) * 0.06,
+  };
+}
+
+/**
+ * Move a pose part of the way towards a target, for smooth pointer following
+ */
+export function easeFootPose(current: FootPose, target: FootPose, amount: number): FootPose {
+  const ease = (from: number, to: number) => from + (to - from) * amount;
+
+  return {
+    rotationX: ease(current.rotationX, target.rotationX),
+    rotationY: ease(current.rotationY, target.rotationY),
+    offsetX: ease(current.offsetX, target.offsetX),
+    offsetY: ease(current.offsetY, target.offsetY),
+    scale: ease(current.scale, target.scale),
+  };
+}
+
+// Column-major 4x4 matrices, as WebGL expects them
+function multiply(a: Mat4, b: Mat4): Mat4 {
+  const out = new Float32Array(16);
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[column * 4 + k];
+      }
+      out[column * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+function perspective(fieldOfView: number, aspect: number, near: number, far: number): Mat4 {
+  const f = 1 / Math.tan(fieldOfView / 2);
+  return new Float32Array([
+    f / aspect, 0, 0, 0,
+    0, f, 0, 0,
+    0, 0, (far + near) / (near - far), -1,
+    0, 0, (2 * far * near) / (near - far), 0,
+  ]);
+}
+
+function translation(x: number, y: number, z: number): Mat4 {
+  return new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, x, y, z, 1]);
+}
+
+function rotationX(angle: number): Mat4 {
+  const [c, s] = [Math.cos(angle), Math.sin(angle)];
+  return new Float32Array([1, 0, 0, 0, 0, c, s, 0, 0, -s, c, 0, 0, 0, 0, 1]);
+}
+
+function rotationY(angle: number): Mat4 {
+  const [c, s] = [Math.cos(angle), Math.sin(angle)];
+  return new Float32Array([c, 0, -s, 0, 0, 1, 0, 0, s, 0, c, 0, 0, 0, 0, 1]);
+}
+
+function scaling(factor: number): Mat4 {
+  return new Float32Array([factor, 0, 0, 0, 0, factor, 0, 0, 0, 0, factor, 0, 0, 0, 0, 1]);
+}
+
+/**
+ * Model matrix for a pose: scale, turn, then move into place
+ */
+export function getFootModelMatrix(pose: FootPose): Mat4 {
+  return [translation(pose.offsetX, pose.offsetY, 0), rotationX(pose.rotationX), rotationY(pose.rotationY), scaling(pose.scale)].reduce(
+    multiply
+  );
+}
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    return null;
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.warn('Foot scene shader failed to compile:', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGLRenderingContext): WebGLProgram | null {
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = vertexShader && fragmentShader ? gl.createProgram() : null;
+
+  if (program && vertexShader && fragmentShader) {
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+  }
+  // Linked programs keep working after their shaders are flagged for deletion
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+
+  if (program && !gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.warn('Foot scene program failed to link:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+function createBuffer(gl: WebGLRenderingContext, target: number, data: BufferSource): WebGLBuffer | null {
+  const buffer = gl.createBuffer();
+  uploadBuffer(gl, target, buffer, data);
+  return buffer;
+}
+
+function uploadBuffer(gl: WebGLRenderingContext, target: number, buffer: WebGLBuffer | null, data: BufferSource): void {
+  gl.bindBuffer(target, buffer);
+  gl.bufferData(target, data, gl.STATIC_DRAW);
+}
+
+/**
+ * Set up the foot scene on a canvas, or return null when WebGL can't be used
+ * The canvas is sized to its CSS box (times the device pixel ratio, capped at 2) on every render
+ */
+export function createFootScene(canvas: HTMLCanvasElement, options: FootSceneOptions = {}): FootScene | null {
+  if (typeof window === 'undefined' || typeof window.WebGLRenderingContext === 'undefined') {
+    return null;
+  }
+
+  let gl: WebGLRenderingContext | null = null;
+  try {
+    gl = canvas.getContext('webgl', {
+      alpha: true,
+      antialias: options.antialias ?? true,
+      premultipliedAlpha: true,
+      powerPreference: 'low-power',
+    });
+  } catch (error) {
+    console.warn('WebGL context creation failed:', error);
+  }
+
+  const program = gl && createProgram(gl);
+  if (!gl || !program) {
+    return null;
+  }
+
+  const geometry = createFootGeometry(options);
+  let indexCount = geometry.indices.length;
+  const positionBuffer = createBuffer(gl, gl.ARRAY_BUFFER, geometry.positions);
+  const normalBuffer = createBuffer(gl, gl.ARRAY_BUFFER, geometry.normals);
+  const indexBuffer = createBuffer(gl, gl.ELEMENT_ARRAY_BUFFER, geometry.indices);
+
+  const attributes = {
+    position: gl.getAttribLocation(program, 'position'),
+    normal: gl.getAttribLocation(program, 'normal'),
+  };
+  const uniforms = {
+    model: gl.getUniformLocation(program, 'model'),
+    viewProjection: gl.getUniformLocation(program, 'viewProjection'),
+    mainColor: gl.getUniformLocation(program, 'mainColor'),
+    accentColor: gl.getUniformLocation(program, 'accentColor'),
+  };
+
+  gl.useProgram(program);
+  gl.uniform3fv(uniforms.mainColor, MAIN_COLOR);
+  gl.uniform3fv(uniforms.accentColor, ACCENT_COLOR);
+  gl.enable(gl.DEPTH_TEST);
+  gl.enable(gl.CULL_FACE);
+  gl.clearColor(0, 0, 0, 0);
+
+  const bindAttribute = (context: WebGLRenderingContext, location: number, buffer: WebGLBuffer | null) => {
+    context.bindBuffer(context.ARRAY_BUFFER, buffer);
+    context.enableVertexAttribArray(location);
+    context.vertexAttribPointer(location, 3, context.FLOAT, false, 0, 0);
+  };
+  bindAttribute(gl, attributes.position, positionBuffer);
+  bindAttribute(gl, attributes.normal, normalBuffer);
+  gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+
+  const context = gl;
+
+  return {
+    render(pose) {
+      if (context.isContextLost()) {
+        return;
+      }
+
+      const pixelRatio = Math.min(window.devicePixelRatio || 1, 2);
+      const width = Math.max(1, Math.round(canvas.clientWidth * pixelRatio));
+      const height = Math.max(1, Math.round(canvas.clientHeight * pixelRatio));
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      const aspect = width / height;
+      // On wide screens the foot sits right of the headline, like the CSS scene's shape
+      const camera = multiply(
+        perspective(FIELD_OF_VIEW, aspect, 0.1, 50),
+        translation(aspect > 1.2 ? 1.4 : 0, aspect > 1.2 ? 0 : -0.6, -CAMERA_DISTANCE)
+      );
+
+      context.viewport(0, 0, width, height);
+      context.clear(context.COLOR_BUFFER_BIT | context.DEPTH_BUFFER_BIT);
+      context.uniformMatrix4fv(uniforms.viewProjection, false, camera);
+      context.uniformMatrix4fv(uniforms.model, false, getFootModelMatrix(pose));
+      context.drawElements(context.TRIANGLES, indexCount, context.UNSIGNED_SHORT, 0);
+    },
+
+    setGeometry(geometryOptions) {
+      const next = createFootGeometry(geometryOptions);
+      // The attribute pointers keep referring to the same buffers, only their contents change
+      uploadBuffer(context, context.ARRAY_BUFFER, positionBuffer, next.positions);
+      uploadBuffer(context, context.ARRAY_BUFFER, normalBuffer, next.normals);
+      uploadBuffer(context, context.ELEMENT_ARRAY_BUFFER, indexBuffer, next.indices);
+      indexCount = next.indices.length;
+    },
+
+    dispose() {
+      context.deleteBuffer(positionBuffer);
+      context.deleteBuffer(normalBuffer);
+      context.deleteBuffer(indexBuffer);
+      context.deleteProgram(program);
+    },
+  };
+}
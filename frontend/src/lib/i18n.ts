@@ -0,0 +1,104 @@
+/**
+ * Internationalization
+ * Locale list, message catalogs and lookup helpers shared by the
+ * [locale] routes, the middleware and client components
+ */
+
+import es from '@/messages/es.json';
+import en from '@/messages/en.json';
+import pt from '@/messages/pt.json';
+
+export const LOCALES = ['es', 'en', 'pt'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'es';
+export const LOCALE_COOKIE = 'NEXT_LOCALE';
+
+// Spanish is the reference catalog; the other catalogs must match its shape
+export type Messages = typeof es;
+
+export const catalogs: Record<Locale, Messages> = { es, en, pt };
+
+export const localeInfo: Record<Locale, { label: string; htmlLang: string; ogLocale: string }> = {
+  es: { label: 'Español', htmlLang: 'es-CL', ogLocale: 'es_CL' },
+  en: { label: 'English', htmlLang: 'en', ogLocale: 'en_US' },
+  pt: { label: 'Português', htmlLang: 'pt-BR', ogLocale: 'pt_BR' },
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+export function getMessages(locale: Locale): Messages {
+  return catalogs[locale];
+}
+
+/**
+ * Replace `{name}` placeholders with the given values
+ */
+export function interpolate(template: string, values: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+}
+
+/**
+ * Look up a dotted key (e.g. "contact.fields.email.label") and interpolate it.
+ * Missing keys return the key itself so gaps are visible instead of blank
+ */
+export function translate(
+  messages: Messages,
+  key: string,
+  values?: Record<string, string | number>
+): string {
+  const value = key.split('.').reduce<unknown>(
+    (node, segment) =>
+      node !== null && typeof node === 'object' ? (node as Record<string, unknown>)[segment] : undefined,
+    messages
+  );
+
+  return typeof value === 'string' ? interpolate(value, values) : key;
+}
+
+/**
+ * Pick the best supported locale from an Accept-Language header
+ */
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.toLowerCase(), q: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter((entry) => entry.tag && !Number.isNaN(entry.q) && entry.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranked) {
+    const base = tag.split('-')[0];
+    if (isLocale(base)) return base;
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Locale prefix of a pathname, e.g. "/pt/privacy" -> "pt"
+ */
+export function getLocaleFromPath(pathname: string): Locale | null {
+  const segment = pathname.split('/')[1];
+  return isLocale(segment) ? segment : null;
+}
+
+/**
+ * Prefix a pathname with the locale, replacing any existing prefix
+ */
+export function localizePath(pathname: string, locale: Locale): string {
+  const current = getLocaleFromPath(pathname);
+  const rest = current ? pathname.slice(current.length + 1) : pathname;
+  const normalized = rest === '/' ? '' : rest;
+
+  return `/${locale}${normalized && !normalized.startsWith('/') ? `/${normalized}` : normalized}`;
+}
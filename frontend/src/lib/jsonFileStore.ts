@@ -0,0 +1,69 @@
+/**
+ * Minimal JSON-array file store with serialized read-modify-write updates
+ * Backs the local lead and booking storage adapters
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface JsonFileStore<T> {
+  read(): Promise<T[]>;
+  /**
+   * Run a mutation against the current items and persist them afterwards.
+   * If the mutation throws, nothing is written and the error is rethrown.
+   */
+  update<R>(mutate: (items: T[]) => R): Promise<R>;
+}
+
+export interface JsonFileStoreOptions {
+  // Oldest items beyond this are dropped on every update
+  maxItems?: number;
+}
+
+/**
+ * Default location for local data files, relative to the app root
+ */
+export function getDataFilePath(fileName: string): string {
+  return path.join(process.cwd(), '.data', fileName);
+}
+
+export function createJsonFileStore<T>(filePath: string, { maxItems }: JsonFileStoreOptions = {}): JsonFileStore<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const readItems = async (): Promise<T[]> => {
+    try {
+      const contents = await fs.readFile(filePath, 'utf8');
+      return JSON.parse(contents) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  };
+
+  return {
+    read() {
+      return queue.then(readItems);
+    },
+
+    update(mutate) {
+      const operation = queue.then(async () => {
+        const items = await readItems();
+        const result = mutate(items);
+        if (maxItems !== undefined && items.length > maxItems) {
+          items.splice(0, items.length - maxItems);
+        }
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(items, null, 2), 'utf8');
+
+        return result;
+      });
+
+      // Keep the queue alive even if this update fails
+      queue = operation.catch(() => undefined);
+      return operation;
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Pluggable persistence for contact leads
+ * Defaults to a local JSON file; swap the adapter with setLeadStorage()
+ */
+
+import { randomUUID } from 'crypto';
+import { createJsonFileStore, getDataFilePath } from './jsonFileStore';
+import type { ContactFormData, Lead } from '@/types';
+
+export interface LeadStorage {
+  save(data: ContactFormData): Promise<Lead>;
+  list(): Promise<Lead[]>;
+}
+
+const DEFAULT_LEADS_FILE = getDataFilePath('leads.json');
+
+function createLead(data: ContactFormData): Lead {
+  return {
+    ...data,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * JSON file storage, writes are serialized to avoid lost updates
+ */
+export function createFileLeadStorage(filePath: string = DEFAULT_LEADS_FILE): LeadStorage {
+  const store = createJsonFileStore<Lead>(filePath);
+
+  return {
+    save(data) {
+      return store.update((leads) => {
+        const lead = createLead(data);
+        leads.push(lead);
+        return lead;
+      });
+    },
+
+    list() {
+      return store.read();
+    },
+  };
+}
+
+/**
+ * In-memory storage, useful for tests and previews
+ */
+export function createMemoryLeadStorage(): LeadStorage {
+  const leads: Lead[] = [];
+
+  return {
+    async save(data) {
+      const lead = createLead(data);
+      leads.push(lead);
+      return lead;
+    },
+
+    async list() {
+      return [...leads];
+    },
+  };
+}
+
+let activeStorage: LeadStorage | null = null;
+
+/**
+ * Get the active lead storage (file storage unless overridden)
+ */
+export function getLeadStorage(): LeadStorage {
+  if (!activeStorage) {
+    activeStorage = createFileLeadStorage(process.env.LEADS_STORAGE_PATH || DEFAULT_LEADS_FILE);
+  }
+  return activeStorage;
+}
+
+/**
+ * Override the active lead storage; pass null to restore the default
+ */
+export function setLeadStorage(storage: LeadStorage | null): void {
+  activeStorage = storage;
+}
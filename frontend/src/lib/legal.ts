@@ -0,0 +1,122 @@
+/**
+ * Versioned legal documents (privacy, terms, cookies)
+ * Each version is a Markdown file at `content/<locale>/legal/<document>/<YYYY-MM-DD>.md`,
+ * named after the date it took effect. The newest file is the current version;
+ * older ones stay published at `/<locale>/<document>/<YYYY-MM-DD>`
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { localeInfo, type Locale } from './i18n';
+import { getTableOfContents, parseMarkdown, type MarkdownBlock, type TableOfContentsEntry } from './markdown';
+
+export const LEGAL_DOCUMENTS = ['privacy', 'terms', 'cookies'] as const;
+
+export type LegalDocumentId = (typeof LEGAL_DOCUMENTS)[number];
+
+export interface LegalDocument {
+  id: LegalDocumentId;
+  locale: Locale;
+  title: string;
+  description: string;
+  version: string;
+  // Every version, newest first
+  versions: string[];
+  isCurrent: boolean;
+  blocks: MarkdownBlock[];
+  toc: TableOfContentsEntry[];
+}
+
+const DEFAULT_CONTENT_DIR = path.join(process.cwd(), 'content');
+
+const VERSION_FILE = /^(\d{4}-\d{2}-\d{2})\.md$/;
+
+const frontmatterSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+});
+
+export function isLegalDocumentId(value: unknown): value is LegalDocumentId {
+  return LEGAL_DOCUMENTS.includes(value as LegalDocumentId);
+}
+
+export function isLegalVersion(value: unknown): value is string {
+  return typeof value === 'string' && VERSION_FILE.test(`${value}.md`);
+}
+
+function getDocumentDir(id: LegalDocumentId, locale: Locale, rootDir: string): string {
+  return path.join(rootDir, locale, 'legal', id);
+}
+
+/**
+ * Published versions of a document, newest first
+ */
+export async function listLegalVersions(
+  id: LegalDocumentId,
+  locale: Locale,
+  rootDir: string = DEFAULT_CONTENT_DIR
+): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getDocumentDir(id, locale, rootDir));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  return files
+    .map((file) => file.match(VERSION_FILE)?.[1])
+    .filter((version): version is string => Boolean(version))
+    .sort()
+    .reverse();
+}
+
+/**
+ * Load a version of a document (the current one by default), or null if it doesn't exist.
+ * Throws when the file's front matter is invalid so broken documents fail the build
+ */
+export async function loadLegalDocument(
+  id: LegalDocumentId,
+  locale: Locale,
+  version?: string,
+  rootDir: string = DEFAULT_CONTENT_DIR
+): Promise<LegalDocument | null> {
+  const versions = await listLegalVersions(id, locale, rootDir);
+  const selected = version ?? versions[0];
+  if (!selected || !versions.includes(selected)) {
+    return null;
+  }
+
+  const filePath = path.join(getDocumentDir(id, locale, rootDir), `${selected}.md`);
+  const { frontmatter, blocks } = parseMarkdown(await fs.readFile(filePath, 'utf8'));
+  const meta = frontmatterSchema.safeParse(frontmatter);
+  if (!meta.success) {
+    throw new Error(`Invalid front matter in ${filePath}:\n${z.prettifyError(meta.error)}`);
+  }
+
+  return {
+    id,
+    locale,
+    ...meta.data,
+    version: selected,
+    versions,
+    isCurrent: selected === versions[0],
+    blocks,
+    toc: getTableOfContents(blocks),
+  };
+}
+
+/**
+ * Long date for a version in the page's language, e.g. "1 de septiembre de 2025"
+ */
+export function formatLegalDate(version: string, locale: Locale): string {
+  return new Intl.DateTimeFormat(localeInfo[locale].htmlLang, {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(`${version}T00:00:00Z`));
+}
@@ -0,0 +1,192 @@
+/**
+ * Minimal Markdown parser for long-form content (legal documents)
+ * Supports front matter, headings, paragraphs, ordered/unordered lists, bold,
+ * italics and links. Output is a small syntax tree rendered by React components,
+ * so no HTML from content files ever reaches the page
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; id: string; text: string; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+export interface MarkdownDocument {
+  frontmatter: Record<string, string>;
+  blocks: MarkdownBlock[];
+}
+
+export interface TableOfContentsEntry {
+  id: string;
+  text: string;
+  level: number;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const UNORDERED_ITEM = /^[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+[.)]\s+(.*)$/;
+const INLINE = /\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+// Relative paths, in-page anchors and web/mail/phone links only
+const SAFE_HREF = /^(?:\/(?!\/)|#|https?:\/\/|mailto:|tel:)/i;
+
+/**
+ * URL-friendly id for a heading, e.g. "¿Qué datos recopilamos?" -> "que-datos-recopilamos"
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parse bold, italics and links within a line of text
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of Array.from(text.matchAll(INLINE))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      nodes.push({ type: 'text', value: text.slice(lastIndex, index) });
+    }
+
+    const [source, strong, strongAlt, emphasis, emphasisAlt, label, href] = match;
+    if (strong ?? strongAlt) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (emphasis ?? emphasisAlt) {
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis ?? emphasisAlt) });
+    } else if (SAFE_HREF.test(href)) {
+      nodes.push({ type: 'link', href, children: parseInline(label) });
+    } else {
+      nodes.push({ type: 'text', value: source });
+    }
+
+    lastIndex = index + source.length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+
+  return nodes;
+}
+
+/**
+ * Plain text of inline nodes, used for heading ids and the table of contents
+ */
+export function inlineText(nodes: MarkdownInline[]): string {
+  return nodes.map((node) => (node.type === 'text' ? node.value : inlineText(node.children))).join('');
+}
+
+function parseFrontmatter(source: string): { frontmatter: Record<string, string>; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { frontmatter: {}, body: source };
+  }
+
+  const frontmatter: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      const value = line.slice(separator + 1).trim().replace(/^(["'])(.*)\1$/, '$2');
+      frontmatter[line.slice(0, separator).trim()] = value;
+    }
+  });
+
+  return { frontmatter, body: source.slice(match[0].length) };
+}
+
+/**
+ * Parse a Markdown document into front matter and blocks
+ */
+export function parseMarkdown(source: string): MarkdownDocument {
+  const { frontmatter, body } = parseFrontmatter(source);
+  const blocks: MarkdownBlock[] = [];
+  const usedIds = new Map<string, number>();
+
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+      list = null;
+    }
+  };
+
+  // Repeated headings get a numeric suffix so every anchor stays unique
+  const uniqueId = (text: string) => {
+    const base = slugify(text) || 'section';
+    const count = usedIds.get(base) ?? 0;
+    usedIds.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count + 1}`;
+  };
+
+  body.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+
+    if (line === '') {
+      flush();
+      return;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      const children = parseInline(heading[2]);
+      const text = inlineText(children);
+      blocks.push({ type: 'heading', level: heading[1].length, id: uniqueId(text), text, children });
+      return;
+    }
+
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = unordered ? null : line.match(ORDERED_ITEM);
+    const item = unordered ?? ordered;
+    if (item) {
+      if (paragraph.length > 0 || (list && list.ordered !== Boolean(ordered))) {
+        flush();
+      }
+      list = list ?? { ordered: Boolean(ordered), items: [] };
+      list.items.push(item[1]);
+      return;
+    }
+
+    // Indented lines continue the current list item; anything else is paragraph text
+    if (list && /^\s/.test(rawLine)) {
+      list.items[list.items.length - 1] += ` ${line}`;
+      return;
+    }
+    if (list) {
+      flush();
+    }
+    paragraph.push(line);
+  });
+
+  flush();
+  return { frontmatter, blocks };
+}
+
+/**
+ * Section and subsection headings (h2/h3) for a table of contents
+ */
+export function getTableOfContents(blocks: MarkdownBlock[]): TableOfContentsEntry[] {
+  return blocks.flatMap((block) =>
+    block.type === 'heading' && (block.level === 2 || block.level === 3)
+      ? [{ id: block.id, text: block.text, level: block.level }]
+      : []
+  );
+}
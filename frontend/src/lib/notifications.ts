@@ -0,0 +1,338 @@
+/**
+ * Lead notification dispatcher
+ * Fans out new leads to sales through pluggable channels (email, WhatsApp, webhooks)
+ * with retries and exponential backoff per channel
+ */
+
+import { retryWithBackoff, type RetryConfig } from './retry';
+import { PLAN_OPTIONS } from './plans';
+import { formatPhone } from './phone';
+import { describeTouch } from './attribution';
+import { CHILEAN_REGIONS, PROFESSIONALS_RANGES, getOptionLabel } from './validation';
+import type { Lead } from '@/types';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface HttpRequest {
+  url: string;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Low-level delivery mechanism used by channels
+ */
+export interface NotificationTransport {
+  sendEmail(message: EmailMessage): Promise<void>;
+  postJson(request: HttpRequest): Promise<void>;
+}
+
+export interface NotificationChannel {
+  name: string;
+  send(lead: Lead): Promise<void>;
+}
+
+export interface NotificationResult {
+  channel: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface NotificationError extends Error {
+  retryable: boolean;
+  status?: number;
+}
+
+export interface NotificationDispatcher {
+  notify(lead: Lead): Promise<NotificationResult[]>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+const NOTIFICATION_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 8000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * Create a notification error; client errors other than 429 are not worth retrying
+ */
+export function createNotificationError(message: string, status?: number): NotificationError {
+  const error = new Error(message) as NotificationError;
+  error.status = status;
+  error.retryable = status === undefined || status === 429 || status >= 500;
+  return error;
+}
+
+function isRetryable(error: Error): boolean {
+  return (error as Partial<NotificationError>).retryable ?? true;
+}
+
+/**
+ * Plain-text summary of a lead shared by all channels
+ */
+export function formatLeadSummary(lead: Lead): string {
+  return [
+    'Nueva solicitud de demostración',
+    `Nombre: ${lead.fullName}`,
+    `Email: ${lead.email}`,
+    `WhatsApp: ${formatPhone(lead.whatsapp, lead.phoneCountry)}`,
+    `Clínica: ${lead.clinicName}`,
+    `Profesionales: ${getOptionLabel(PROFESSIONALS_RANGES, lead.professionals) ?? lead.professionals}`,
+    lead.region && `Región: ${getOptionLabel(CHILEAN_REGIONS, lead.region) ?? lead.region}`,
+    lead.city && `Ciudad: ${lead.city}`,
+    lead.plan && `Plan de interés: ${getOptionLabel(PLAN_OPTIONS, lead.plan) ?? lead.plan}`,
+    lead.currentSoftware && `Software actual: ${lead.currentSoftware}`,
+    lead.attribution && `Primer contacto: ${describeTouch(lead.attribution.firstTouch)} en ${lead.attribution.firstTouch.landingPage}`,
+    lead.attribution && `Último contacto: ${describeTouch(lead.attribution.lastTouch)} en ${lead.attribution.lastTouch.landingPage}`,
+    lead.attribution?.sectionsViewed.length && `Secciones vistas: ${lead.attribution.sectionsViewed.join(', ')}`,
+    lead.experiments && `Variantes: ${Object.entries(lead.experiments).map(([experiment, variant]) => `${experiment}=${variant}`).join(', ')}`,
+    `Recibida: ${lead.createdAt}`,
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Transport that sends email over SMTP and HTTP requests with fetch
+ */
+export function createLiveTransport(smtp?: SmtpConfig): NotificationTransport {
+  return {
+    async sendEmail(message) {
+      if (!smtp) {
+        throw createNotificationError('SMTP is not configured', 400);
+      }
+
+      // Loaded lazily so nodemailer stays out of any client bundle
+      const nodemailer = await import('nodemailer');
+      const transporter = nodemailer.createTransport({
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.secure,
+        auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+      });
+
+      await transporter.sendMail(message);
+    },
+
+    async postJson({ url, body, headers }) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        throw createNotificationError(`HTTP ${response.status}: ${url}`, response.status);
+      }
+    },
+  };
+}
+
+/**
+ * In-memory transport for tests and local development
+ * Records every delivery and can be told to fail the next N attempts
+ */
+export function createFakeTransport() {
+  const emails: EmailMessage[] = [];
+  const requests: HttpRequest[] = [];
+  let failures: { count: number; status?: number } = { count: 0 };
+
+  const attempt = () => {
+    if (failures.count > 0) {
+      failures.count--;
+      throw createNotificationError('Fake transport failure', failures.status);
+    }
+  };
+
+  const transport: NotificationTransport = {
+    async sendEmail(message) {
+      attempt();
+      emails.push(message);
+    },
+
+    async postJson(request) {
+      attempt();
+      requests.push(request);
+    },
+  };
+
+  return {
+    transport,
+    emails,
+    requests,
+    failNext(count: number, status?: number) {
+      failures = { count, status };
+    },
+  };
+}
+
+/**
+ * Email channel delivered over SMTP
+ */
+export function createEmailChannel(
+  transport: NotificationTransport,
+  options: { from: string; to: string }
+): NotificationChannel {
+  return {
+    name: 'email',
+    send(lead) {
+      return transport.sendEmail({
+        from: options.from,
+        to: options.to,
+        subject: `Nueva solicitud de demo: ${lead.fullName}`,
+        text: formatLeadSummary(lead),
+      });
+    },
+  };
+}
+
+/**
+ * WhatsApp Business Cloud API channel
+ */
+export function createWhatsAppChannel(
+  transport: NotificationTransport,
+  options: { phoneNumberId: string; accessToken: string; to: string; apiVersion?: string }
+): NotificationChannel {
+  const apiVersion = options.apiVersion ?? 'v19.0';
+
+  return {
+    name: 'whatsapp',
+    send(lead) {
+      return transport.postJson({
+        url: `https://graph.facebook.com/${apiVersion}/${options.phoneNumberId}/messages`,
+        headers: { Authorization: `Bearer ${options.accessToken}` },
+        body: {
+          messaging_product: 'whatsapp',
+          to: options.to.replace(/\D/g, ''),
+          type: 'text',
+          text: { body: formatLeadSummary(lead) },
+        },
+      });
+    },
+  };
+}
+
+/**
+ * Generic JSON webhook channel (Slack/Zapier/CRM)
+ */
+export function createWebhookChannel(
+  transport: NotificationTransport,
+  options: { url: string; secret?: string }
+): NotificationChannel {
+  return {
+    name: 'webhook',
+    send(lead) {
+      return transport.postJson({
+        url: options.url,
+        headers: options.secret ? { 'X-Webhook-Secret': options.secret } : undefined,
+        body: { event: 'lead.created', lead },
+      });
+    },
+  };
+}
+
+/**
+ * Dispatch a lead to every channel in parallel, retrying each independently
+ * Never throws: failures are reported in the results and logged
+ */
+export function createNotificationDispatcher(
+  channels: NotificationChannel[],
+  retryConfig: RetryConfig = NOTIFICATION_RETRY_CONFIG
+): NotificationDispatcher {
+  return {
+    async notify(lead) {
+      const settled = await Promise.allSettled(
+        channels.map((channel) =>
+          retryWithBackoff(() => channel.send(lead), retryConfig, { isRetryable })
+        )
+      );
+
+      return settled.map((result, index) => {
+        const channel = channels[index].name;
+
+        if (result.status === 'fulfilled') {
+          return { channel, success: true };
+        }
+
+        const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        console.error(`Lead notification via ${channel} failed:`, message);
+        return { channel, success: false, error: message };
+      });
+    },
+  };
+}
+
+/**
+ * Build the channels enabled by environment variables
+ */
+export function createChannelsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  transport?: NotificationTransport
+): NotificationChannel[] {
+  const smtp: SmtpConfig | undefined = env.SMTP_HOST
+    ? {
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      }
+    : undefined;
+  const activeTransport = transport ?? createLiveTransport(smtp);
+  const channels: NotificationChannel[] = [];
+
+  if (smtp && env.LEAD_NOTIFY_EMAIL_TO) {
+    channels.push(createEmailChannel(activeTransport, {
+      from: env.SMTP_FROM || 'Podoclinic <no-reply@podoclinic.cl>',
+      to: env.LEAD_NOTIFY_EMAIL_TO,
+    }));
+  }
+
+  if (env.WHATSAPP_PHONE_NUMBER_ID && env.WHATSAPP_ACCESS_TOKEN && env.WHATSAPP_NOTIFY_TO) {
+    channels.push(createWhatsAppChannel(activeTransport, {
+      phoneNumberId: env.WHATSAPP_PHONE_NUMBER_ID,
+      accessToken: env.WHATSAPP_ACCESS_TOKEN,
+      to: env.WHATSAPP_NOTIFY_TO,
+    }));
+  }
+
+  if (env.LEAD_WEBHOOK_URL) {
+    channels.push(createWebhookChannel(activeTransport, {
+      url: env.LEAD_WEBHOOK_URL,
+      secret: env.LEAD_WEBHOOK_SECRET,
+    }));
+  }
+
+  return channels;
+}
+
+let activeDispatcher: NotificationDispatcher | null = null;
+
+/**
+ * Get the active dispatcher (channels from environment unless overridden)
+ */
+export function getNotificationDispatcher(): NotificationDispatcher {
+  if (!activeDispatcher) {
+    activeDispatcher = createNotificationDispatcher(createChannelsFromEnv());
+  }
+  return activeDispatcher;
+}
+
+/**
+ * Override the active dispatcher; pass null to restore the default
+ */
+export function setNotificationDispatcher(dispatcher: NotificationDispatcher | null): void {
+  activeDispatcher = dispatcher;
+}
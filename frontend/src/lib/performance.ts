@@ -262,27 +262,3 @@ export function useReducedMotion(): boolean {
   
   return reducedMotion;
 }
-
-/**
- * Initialize Web Vitals measurement
- * Measures Core Web Vitals for performance monitoring
- */
-export function measureWebVitals(): void {
-  if (typeof window === 'undefined') return;
-  
-  // Simple performance measurement
-  const observer = new PerformanceObserver((list) => {
-    for (const entry of list.getEntries()) {
-      // Log performance metrics (in production, send to analytics)
-      console.log(`${entry.name}: ${entry.duration}ms`);
-    }
-  });
-  
-  // Observe navigation and resource timing
-  try {
-    observer.observe({ entryTypes: ['navigation', 'resource'] });
-  } catch (error) {
-    // Fallback for browsers that don't support all entry types
-    console.warn('Performance observer not fully supported:', error);
-  }
-}
\ No newline at end of file
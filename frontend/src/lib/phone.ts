@@ -0,0 +1,159 @@
+/**
+ * Country-aware mobile (WhatsApp) number rules
+ * Each supported country knows its dial code, how national numbers are written
+ * and how to group digits for display. Numbers are stored in E.164 (+<dial><number>)
+ */
+
+import type { PhoneCountry } from '@/types';
+
+interface PhoneRule {
+  dialCode: string;
+  // Digits after the dial code in E.164, e.g. "9" + 8 digits for Chile
+  mobilePattern: RegExp;
+  // Number as users write it locally, shown in placeholders and error messages
+  example: string;
+  // Map locally written digits (no dial code) to the E.164 national part, or null
+  toNational: (digits: string) => string | null;
+  // Group the E.164 national part for display
+  format: (national: string) => string;
+}
+
+// Characters users commonly type as phone separators
+const PHONE_SEPARATORS = /[\s().-]/g;
+
+const groups = (digits: string, sizes: number[]) => {
+  let offset = 0;
+  return sizes.map((size) => {
+    const group = digits.slice(offset, offset + size);
+    offset += size;
+    return group;
+  }).join(' ');
+};
+
+// Area codes written with two digits in Mexico (Mexico City, Guadalajara, Monterrey)
+const MX_TWO_DIGIT_AREAS = ['55', '33', '81'];
+
+export const PHONE_RULES: Record<PhoneCountry, PhoneRule> = {
+  CL: {
+    dialCode: '56',
+    mobilePattern: /^9\d{8}$/,
+    example: '912345678',
+    toNational: (digits) => digits,
+    format: (national) => groups(national, [1, 4, 4]),
+  },
+  PE: {
+    dialCode: '51',
+    mobilePattern: /^9\d{8}$/,
+    example: '912345678',
+    toNational: (digits) => digits,
+    format: (national) => groups(national, [3, 3, 3]),
+  },
+  AR: {
+    // WhatsApp uses the international mobile form +54 9 <area code> <number>;
+    // locally numbers are written with a trunk 0 and/or without the 9
+    dialCode: '54',
+    mobilePattern: /^9\d{10}$/,
+    example: '1123456789',
+    toNational: (digits) => {
+      const local = digits.replace(/^0/, '');
+      if (local.length === 10) return `9${local}`;
+      return local.length === 11 ? local : null;
+    },
+    format: (national) =>
+      national.startsWith('911')
+        ? groups(national, [1, 2, 4, 4])
+        : groups(national, [1, 3, 3, 4]),
+  },
+  CO: {
+    dialCode: '57',
+    mobilePattern: /^3\d{9}$/,
+    example: '3001234567',
+    toNational: (digits) => digits,
+    format: (national) => groups(national, [3, 3, 4]),
+  },
+  MX: {
+    // Since 2019 mobiles no longer carry the "1" after the country code; accept it for old contacts
+    dialCode: '52',
+    mobilePattern: /^\d{10}$/,
+    example: '5512345678',
+    toNational: (digits) => (digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits),
+    format: (national) =>
+      MX_TWO_DIGIT_AREAS.includes(national.slice(0, 2))
+        ? groups(national, [2, 4, 4])
+        : groups(national, [3, 3, 4]),
+  },
+};
+
+export const PHONE_COUNTRIES = Object.keys(PHONE_RULES) as [PhoneCountry, ...PhoneCountry[]];
+
+export const DEFAULT_PHONE_COUNTRY: PhoneCountry = 'CL';
+
+export function isPhoneCountry(value: unknown): value is PhoneCountry {
+  return PHONE_COUNTRIES.includes(value as PhoneCountry);
+}
+
+/**
+ * Normalize a mobile number for the given country to E.164.
+ * Accepts an optional +<dial>, <dial> or 00<dial> prefix and common separators.
+ * Returns null for landlines, other countries and malformed input
+ */
+export function normalizePhone(phone: string, country: PhoneCountry = DEFAULT_PHONE_COUNTRY): string | null {
+  const rule = PHONE_RULES[country];
+  let digits = phone.trim().replace(PHONE_SEPARATORS, '');
+  let hasDialCode = false;
+
+  if (digits.startsWith('+')) {
+    digits = digits.slice(1);
+    if (!digits.startsWith(rule.dialCode)) return null;
+    hasDialCode = true;
+  } else if (digits.startsWith(`00${rule.dialCode}`)) {
+    digits = digits.slice(2);
+    hasDialCode = true;
+  }
+
+  if (!/^\d+$/.test(digits)) return null;
+
+  // Without a "+" the dial code is only stripped when what remains is a valid mobile
+  if (digits.startsWith(rule.dialCode)) {
+    const withoutDialCode = rule.toNational(digits.slice(rule.dialCode.length));
+    if (withoutDialCode && rule.mobilePattern.test(withoutDialCode)) {
+      return `+${rule.dialCode}${withoutDialCode}`;
+    }
+    if (hasDialCode) return null;
+  }
+
+  if (hasDialCode) return null;
+
+  const national = rule.toNational(digits);
+  return national && rule.mobilePattern.test(national) ? `+${rule.dialCode}${national}` : null;
+}
+
+/**
+ * Check whether a value is a valid mobile number for the country
+ */
+export function isValidMobile(phone: string, country: PhoneCountry = DEFAULT_PHONE_COUNTRY): boolean {
+  return normalizePhone(phone, country) !== null;
+}
+
+/**
+ * Country of an E.164 number among the supported ones, if any
+ */
+export function detectPhoneCountry(phone: string): PhoneCountry | null {
+  return PHONE_COUNTRIES.find((country) => phone.startsWith('+') && normalizePhone(phone, country)) ?? null;
+}
+
+/**
+ * Format a mobile number for display, e.g. "+56 9 1234 5678".
+ * Without a country the number must carry its dial code.
+ * Returns the input unchanged when it is not a valid mobile
+ */
+export function formatPhone(phone: string, country?: PhoneCountry): string {
+  const resolved = country ?? detectPhoneCountry(phone.trim().replace(PHONE_SEPARATORS, ''));
+  if (!resolved) return phone;
+
+  const normalized = normalizePhone(phone, resolved);
+  if (!normalized) return phone;
+
+  const rule = PHONE_RULES[resolved];
+  return `+${rule.dialCode} ${rule.format(normalized.slice(rule.dialCode.length + 1))}`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Plan preselection shared through the URL
+ * Pricing CTAs write `?plan=<id>#contact` so the contact form (and shared links)
+ * know which plan prompted the demo request
+ */
+
+import { PLAN_IDS } from './plans';
+import type { PlanId } from '@/types';
+
+export const PLAN_PARAM = 'plan';
+export const CONTACT_SECTION_ID = 'contact';
+
+// history.replaceState doesn't emit events, so same-page updates are announced with this one
+export const PLAN_SELECTION_EVENT = 'podoclinic:plan-selection';
+
+export function isPlanId(value: unknown): value is PlanId {
+  return PLAN_IDS.includes(value as PlanId);
+}
+
+/**
+ * Read the preselected plan from the query string, falling back to
+ * hash state such as `#contact?plan=pro` or `#plan=pro`
+ */
+export function readPlanFromUrl(url: Pick<URL, 'search' | 'hash'>): PlanId | null {
+  const fromQuery = new URLSearchParams(url.search).get(PLAN_PARAM);
+  if (isPlanId(fromQuery)) {
+    return fromQuery;
+  }
+
+  const hash = url.hash.replace(/^#/, '');
+  const hashQuery = hash.includes('?') ? hash.slice(hash.indexOf('?') + 1) : hash;
+  const fromHash = new URLSearchParams(hashQuery).get(PLAN_PARAM);
+
+  return isPlanId(fromHash) ? fromHash : null;
+}
+
+/**
+ * Build the URL with the plan set (pointing at the contact section) or removed.
+ * Other query parameters are preserved
+ */
+export function buildPlanUrl(href: string, plan: PlanId | null): string {
+  const url = new URL(href);
+
+  if (plan) {
+    url.searchParams.set(PLAN_PARAM, plan);
+    url.hash = CONTACT_SECTION_ID;
+  } else {
+    url.searchParams.delete(PLAN_PARAM);
+    // Drop plan hash state but keep plain anchors
+    if (readPlanFromUrl({ search: '', hash: url.hash })) {
+      url.hash = CONTACT_SECTION_ID;
+    }
+  }
+
+  return url.toString();
+}
+
+/**
+ * Update the current URL without adding a history entry and notify listeners
+ */
+export function setPlanInUrl(plan: PlanId | null): void {
+  if (typeof window === 'undefined') return;
+
+  const next = buildPlanUrl(window.location.href, plan);
+  if (next !== window.location.href) {
+    window.history.replaceState(window.history.state, '', next);
+  }
+  window.dispatchEvent(new CustomEvent<PlanId | null>(PLAN_SELECTION_EVENT, { detail: plan }));
+}
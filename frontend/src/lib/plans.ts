@@ -0,0 +1,299 @@
+/**
+ * Plan catalog
+ * Single source of plan data for the Pricing cards, plan comparison,
+ * the contact form plan selector and structured data offers.
+ * Prices, limits and capabilities live here; plan copy comes from the content files
+ */
+
+import { getContent } from './content';
+import { DEFAULT_LOCALE, getMessages, interpolate, localeInfo, type Locale, type Messages } from './i18n';
+import type { ExperimentVariant } from './experiments';
+import type { InputOption, PlanCapability, PlanContent, PlanId, PlanLimit, PricingPlan } from '@/types';
+
+type CapabilityQualifier = keyof Messages['pricing']['comparison']['qualifiers'];
+
+interface PlanDefinition {
+  id: PlanId;
+  monthlyPrice: number;
+  popular?: boolean;
+  userLimit: PlanLimit;
+  patientLimit: PlanLimit;
+  capabilities: Partial<Record<PlanCapability, true | CapabilityQualifier>>;
+}
+
+const planDefinitions: ReadonlyArray<PlanDefinition> = [
+  {
+    id: 'basico',
+    monthlyPrice: 0,
+    userLimit: 1,
+    patientLimit: 20,
+    capabilities: {
+      agenda: 'basic',
+      patientRecords: true,
+      emailReminders: true,
+      emailSupport: true,
+    },
+  },
+  {
+    id: 'pro',
+    monthlyPrice: 29990,
+    popular: true,
+    userLimit: 5,
+    patientLimit: 'unlimited',
+    capabilities: {
+      agenda: 'complete',
+      patientRecords: true,
+      emailReminders: true,
+      whatsappReminders: true,
+      inventory: true,
+      stockAlerts: true,
+      expenses: true,
+      basicReports: true,
+      emailSupport: true,
+      prioritySupport: true,
+    },
+  },
+  {
+    id: 'premium',
+    monthlyPrice: 49990,
+    userLimit: 'unlimited',
+    patientLimit: 'unlimited',
+    capabilities: {
+      agenda: 'complete',
+      patientRecords: true,
+      emailReminders: true,
+      whatsappReminders: true,
+      inventory: true,
+      stockAlerts: true,
+      expenses: true,
+      electronicInvoicing: true,
+      basicReports: true,
+      advancedReports: true,
+      accountingIntegration: true,
+      api: true,
+      dailyBackup: true,
+      emailSupport: true,
+      prioritySupport: true,
+      phoneSupport: 'allDay',
+      training: 'personalized',
+    },
+  },
+];
+
+/**
+ * Plan catalog with names, features and qualifiers in the catalog's language
+ * Plan copy defaults to the bundled content files; pass CMS or draft copy to override it
+ */
+export function localizePlans(
+  locale: Locale = DEFAULT_LOCALE,
+  plans: Record<PlanId, PlanContent> = getContent(locale).plans
+): PricingPlan[] {
+  const { qualifiers } = getMessages(locale).pricing.comparison;
+
+  return planDefinitions.map(({ capabilities, ...definition }) => {
+    const copy = plans[definition.id];
+
+    return {
+      ...definition,
+      name: copy.name,
+      description: copy.description,
+      features: copy.features,
+      ...(copy.limitations.length > 0 ? { limitations: copy.limitations } : {}),
+      capabilities: Object.fromEntries(
+        Object.entries(capabilities).map(([capability, value]) => [
+          capability,
+          value === true ? true : qualifiers[value],
+        ])
+      ),
+      ctaLabel: copy.cta,
+    };
+  });
+}
+
+export const pricingPlans: ReadonlyArray<PricingPlan> = localizePlans();
+
+export const PLAN_IDS = pricingPlans.map((plan) => plan.id) as [PlanId, ...PlanId[]];
+
+// Options for the contact form plan selector
+export const PLAN_OPTIONS: ReadonlyArray<InputOption & { value: PlanId }> = pricingPlans.map((plan) => ({
+  value: plan.id,
+  label: plan.name,
+}));
+
+export function getPlan(id: PlanId): PricingPlan {
+  const plan = pricingPlans.find((candidate) => candidate.id === id);
+  if (!plan) {
+    throw new Error(`Unknown plan: ${id}`);
+  }
+  return plan;
+}
+
+export function isFreePlan(plan: PricingPlan): boolean {
+  return plan.monthlyPrice === 0;
+}
+
+/**
+ * Move or hide the "most popular" highlight for the pricingBadge experiment
+ */
+export function applyPopularBadge<T extends PricingPlan>(
+  plans: ReadonlyArray<T>,
+  variant: ExperimentVariant<'pricingBadge'>
+): T[] {
+  if (variant === 'control') {
+    return [...plans];
+  }
+  return plans.map((plan) => ({ ...plan, popular: variant === 'premium' && plan.id === 'premium' }));
+}
+
+function formatCount(count: number, locale: Locale): string {
+  return count.toLocaleString(localeInfo[locale].htmlLang);
+}
+
+/**
+ * Human readable user limit, e.g. "1 usuario", "Hasta 5 usuarios"
+ */
+export function formatUserLimit(limit: PlanLimit, locale: Locale = DEFAULT_LOCALE): string {
+  const { limits } = getMessages(locale).pricing;
+  if (limit === 'unlimited') return limits.usersUnlimited;
+  return limit === 1 ? limits.userOne : interpolate(limits.users, { count: formatCount(limit, locale) });
+}
+
+/**
+ * Human readable patient limit, e.g. "Hasta 20 pacientes"
+ */
+export function formatPatientLimit(limit: PlanLimit, locale: Locale = DEFAULT_LOCALE): string {
+  const { limits } = getMessages(locale).pricing;
+  if (limit === 'unlimited') return limits.patientsUnlimited;
+  return interpolate(limits.patients, { count: formatCount(limit, locale) });
+}
+
+/**
+ * Feature bullets for a plan card: limits first, then the plan's features
+ */
+export function getPlanHighlights(plan: PricingPlan, locale: Locale = DEFAULT_LOCALE): string[] {
+  return [
+    formatUserLimit(plan.userLimit, locale),
+    formatPatientLimit(plan.patientLimit, locale),
+    ...plan.features,
+  ];
+}
+
+/**
+ * schema.org Offer for each plan (monthly list price in CLP), in the catalog language unless localized plans are passed
+ */
+export function getPlanOffers(url: string, plans: ReadonlyArray<PricingPlan> = pricingPlans) {
+  return plans.map((plan) => ({
+    '@type': 'Offer',
+    name: plan.name,
+    description: plan.description,
+    price: plan.monthlyPrice,
+    priceCurrency: 'CLP',
+    availability: 'https://schema.org/InStock',
+    url,
+    ...(isFreePlan(plan)
+      ? {}
+      : {
+          priceSpecification: {
+            '@type': 'UnitPriceSpecification',
+            price: plan.monthlyPrice,
+            priceCurrency: 'CLP',
+            unitCode: 'MON',
+            referenceQuantity: { '@type': 'QuantitativeValue', value: 1, unitCode: 'MON' },
+          },
+        }),
+  }));
+}
+
+export type ComparisonCell =
+  | { type: 'check' }
+  | { type: 'cross' }
+  | { type: 'limit'; label: string };
+
+export interface ComparisonRow {
+  id: string;
+  label: string;
+  cells: ComparisonCell[]; // one per plan, in catalog order
+}
+
+export interface ComparisonCategory {
+  id: string;
+  label: string;
+  rows: ComparisonRow[];
+}
+
+type ComparisonCategoryId = keyof Messages['pricing']['comparison']['categories'];
+type ComparisonRowSource =
+  | { id: PlanCapability }
+  | { id: 'users' | 'patients'; limit: (plan: PricingPlan) => PlanLimit };
+
+const comparisonLayout: { id: ComparisonCategoryId; rows: ComparisonRowSource[] }[] = [
+  {
+    id: 'capacity',
+    rows: [
+      { id: 'users', limit: (plan) => plan.userLimit },
+      { id: 'patients', limit: (plan) => plan.patientLimit },
+    ],
+  },
+  {
+    id: 'scheduling',
+    rows: [{ id: 'agenda' }, { id: 'patientRecords' }, { id: 'emailReminders' }, { id: 'whatsappReminders' }],
+  },
+  {
+    id: 'operations',
+    rows: [{ id: 'inventory' }, { id: 'stockAlerts' }, { id: 'expenses' }],
+  },
+  {
+    id: 'billing',
+    rows: [
+      { id: 'electronicInvoicing' },
+      { id: 'basicReports' },
+      { id: 'advancedReports' },
+      { id: 'accountingIntegration' },
+      { id: 'api' },
+    ],
+  },
+  {
+    id: 'support',
+    rows: [
+      { id: 'emailSupport' },
+      { id: 'prioritySupport' },
+      { id: 'phoneSupport' },
+      { id: 'training' },
+      { id: 'dailyBackup' },
+    ],
+  },
+];
+
+function formatLimit(limit: PlanLimit, locale: Locale): string {
+  return limit === 'unlimited' ? getMessages(locale).pricing.limits.unlimited : formatCount(limit, locale);
+}
+
+function getCapabilityCell(plan: PricingPlan, capability: PlanCapability): ComparisonCell {
+  const value = plan.capabilities[capability];
+  if (value === undefined) return { type: 'cross' };
+  return value === true ? { type: 'check' } : { type: 'limit', label: value };
+}
+
+/**
+ * Feature comparison matrix grouped by category, with one cell per plan
+ */
+export function getComparisonTable(
+  plans: ReadonlyArray<PricingPlan> = pricingPlans,
+  locale: Locale = DEFAULT_LOCALE
+): ComparisonCategory[] {
+  const { categories, rows } = getMessages(locale).pricing.comparison;
+
+  return comparisonLayout.map((category) => ({
+    id: category.id,
+    label: categories[category.id],
+    rows: category.rows.map((row) => ({
+      id: row.id,
+      label: rows[row.id],
+      cells: plans.map((plan) =>
+        'limit' in row
+          ? { type: 'limit' as const, label: formatLimit(row.limit(plan), locale) }
+          : getCapabilityCell(plan, row.id)
+      ),
+    })),
+  }));
+}
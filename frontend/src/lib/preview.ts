@@ -0,0 +1,26 @@
+/**
+ * Draft preview helpers for the /api/preview routes
+ * Editors open `/api/preview?secret=<PREVIEW_SECRET>&slug=/es` to see unpublished content
+ */
+
+import { DEFAULT_LOCALE, getLocaleFromPath } from './i18n';
+import { isValidSecret } from './secrets';
+
+/**
+ * Compare the preview secret in constant time; previews are disabled without a configured secret
+ */
+export function isValidPreviewSecret(secret: string | null, expected: string | undefined = process.env.PREVIEW_SECRET): boolean {
+  return isValidSecret(secret, expected);
+}
+
+/**
+ * Page to open after toggling draft mode
+ * Only same-site paths under a locale are allowed, so the route can't be used as an open redirect
+ */
+export function getPreviewRedirectPath(slug: string | null): string {
+  if (!slug || !slug.startsWith('/') || slug.startsWith('//') || slug.includes('\\')) {
+    return `/${DEFAULT_LOCALE}`;
+  }
+
+  return getLocaleFromPath(slug) ? slug : `/${DEFAULT_LOCALE}`;
+}
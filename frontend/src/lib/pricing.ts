@@ -0,0 +1,59 @@
+/**
+ * Pricing calculations for monthly and annual billing
+ * Amounts are whole Chilean pesos (CLP has no minor unit)
+ */
+
+import { formatPrice } from './currency';
+
+export type BillingPeriod = 'monthly' | 'annual';
+
+// Discount applied to annual billing, as a fraction of twelve monthly payments
+export const DEFAULT_ANNUAL_DISCOUNT = 0.15;
+
+export interface PlanPrice {
+  period: BillingPeriod;
+  total: number; // amount billed per period
+  monthlyEquivalent: number;
+  savings: number; // vs. paying monthly for the same time
+}
+
+/**
+ * Format an amount as Chilean pesos, e.g. 29990 -> "$29.990"
+ */
+export function formatCLP(amount: number): string {
+  return formatPrice(amount, 'CLP');
+}
+
+/**
+ * Compute the price billed for a period from the monthly list price
+ */
+export function getPlanPrice(
+  monthlyPrice: number,
+  period: BillingPeriod,
+  annualDiscount: number = DEFAULT_ANNUAL_DISCOUNT
+): PlanPrice {
+  if (annualDiscount < 0 || annualDiscount >= 1) {
+    throw new RangeError(`Annual discount must be in [0, 1), got ${annualDiscount}`);
+  }
+
+  if (period === 'monthly') {
+    return { period, total: monthlyPrice, monthlyEquivalent: monthlyPrice, savings: 0 };
+  }
+
+  const fullYear = monthlyPrice * 12;
+  const total = Math.round(fullYear * (1 - annualDiscount));
+
+  return {
+    period,
+    total,
+    monthlyEquivalent: Math.round(total / 12),
+    savings: fullYear - total,
+  };
+}
+
+/**
+ * Discount as a whole percentage for labels, e.g. 0.15 -> 15
+ */
+export function getDiscountPercent(annualDiscount: number = DEFAULT_ANNUAL_DISCOUNT): number {
+  return Math.round(annualDiscount * 100);
+}
@@ -0,0 +1,158 @@
+/**
+ * Token bucket rate limiting with a swappable state store
+ * The in-memory store is per server instance; plug in a shared store for multi-instance deployments
+ */
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<TokenBucketState | undefined>;
+  // `ttlMs` is the time until the bucket is full again; after that it can be dropped
+  set(key: string, state: TokenBucketState, ttlMs: number): Promise<void>;
+}
+
+export interface RateLimitConfig {
+  capacity: number; // Maximum burst size
+  refillIntervalMs: number; // Time to regain one token
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  consume(key: string, now?: number): Promise<RateLimitResult>;
+}
+
+export interface MemoryRateLimitStoreOptions {
+  maxBuckets?: number;
+}
+
+interface MemoryBucket {
+  state: TokenBucketState;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_BUCKETS = 10_000;
+
+/**
+ * In-memory store backed by a Map kept in least recently updated order
+ * Buckets are dropped once they are full again (a missing bucket counts as full) and
+ * the oldest ones go first when there are more than `maxBuckets`
+ */
+export function createMemoryRateLimitStore({ maxBuckets = DEFAULT_MAX_BUCKETS }: MemoryRateLimitStoreOptions = {}): RateLimitStore {
+  const buckets = new Map<string, MemoryBucket>();
+
+  return {
+    async get(key) {
+      return buckets.get(key)?.state;
+    },
+
+    async set(key, state, ttlMs) {
+      buckets.delete(key);
+      buckets.set(key, { state, expiresAt: state.updatedAt + ttlMs });
+
+      // Oldest first; stop at the first bucket that is still needed
+      const oldest = buckets.entries();
+      for (let entry = oldest.next(); !entry.done; entry = oldest.next()) {
+        const [oldestKey, bucket] = entry.value;
+        if (buckets.size <= maxBuckets && bucket.expiresAt > state.updatedAt) {
+          break;
+        }
+        buckets.delete(oldestKey);
+      }
+    },
+  };
+}
+
+/**
+ * Create a token bucket rate limiter
+ * Keys are namespaced with the given prefix so several limiters can share a store
+ */
+export function createRateLimiter(
+  prefix: string,
+  config: RateLimitConfig,
+  store: RateLimitStore = getRateLimitStore()
+): RateLimiter {
+  return {
+    async consume(key, now = Date.now()) {
+      const bucketKey = `${prefix}:${key}`;
+      const previous = await store.get(bucketKey);
+
+      // Refill tokens for the time elapsed since the last update
+      const elapsed = previous ? Math.max(0, now - previous.updatedAt) : 0;
+      const tokens = previous
+        ? Math.min(config.capacity, previous.tokens + elapsed / config.refillIntervalMs)
+        : config.capacity;
+
+      // Time until the bucket is back to full capacity
+      const ttlFor = (left: number) => Math.ceil((config.capacity - left) * config.refillIntervalMs);
+
+      if (tokens < 1) {
+        await store.set(bucketKey, { tokens, updatedAt: now }, ttlFor(tokens));
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterMs: Math.ceil((1 - tokens) * config.refillIntervalMs),
+        };
+      }
+
+      const remaining = tokens - 1;
+      await store.set(bucketKey, { tokens: remaining, updatedAt: now }, ttlFor(remaining));
+
+      return { allowed: true, remaining: Math.floor(remaining), retryAfterMs: 0 };
+    },
+  };
+}
+
+let activeStore: RateLimitStore | null = null;
+
+/**
+ * Get the active rate limit store (in-memory unless overridden)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    activeStore = createMemoryRateLimitStore();
+  }
+  return activeStore;
+}
+
+/**
+ * Override the active rate limit store; pass null to restore the default
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  activeStore = store;
+}
+
+// Reverse proxies in front of the app, each appending the address it received the request from
+const DEFAULT_TRUSTED_PROXY_COUNT = 1;
+
+function getTrustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(count) && count >= 0 ? count : DEFAULT_TRUSTED_PROXY_COUNT;
+}
+
+/**
+ * Resolve the client IP: the platform-provided `request.ip` when available, otherwise the
+ * x-forwarded-for entry added by our outermost trusted proxy
+ * Entries before it are sent by the client and can't be trusted
+ */
+export function getClientIp(
+  request: { headers: Headers; ip?: string },
+  trustedProxies: number = getTrustedProxyCount()
+): string {
+  if (request.ip) {
+    return request.ip;
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',').map((entry) => entry.trim());
+  if (forwardedFor && trustedProxies > 0 && forwardedFor.length >= trustedProxies) {
+    return forwardedFor[forwardedFor.length - trustedProxies];
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
@@ -0,0 +1,72 @@
+/**
+ * Generic retry with exponential backoff
+ */
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+  backoffMultiplier: number;
+}
+
+export interface RetryOptions {
+  /** Decide whether a failed attempt should be retried (default: always) */
+  isRetryable?: (error: Error) => boolean;
+  /** Map the error before it is thrown to the caller */
+  mapError?: (error: Error) => Error;
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 5000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * Calculate the delay before the given retry attempt (0-based)
+ */
+export function getBackoffDelay(attempt: number, config: RetryConfig): number {
+  return Math.min(
+    config.baseDelay * Math.pow(config.backoffMultiplier, attempt),
+    config.maxDelay
+  );
+}
+
+/**
+ * Retry mechanism with exponential backoff
+ */
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  config: RetryConfig = DEFAULT_RETRY_CONFIG,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { isRetryable = () => true, mapError = (error: Error) => error } = options;
+  let lastError: Error;
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // Don't retry on the last attempt
+      if (attempt === config.maxRetries) {
+        break;
+      }
+
+      // Check if error is retryable
+      if (!isRetryable(lastError)) {
+        throw mapError(lastError);
+      }
+
+      const delay = getBackoffDelay(attempt, config);
+
+      console.warn(`Operation failed (attempt ${attempt + 1}/${config.maxRetries + 1}), retrying in ${delay}ms:`, lastError.message);
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  throw mapError(lastError!);
+}
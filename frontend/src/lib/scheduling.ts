@@ -0,0 +1,222 @@
+/**
+ * Demo scheduling utilities
+ * Turns a weekly availability definition into bookable slots in a fixed time zone
+ * (America/Santiago by default). Pure and safe to use on both client and server.
+ */
+
+import { z } from 'zod';
+import type { DemoSlot } from '@/types';
+
+export const DEFAULT_TIME_ZONE = 'America/Santiago';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+const timeRangeSchema = z
+  .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+  .refine((range) => range.start < range.end, 'Range start must be before its end');
+
+/**
+ * Weekly availability file schema
+ */
+export const availabilitySchema = z.object({
+  timeZone: z
+    .string()
+    .default(DEFAULT_TIME_ZONE)
+    .refine(isValidTimeZone, 'Unknown IANA time zone'),
+  slotMinutes: z.number().int().min(5).max(240).default(30),
+  minNoticeHours: z.number().min(0).default(12),
+  daysAhead: z.number().int().min(1).max(90).default(14),
+  weekly: z.partialRecord(z.enum(WEEKDAYS), z.array(timeRangeSchema)),
+  blackoutDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).default([]),
+});
+
+export type WeeklyAvailability = z.infer<typeof availabilitySchema>;
+
+/**
+ * Check whether Intl recognizes an IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date/time parts of an instant in the given time zone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Convert a wall-clock date (YYYY-MM-DD) and time (HH:mm) in a time zone to a UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Guess with the offset at the wall-clock instant, then correct once for DST transitions
+  const guess = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const corrected = wallClock - getTimeZoneOffsetMs(new Date(guess), timeZone);
+
+  return new Date(corrected);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given time zone
+ */
+export function getZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function getWeekday(date: string): Weekday {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+function fromMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Check whether two slots overlap in time
+ */
+export function slotsOverlap(a: DemoSlot, b: DemoSlot): boolean {
+  return Date.parse(a.start) < Date.parse(b.end) && Date.parse(b.start) < Date.parse(a.end);
+}
+
+/**
+ * Generate the open demo slots, excluding past, too-soon, blacked-out and booked times
+ */
+export function generateSlots(
+  availability: WeeklyAvailability,
+  bookings: DemoSlot[] = [],
+  now: Date = new Date()
+): DemoSlot[] {
+  const { timeZone, slotMinutes, minNoticeHours, daysAhead, weekly, blackoutDates } = availability;
+  const earliestStart = now.getTime() + minNoticeHours * HOUR_MS;
+  const today = getZonedDate(now, timeZone);
+  const slots: DemoSlot[] = [];
+
+  for (let offset = 0; offset <= daysAhead; offset++) {
+    const date = addDays(today, offset);
+    if (blackoutDates.includes(date)) continue;
+
+    for (const range of weekly[getWeekday(date)] ?? []) {
+      const rangeEnd = toMinutes(range.end);
+
+      for (let minutes = toMinutes(range.start); minutes + slotMinutes <= rangeEnd; minutes += slotMinutes) {
+        const start = zonedTimeToUtc(date, fromMinutes(minutes), timeZone);
+        if (start.getTime() < earliestStart) continue;
+
+        const slot: DemoSlot = {
+          start: start.toISOString(),
+          end: new Date(start.getTime() + slotMinutes * MINUTE_MS).toISOString(),
+        };
+
+        if (!bookings.some((booking) => slotsOverlap(slot, booking))) {
+          slots.push(slot);
+        }
+      }
+    }
+  }
+
+  return slots.sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+}
+
+/**
+ * Find the open slot starting at the given instant, if any
+ */
+export function findAvailableSlot(
+  start: string,
+  availability: WeeklyAvailability,
+  bookings: DemoSlot[] = [],
+  now: Date = new Date()
+): DemoSlot | null {
+  const startMs = Date.parse(start);
+  return generateSlots(availability, bookings, now).find((slot) => Date.parse(slot.start) === startMs) ?? null;
+}
+
+/**
+ * Group slots by their calendar date in the given time zone, preserving order
+ */
+export function groupSlotsByDate(slots: DemoSlot[], timeZone: string): Array<{ date: string; slots: DemoSlot[] }> {
+  const groups: Array<{ date: string; slots: DemoSlot[] }> = [];
+
+  for (const slot of slots) {
+    const date = getZonedDate(new Date(slot.start), timeZone);
+    const group = groups[groups.length - 1];
+
+    if (group && group.date === date) {
+      group.slots.push(slot);
+    } else {
+      groups.push({ date, slots: [slot] });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Format a slot's date for display, e.g. "lunes, 12 de enero"
+ */
+export function formatSlotDate(iso: string, timeZone: string, locale = 'es-CL'): string {
+  return new Intl.DateTimeFormat(locale, { timeZone, weekday: 'long', day: 'numeric', month: 'long' }).format(new Date(iso));
+}
+
+/**
+ * Format a slot's time for display, e.g. "09:30"
+ */
+export function formatSlotTime(iso: string, timeZone: string, locale = 'es-CL'): string {
+  return new Intl.DateTimeFormat(locale, { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(new Date(iso));
+}
@@ -0,0 +1,26 @@
+/**
+ * Shared-secret checks for routes used by editors and operators
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Compare a secret in constant time; always false when no secret is configured
+ */
+export function isValidSecret(secret: string | null | undefined, expected: string | undefined): boolean {
+  if (!secret || !expected) {
+    return false;
+  }
+
+  const given = Buffer.from(secret);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
+
+/**
+ * Token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(headers: Headers): string | null {
+  const match = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
@@ -0,0 +1,92 @@
+/**
+ * Copy for the generated OpenGraph/Twitter share images
+ * Each shareable page gets a card: the landing page uses the Hero headline, plan share
+ * links (`/es?plan=pro`) the plan name and price, and legal pages their title
+ */
+
+import { loadContent } from './contentProvider';
+import { formatPrice } from './currency';
+import { getMessages, type Locale } from './i18n';
+import { PLAN_IDS, isFreePlan, localizePlans } from './plans';
+import { isPlanId } from './planSelection';
+import type { SiteContent } from './content';
+import type { LegalDocument } from './legal';
+import type { PlanId } from '@/types';
+
+export interface ShareCard {
+  eyebrow: string;
+  title: string;
+  // Shown in the accent color after the title
+  highlight?: string;
+  description?: string;
+}
+
+// Longer descriptions don't fit the card at a readable size
+const MAX_DESCRIPTION_LENGTH = 160;
+
+function truncate(text: string): string {
+  return text.length > MAX_DESCRIPTION_LENGTH ? `${text.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+}
+
+export function getHomeShareCard(locale: Locale, { hero }: Pick<SiteContent, 'hero'>): ShareCard {
+  return {
+    eyebrow: getMessages(locale).metadata.siteName,
+    title: hero.titlePrefix,
+    highlight: hero.titleHighlight,
+    description: truncate(hero.subtitle),
+  };
+}
+
+export function getPlanShareCard(locale: Locale, planId: PlanId, { plans }: Pick<SiteContent, 'plans'>): ShareCard {
+  const { metadata, pricing } = getMessages(locale);
+  const plan = localizePlans(locale, plans).find((candidate) => candidate.id === planId);
+  if (!plan) {
+    throw new Error(`Unknown plan: ${planId}`);
+  }
+
+  return {
+    eyebrow: metadata.siteName,
+    title: plan.name,
+    highlight: isFreePlan(plan) ? pricing.free : `${formatPrice(plan.monthlyPrice)}${pricing.perMonth}`,
+    description: truncate(plan.description),
+  };
+}
+
+export function getLegalShareCard(locale: Locale, document: Pick<LegalDocument, 'title' | 'description'>): ShareCard {
+  return {
+    eyebrow: getMessages(locale).metadata.siteName,
+    title: document.title,
+    description: truncate(document.description),
+  };
+}
+
+/**
+ * Plain-text alternative for a card image
+ */
+export function getShareCardAlt(card: ShareCard): string {
+  return [card.title, card.highlight].filter(Boolean).join(' ');
+}
+
+// Image variants of the landing page: the default card and one per plan
+export const HOME_SHARE_IMAGE_ID = 'home';
+
+export type HomeShareImageId = typeof HOME_SHARE_IMAGE_ID | PlanId;
+
+export function getHomeShareImageIds(): HomeShareImageId[] {
+  return [HOME_SHARE_IMAGE_ID, ...PLAN_IDS];
+}
+
+/**
+ * Image variant for a landing page URL: the plan card for plan share links, the default card otherwise
+ */
+export function getHomeShareImageId(plan: unknown): HomeShareImageId {
+  return isPlanId(plan) ? plan : HOME_SHARE_IMAGE_ID;
+}
+
+/**
+ * Card for a landing page image variant, from the published content (CMS or bundled files)
+ */
+export async function getHomeVariantShareCard(locale: Locale, id: HomeShareImageId): Promise<ShareCard> {
+  const content = await loadContent(locale);
+  return id === HOME_SHARE_IMAGE_ID ? getHomeShareCard(locale, content) : getPlanShareCard(locale, id, content);
+}
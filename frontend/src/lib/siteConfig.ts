@@ -0,0 +1,73 @@
+/**
+ * Site configuration for SEO
+ * The public origin, locales and indexable routes in one place; the sitemap, robots.txt,
+ * canonical and hreflang links, OpenGraph URLs and structured data are all derived from it
+ */
+
+import type { MetadataRoute } from 'next';
+import { DEFAULT_LOCALE, LOCALES, localeInfo, type Locale } from './i18n';
+import { LEGAL_DOCUMENTS } from './legal';
+
+type ChangeFrequency = NonNullable<MetadataRoute.Sitemap[number]['changeFrequency']>;
+
+export interface SiteRoute {
+  // Path after the locale prefix: '' for the landing page, '/privacy' for a legal page
+  path: string;
+  changeFrequency: ChangeFrequency;
+  priority: number;
+}
+
+export const siteConfig = {
+  // Public origin without a trailing slash; set NEXT_PUBLIC_SITE_URL on preview deployments
+  url: (process.env.NEXT_PUBLIC_SITE_URL || 'https://podoclinic.cl').replace(/\/+$/, ''),
+  locales: LOCALES,
+  defaultLocale: DEFAULT_LOCALE,
+  // Pages listed in the sitemap, in every locale
+  routes: [
+    { path: '', changeFrequency: 'weekly', priority: 1 },
+    ...LEGAL_DOCUMENTS.map((document): SiteRoute => ({ path: `/${document}`, changeFrequency: 'yearly', priority: 0.3 })),
+  ] as ReadonlyArray<SiteRoute>,
+  // Never crawled: API routes and Next.js internals
+  disallow: ['/api/', '/_next/'],
+};
+
+/**
+ * Path of a route in a locale, e.g. "/en/privacy"
+ */
+export function getLocalizedPath(locale: Locale, path: string = ''): string {
+  return `/${locale}${path}`;
+}
+
+export function getAbsoluteUrl(path: string = ''): string {
+  return `${siteConfig.url}${path}`;
+}
+
+/**
+ * Alternate URLs per hreflang code, plus x-default pointing at the default locale
+ */
+export function getLanguageAlternates(path: string = '', locales: ReadonlyArray<Locale> = LOCALES): Record<string, string> {
+  return {
+    ...Object.fromEntries(locales.map((locale) => [localeInfo[locale].htmlLang, getAbsoluteUrl(getLocalizedPath(locale, path))])),
+    ...(locales.includes(DEFAULT_LOCALE) ? { 'x-default': getAbsoluteUrl(getLocalizedPath(DEFAULT_LOCALE, path)) } : {}),
+  };
+}
+
+/**
+ * Canonical URL, hreflang alternates and OpenGraph URL/locales for a page
+ * Spread the result into a page's metadata; `title` and the rest of `openGraph` stay per page
+ */
+export function getPageUrls(locale: Locale, path: string = '') {
+  const url = getAbsoluteUrl(getLocalizedPath(locale, path));
+
+  return {
+    alternates: {
+      canonical: url,
+      languages: getLanguageAlternates(path),
+    },
+    openGraph: {
+      url,
+      locale: localeInfo[locale].ogLocale,
+      alternateLocale: LOCALES.filter((other) => other !== locale).map((other) => localeInfo[other].ogLocale),
+    },
+  };
+}
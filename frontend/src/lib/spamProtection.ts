@@ -0,0 +1,32 @@
+/**
+ * Bot detection signals for the contact form
+ * Shared by the Contact component (which sends them) and the /api/contact route (which checks them)
+ */
+
+// Hidden field real users never see; bots tend to fill every input
+export const HONEYPOT_FIELD = 'website';
+
+// Timestamp of when the form was first rendered
+export const STARTED_AT_FIELD = 'formStartedAt';
+
+// Humans need at least a few seconds to fill in three fields
+export const MIN_SUBMIT_TIME_MS = 3000;
+
+export type SpamSignal = 'honeypot' | 'too_fast';
+
+/**
+ * Inspect a submission payload for bot signals
+ */
+export function detectSpam(payload: Record<string, unknown>, now: number = Date.now()): SpamSignal | null {
+  const honeypot = payload[HONEYPOT_FIELD];
+  if (typeof honeypot === 'string' && honeypot.trim() !== '') {
+    return 'honeypot';
+  }
+
+  const startedAt = Number(payload[STARTED_AT_FIELD]);
+  if (!Number.isFinite(startedAt) || now - startedAt < MIN_SUBMIT_TIME_MS) {
+    return 'too_fast';
+  }
+
+  return null;
+}
@@ -0,0 +1,113 @@
+/**
+ * schema.org structured data (JSON-LD) for search engines
+ * The landing page publishes the product as a SoftwareApplication with one Offer per plan,
+ * the company as an Organization and, when the locale has FAQ content, an FAQPage
+ */
+
+import { companyInfo } from './constants';
+import { getMessages, localeInfo, type Locale } from './i18n';
+import { getPlanOffers, localizePlans } from './plans';
+import { getAbsoluteUrl, getLocalizedPath } from './siteConfig';
+import type { SiteContent } from './content';
+import type { FaqItem } from '@/types';
+
+export type JsonLdNode = { '@type': string } & Record<string, unknown>;
+
+export interface JsonLdGraph {
+  '@context': 'https://schema.org';
+  '@graph': JsonLdNode[];
+}
+
+interface StructuredDataOptions {
+  locale: Locale;
+  content: SiteContent;
+}
+
+const ORGANIZATION_ID = getAbsoluteUrl('/#organization');
+
+/**
+ * The company behind the product, from the Footer's contact details
+ */
+export function getOrganizationJsonLd(): JsonLdNode {
+  // schema.org expects phone numbers without formatting
+  const telephone = companyInfo.phone.replace(/[^\d+]/g, '');
+
+  return {
+    '@type': 'Organization',
+    '@id': ORGANIZATION_ID,
+    name: companyInfo.name,
+    url: getAbsoluteUrl(),
+    email: companyInfo.email,
+    telephone,
+    contactPoint: {
+      '@type': 'ContactPoint',
+      contactType: 'sales',
+      email: companyInfo.email,
+      telephone,
+      areaServed: 'CL',
+      availableLanguage: ['es', 'en', 'pt'],
+    },
+  };
+}
+
+/**
+ * The product with one Offer per plan, priced in CLP
+ */
+export function getSoftwareApplicationJsonLd({ locale, content }: StructuredDataOptions): JsonLdNode {
+  const { metadata } = getMessages(locale);
+  const pageUrl = getAbsoluteUrl(getLocalizedPath(locale));
+
+  return {
+    '@type': 'SoftwareApplication',
+    name: metadata.siteName,
+    description: metadata.description,
+    url: pageUrl,
+    inLanguage: localeInfo[locale].htmlLang,
+    applicationCategory: 'BusinessApplication',
+    operatingSystem: 'Web',
+    offers: getPlanOffers(`${pageUrl}#pricing`, localizePlans(locale, content.plans)),
+    publisher: { '@id': ORGANIZATION_ID },
+  };
+}
+
+/**
+ * FAQPage for the locale's questions, or null when there are none
+ */
+export function getFaqPageJsonLd(faq: FaqItem[] | undefined): JsonLdNode | null {
+  if (!faq || faq.length === 0) {
+    return null;
+  }
+
+  return {
+    '@type': 'FAQPage',
+    mainEntity: faq.map(({ question, answer }) => ({
+      '@type': 'Question',
+      name: question,
+      acceptedAnswer: { '@type': 'Answer', text: answer },
+    })),
+  };
+}
+
+/**
+ * Every structured data node for a landing page, as one JSON-LD document
+ */
+export function getLandingJsonLd(options: StructuredDataOptions): JsonLdGraph {
+  const faqPage = getFaqPageJsonLd(options.content.faq);
+
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [
+      getSoftwareApplicationJsonLd(options),
+      getOrganizationJsonLd(),
+      ...(faqPage ? [faqPage] : []),
+    ],
+  };
+}
+
+/**
+ * JSON for a <script type="application/ld+json"> tag
+ * `<` is escaped so content can never close the script element
+ */
+export function serializeJsonLd(data: JsonLdGraph): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -171,37 +171,6 @@ export const createIntersectionObserver = (
   return new IntersectionObserver(callback, defaultOptions);
 };
 
-/**
- * Utility to format Chilean phone numbers
- */
-export const formatChileanPhone = (phone: string): string => {
-  // Remove all non-digits
-  const digits = phone.replace(/\D/g, "");
-  
-  // Format as +56 9 XXXX XXXX for mobile numbers
-  if (digits.length === 9 && digits.startsWith("9")) {
-    return `+56 ${digits.slice(0, 1)} ${digits.slice(1, 5)} ${digits.slice(5)}`;
-  }
-  
-  // Format as +56 XX XXX XXXX for landline numbers
-  if (digits.length === 9) {
-    return `+56 ${digits.slice(0, 2)} ${digits.slice(2, 5)} ${digits.slice(5)}`;
-  }
-  
-  return phone;
-};
-
-/**
- * Utility to validate Chilean phone numbers
- */
-export const isValidChileanPhone = (phone: string): boolean => {
-  const digits = phone.replace(/\D/g, "");
-  
-  // Chilean mobile numbers: 9 digits starting with 9
-  // Chilean landline numbers: 9 digits (area code + number)
-  return digits.length === 9 && /^[2-9]/.test(digits);
-};
-
 /**
  * Debounce utility function
  */
@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import { PLAN_IDS } from './plans';
+import { attributionSchema } from './attribution';
+import { DEFAULT_LOCALE, getMessages, interpolate, type Messages } from './i18n';
+import {
+  DEFAULT_PHONE_COUNTRY,
+  PHONE_COUNTRIES,
+  PHONE_RULES,
+  formatPhone,
+  isValidMobile,
+  normalizePhone,
+} from './phone';
+import type { ChileanRegionCode, InputOption, PhoneCountry, ProfessionalsRange } from '@/types';
+
+/**
+ * Shared validation rules for contact leads
+ * Used by both the Contact form and the /api/contact route handler so they never drift.
+ * Schemas are built from a locale's message catalog; the exported instances use Spanish
+ */
+
+const defaultMessages = getMessages(DEFAULT_LOCALE);
+
+/**
+ * Normalize a Chilean mobile number to E.164 (+569XXXXXXXX)
+ * Accepts an optional +56, 56 or 0056 prefix and common separators.
+ * Returns null for landlines and anything that is not a Chilean mobile.
+ */
+export function normalizeChileanPhone(phone: string): string | null {
+  return normalizePhone(phone, 'CL');
+}
+
+/**
+ * Check whether a value is a valid Chilean mobile (WhatsApp) number
+ */
+export function isValidChileanMobile(phone: string): boolean {
+  return isValidMobile(phone, 'CL');
+}
+
+/**
+ * Format a Chilean mobile number for display as +56 9 XXXX XXXX
+ * Returns the input unchanged when it is not a valid Chilean mobile
+ */
+export function formatChileanPhone(phone: string): string {
+  return formatPhone(phone, 'CL');
+}
+
+/**
+ * Invalid WhatsApp message naming the country and a local example
+ */
+function getPhoneFormatMessage(messages: Messages, country: PhoneCountry): string {
+  return interpolate(messages.validation.whatsappFormat, {
+    country: messages.countries[country],
+    example: PHONE_RULES[country].example,
+  });
+}
+
+/**
+ * Full name: Latin letters (including accents) separated by single spaces, hyphens or apostrophes
+ */
+export const createNameSchema = ({ validation: messages }: Messages = defaultMessages) =>
+  z
+    .string()
+    .trim()
+    .overwrite((value) => value.replace(/\s+/g, ' '))
+    .min(2, messages.nameMin)
+    .max(50, messages.nameMax)
+    .regex(/^[a-zA-ZÀ-ÖØ-öø-ÿ]+(?:[ '-][a-zA-ZÀ-ÖØ-öø-ÿ]+)*$/, messages.nameFormat);
+
+/**
+ * Email: trimmed and lowercased before validation
+ */
+export const createEmailSchema = ({ validation: messages }: Messages = defaultMessages) =>
+  z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1, messages.emailRequired)
+    .max(254, messages.emailMax)
+    .pipe(z.email(messages.emailFormat));
+
+/**
+ * WhatsApp: mobile number for the given country, normalized to E.164
+ */
+export const createWhatsappSchema = (messages: Messages = defaultMessages, country: PhoneCountry = DEFAULT_PHONE_COUNTRY) =>
+  z
+    .string()
+    .trim()
+    .min(1, messages.validation.whatsappRequired)
+    .refine((value) => isValidMobile(value, country), getPhoneFormatMessage(messages, country))
+    .overwrite((value) => normalizePhone(value, country) ?? value);
+
+export const nameSchema = createNameSchema();
+export const emailSchema = createEmailSchema();
+export const whatsappSchema = createWhatsappSchema();
+
+/**
+ * All 16 Chilean regions, north to south
+ */
+export const CHILEAN_REGIONS: ReadonlyArray<{ value: ChileanRegionCode; label: string }> = [
+  { value: 'AP', label: 'Arica y Parinacota' },
+  { value: 'TA', label: 'Tarapacá' },
+  { value: 'AN', label: 'Antofagasta' },
+  { value: 'AT', label: 'Atacama' },
+  { value: 'CO', label: 'Coquimbo' },
+  { value: 'VS', label: 'Valparaíso' },
+  { value: 'RM', label: 'Metropolitana de Santiago' },
+  { value: 'LI', label: "Libertador General Bernardo O'Higgins" },
+  { value: 'ML', label: 'Maule' },
+  { value: 'NB', label: 'Ñuble' },
+  { value: 'BI', label: 'Biobío' },
+  { value: 'AR', label: 'La Araucanía' },
+  { value: 'LR', label: 'Los Ríos' },
+  { value: 'LL', label: 'Los Lagos' },
+  { value: 'AI', label: 'Aysén del General Carlos Ibáñez del Campo' },
+  { value: 'MA', label: 'Magallanes y de la Antártica Chilena' },
+];
+
+export const PROFESSIONALS_RANGES: ReadonlyArray<InputOption & { value: ProfessionalsRange }> = [
+  { value: '1', label: 'Solo yo' },
+  { value: '2-5', label: '2 a 5 profesionales' },
+  { value: '6-10', label: '6 a 10 profesionales' },
+  { value: '11+', label: 'Más de 10 profesionales' },
+];
+
+const optionValues = <T extends string>(options: ReadonlyArray<{ value: T }>) =>
+  options.map((option) => option.value) as [T, ...T[]];
+
+export function isChileanRegion(value: unknown): value is ChileanRegionCode {
+  return CHILEAN_REGIONS.some((region) => region.value === value);
+}
+
+/**
+ * Optional free text: trimmed, empty strings become undefined
+ */
+const optionalText = (max: number, message: string) =>
+  z
+    .string()
+    .trim()
+    .max(max, message)
+    .optional()
+    .transform((value) => value || undefined);
+
+/**
+ * Validation schema for contact leads
+ */
+export const createContactSchema = (catalog: Messages = defaultMessages) => {
+  const messages = catalog.validation;
+
+  return z.object({
+    fullName: createNameSchema(catalog),
+    email: createEmailSchema(catalog),
+    // Country rules are applied below, once the selected country is known
+    whatsapp: z.string().trim().min(1, messages.whatsappRequired),
+    phoneCountry: z.enum(PHONE_COUNTRIES, messages.phoneCountry).optional(),
+    clinicName: z
+      .string()
+      .trim()
+      .min(2, messages.clinicNameMin)
+      .max(80, messages.clinicNameMax),
+    professionals: z.enum(optionValues(PROFESSIONALS_RANGES), messages.professionals),
+    // A Chilean region code for Chile, free text (province, state) for other countries; checked below
+    region: optionalText(60, messages.regionMax),
+    city: optionalText(60, messages.cityMax),
+    currentSoftware: optionalText(300, messages.currentSoftwareMax),
+    plan: z
+      .enum(PLAN_IDS, messages.plan)
+      .or(z.literal(''))
+      .optional()
+      .transform((value) => value || undefined),
+    // Collected automatically; a malformed value is dropped rather than blocking the lead
+    attribution: attributionSchema.optional().catch(undefined),
+  })
+    .refine((lead) => isValidMobile(lead.whatsapp, lead.phoneCountry), {
+      path: ['whatsapp'],
+      error: (issue) => {
+        const { phoneCountry } = issue.input as { phoneCountry?: PhoneCountry };
+        return getPhoneFormatMessage(catalog, phoneCountry ?? DEFAULT_PHONE_COUNTRY);
+      },
+      // Check the number even while other fields are still invalid, so the form reports it as the user types
+      when: (payload) =>
+        !payload.issues.some((issue) => issue.path?.[0] === 'whatsapp' || issue.path?.[0] === 'phoneCountry'),
+    })
+    .refine((lead) => (lead.phoneCountry ?? DEFAULT_PHONE_COUNTRY) !== 'CL' || isChileanRegion(lead.region), {
+      path: ['region'],
+      error: messages.region,
+      when: (payload) =>
+        !payload.issues.some((issue) => issue.path?.[0] === 'region' || issue.path?.[0] === 'phoneCountry'),
+    })
+    .overwrite((lead) => ({ ...lead, whatsapp: normalizePhone(lead.whatsapp, lead.phoneCountry) ?? lead.whatsapp }));
+};
+
+export const contactSchema = createContactSchema();
+
+// Values as typed in the form (selects start empty) vs. parsed lead data
+export type ContactFormValues = z.input<typeof contactSchema>;
+export type ContactFormInputs = z.output<typeof contactSchema>;
+
+/**
+ * Look up the display label of a select option
+ */
+export function getOptionLabel(options: ReadonlyArray<InputOption>, value: string | undefined): string | undefined {
+  return options.find((option) => option.value === value)?.label;
+}
+
+/**
+ * Flatten Zod issues into a field -> first message map
+ */
+export function getFieldErrors(error: z.ZodError): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+
+  for (const issue of error.issues) {
+    const field = issue.path.join('.');
+    if (field && !fieldErrors[field]) {
+      fieldErrors[field] = issue.message;
+    }
+  }
+
+  return fieldErrors;
+}
@@ -0,0 +1,340 @@
+/**
+ * Core Web Vitals reporting
+ * Metrics measured in the browser (through next/web-vitals) are rated, tagged with the page
+ * and device class, and sent in batches to NEXT_PUBLIC_WEB_VITALS_ENDPOINT (/api/vitals by
+ * default). Like the rest of the first-party analytics, nothing is sent without analytics
+ * consent or when the browser sends Do Not Track
+ */
+
+import { z } from 'zod';
+import { createBeaconTransport, isAnalyticsAllowed, type AnalyticsTransport, type AnalyticsTransportOptions } from './analytics';
+
+export const WEB_VITALS_ENDPOINT = process.env.NEXT_PUBLIC_WEB_VITALS_ENDPOINT || '/api/vitals';
+
+export const WEB_VITAL_NAMES = ['LCP', 'CLS', 'INP', 'FCP', 'TTFB'] as const;
+
+export type WebVitalName = (typeof WEB_VITAL_NAMES)[number];
+
+export const WEB_VITAL_RATINGS = ['good', 'needs-improvement', 'poor'] as const;
+
+export type WebVitalRating = (typeof WEB_VITAL_RATINGS)[number];
+
+// Upper bounds of "good" and "needs improvement" (ms, CLS is unitless), as published on web.dev
+export const WEB_VITAL_THRESHOLDS: Record<WebVitalName, readonly [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+};
+
+export const DEVICE_CLASSES = ['mobile', 'tablet', 'desktop'] as const;
+
+export type DeviceClass = (typeof DEVICE_CLASSES)[number];
+
+// Largest batch the collector accepts
+export const MAX_WEB_VITALS_BATCH_SIZE = 20;
+
+const detail = z.string().min(1).max(256).optional();
+
+export const webVitalSchema = z.strictObject({
+  name: z.enum(WEB_VITAL_NAMES),
+  value: z.number().nonnegative().max(600_000),
+  rating: z.enum(WEB_VITAL_RATINGS),
+  // Unique per metric and page load, lets the collector drop duplicates
+  id: z.string().min(1).max(64),
+  navigationType: z.string().max(32).optional(),
+  path: z.string().startsWith('/').max(512),
+  deviceClass: z.enum(DEVICE_CLASSES),
+  // What caused the value, e.g. the LCP element or the element that was clicked
+  attribution: z
+    .strictObject({
+      target: detail,
+      resource: detail,
+      eventType: detail,
+    })
+    .optional(),
+  timestamp: z.iso.datetime(),
+});
+
+export const webVitalsBatchSchema = z.object({
+  metrics: z.array(webVitalSchema).min(1).max(MAX_WEB_VITALS_BATCH_SIZE),
+});
+
+export type WebVitalSample = z.infer<typeof webVitalSchema>;
+
+export type WebVitalAttribution = NonNullable<WebVitalSample['attribution']>;
+
+// The parts of a web-vitals `Metric` the reporter reads
+export interface WebVitalMetric {
+  name: string;
+  value: number;
+  id: string;
+  navigationType?: string;
+  entries: PerformanceEntry[];
+}
+
+export function isWebVitalName(value: unknown): value is WebVitalName {
+  return WEB_VITAL_NAMES.includes(value as WebVitalName);
+}
+
+export function rateWebVital(name: WebVitalName, value: number): WebVitalRating {
+  const [good, needsImprovement] = WEB_VITAL_THRESHOLDS[name];
+  if (value <= good) {
+    return 'good';
+  }
+  return value <= needsImprovement ? 'needs-improvement' : 'poor';
+}
+
+/**
+ * Device class from the viewport width, using the Tailwind md and lg breakpoints
+ */
+export function getDeviceClass(viewportWidth: number): DeviceClass {
+  if (viewportWidth < 768) {
+    return 'mobile';
+  }
+  return viewportWidth < 1024 ? 'tablet' : 'desktop';
+}
+
+/**
+ * Short CSS-like selector for an element, e.g. "section#pricing>div.grid>img"
+ */
+export function getElementSelector(node: Node | null | undefined, maxDepth = 3): string | undefined {
+  const parts: string[] = [];
+  let element = node instanceof Element ? node : node?.parentElement ?? null;
+
+  while (element && parts.length < maxDepth && element !== document.body) {
+    const className = typeof element.className === 'string' ? element.className.trim().split(/\s+/)[0] : '';
+    parts.unshift(
+      element.tagName.toLowerCase() + (element.id ? `#${element.id}` : className ? `.${className}` : '')
+    );
+    if (element.id) {
+      break;
+    }
+    element = element.parentElement;
+  }
+
+  return parts.length > 0 ? parts.join('>').slice(0, 256) : undefined;
+}
+
+// Resource URLs without query strings, which can carry tokens
+function stripQuery(url: string): string | undefined {
+  return url ? url.split(/[?#]/)[0].slice(0, 256) : undefined;
+}
+
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  sources?: Array<{ node?: Node | null }>;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  target?: Node | null;
+}
+
+/**
+ * What caused a metric's value, read from its performance entries
+ */
+export function getWebVitalAttribution(name: WebVitalName, entries: PerformanceEntry[]): WebVitalAttribution | undefined {
+  let attribution: WebVitalAttribution | undefined;
+
+  if (name === 'LCP') {
+    const entry = entries[entries.length - 1] as LargestContentfulPaint | undefined;
+    attribution = entry && { target: getElementSelector(entry.element), resource: stripQuery(entry.url) };
+  } else if (name === 'CLS') {
+    const largest = (entries as LayoutShiftEntry[]).reduce<LayoutShiftEntry | undefined>(
+      (current, entry) => (!current || entry.value > current.value ? entry : current),
+      undefined
+    );
+    attribution = largest && { target: getElementSelector(largest.sources?.[0]?.node) };
+  } else if (name === 'INP') {
+    const entry = (entries as EventTimingEntry[]).reduce<EventTimingEntry | undefined>(
+      (current, candidate) => (!current || candidate.duration > current.duration ? candidate : current),
+      undefined
+    );
+    attribution = entry && { target: getElementSelector(entry.target), eventType: entry.name };
+  }
+
+  const defined = Object.entries(attribution ?? {}).filter(([, value]) => value);
+  return defined.length > 0 ? Object.fromEntries(defined) : undefined;
+}
+
+/**
+ * Sample to send for a measured metric, or null for metrics the collector doesn't track
+ */
+export function toWebVitalSample(metric: WebVitalMetric, now: Date = new Date()): WebVitalSample | null {
+  if (!isWebVitalName(metric.name)) {
+    return null;
+  }
+
+  return {
+    name: metric.name,
+    // CLS keeps its decimals, timings are rounded to the millisecond
+    value: metric.name === 'CLS' ? Math.round(metric.value * 10_000) / 10_000 : Math.round(metric.value),
+    rating: rateWebVital(metric.name, metric.value),
+    id: metric.id.slice(0, 64),
+    navigationType: metric.navigationType,
+    path: window.location.pathname,
+    deviceClass: getDeviceClass(window.innerWidth),
+    attribution: getWebVitalAttribution(metric.name, metric.entries),
+    timestamp: now.toISOString(),
+  };
+}
+
+export interface WebVitalsReporterOptions {
+  endpoint?: string;
+  transport?: AnalyticsTransport;
+  isEnabled?: () => boolean;
+  // Delay after the first queued metric before sending
+  flushIntervalMs?: number;
+}
+
+export interface WebVitalsReporter {
+  report(metric: WebVitalMetric): void;
+  flush(options?: Partial<AnalyticsTransportOptions>): void;
+}
+
+const DEFAULT_FLUSH_INTERVAL_MS = 10_000;
+
+/**
+ * Browser-side metric queue
+ * LCP, CLS and INP are final only when the page is hidden, so that is when most batches go out
+ */
+export function createWebVitalsReporter(options: WebVitalsReporterOptions = {}): WebVitalsReporter {
+  const transport = options.transport ?? createBeaconTransport(options.endpoint ?? WEB_VITALS_ENDPOINT);
+  const isEnabled = options.isEnabled ?? isAnalyticsAllowed;
+  const flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+
+  let queue: WebVitalSample[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let listening = false;
+
+  const flush = ({ beacon = false }: Partial<AnalyticsTransportOptions> = {}) => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    while (queue.length > 0) {
+      const metrics = queue.slice(0, MAX_WEB_VITALS_BATCH_SIZE);
+      queue = queue.slice(MAX_WEB_VITALS_BATCH_SIZE);
+      transport(JSON.stringify({ metrics }), { beacon });
+    }
+  };
+
+  const listenForPageHide = () => {
+    if (listening) {
+      return;
+    }
+    listening = true;
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        flush({ beacon: true });
+      }
+    });
+    window.addEventListener('pagehide', () => flush({ beacon: true }));
+  };
+
+  return {
+    report(metric) {
+      if (typeof window === 'undefined' || !isEnabled()) {
+        return;
+      }
+
+      const sample = toWebVitalSample(metric);
+      if (!sample) {
+        return;
+      }
+
+      listenForPageHide();
+      queue.push(sample);
+      if (!timer) {
+        timer = setTimeout(() => flush(), flushIntervalMs);
+      }
+    },
+
+    flush,
+  };
+}
+
+let activeReporter: WebVitalsReporter | null = null;
+
+/**
+ * Get the active Web Vitals reporter (posting to WEB_VITALS_ENDPOINT unless overridden)
+ */
+export function getWebVitalsReporter(): WebVitalsReporter {
+  if (!activeReporter) {
+    activeReporter = createWebVitalsReporter();
+  }
+  return activeReporter;
+}
+
+/**
+ * Override the active reporter; pass null to restore the default
+ */
+export function setWebVitalsReporter(reporter: WebVitalsReporter | null): void {
+  activeReporter = reporter;
+}
+
+export interface WebVitalSummary {
+  path: string;
+  deviceClass: DeviceClass;
+  name: WebVitalName;
+  count: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  // Share of samples rated good, 0 to 1
+  good: number;
+}
+
+/**
+ * Nearest-rank percentile of ascending values
+ */
+export function percentile(sorted: number[], rank: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((rank / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+/**
+ * Percentiles per page, device class and metric, the way field data is usually reported (p75 first)
+ */
+export function summarizeWebVitals(samples: WebVitalSample[]): WebVitalSummary[] {
+  const groups = new Map<string, WebVitalSample[]>();
+
+  for (const sample of samples) {
+    const key = [sample.path, sample.deviceClass, sample.name].join(' ');
+    const group = groups.get(key);
+    if (group) {
+      group.push(sample);
+    } else {
+      groups.set(key, [sample]);
+    }
+  }
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const values = group.map((sample) => sample.value).sort((a, b) => a - b);
+      const [{ path, deviceClass, name }] = group;
+
+      return {
+        path,
+        deviceClass,
+        name,
+        count: group.length,
+        p50: percentile(values, 50),
+        p75: percentile(values, 75),
+        p95: percentile(values, 95),
+        good: Math.round((group.filter((sample) => sample.rating === 'good').length / group.length) * 100) / 100,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.path.localeCompare(b.path) ||
+        DEVICE_CLASSES.indexOf(a.deviceClass) - DEVICE_CLASSES.indexOf(b.deviceClass) ||
+        WEB_VITAL_NAMES.indexOf(a.name) - WEB_VITAL_NAMES.indexOf(b.name)
+    );
+}
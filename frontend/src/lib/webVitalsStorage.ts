@@ -0,0 +1,91 @@
+/**
+ * Pluggable persistence for Web Vitals samples
+ * Defaults to a local JSON file; swap the adapter with setWebVitalsStorage()
+ */
+
+import { createJsonFileStore, getDataFilePath } from './jsonFileStore';
+import type { WebVitalSample } from './webVitals';
+
+export interface WebVitalsStorage {
+  append(samples: WebVitalSample[]): Promise<void>;
+  list(): Promise<WebVitalSample[]>;
+}
+
+export interface FileWebVitalsStorageOptions {
+  // Oldest samples beyond this are dropped
+  maxSamples?: number;
+}
+
+const DEFAULT_WEB_VITALS_FILE = getDataFilePath('web-vitals.json');
+
+const DEFAULT_MAX_SAMPLES = 20_000;
+
+// CLS and INP are reported again with the same id when they grow; only the latest value counts
+function merge(stored: WebVitalSample[], samples: WebVitalSample[]): void {
+  const indexById = new Map(stored.map((sample, index) => [sample.id, index]));
+
+  for (const sample of samples) {
+    const index = indexById.get(sample.id);
+    if (index === undefined) {
+      indexById.set(sample.id, stored.push(sample) - 1);
+    } else {
+      stored[index] = sample;
+    }
+  }
+}
+
+/**
+ * JSON file storage, writes are serialized to avoid lost updates
+ */
+export function createFileWebVitalsStorage(
+  filePath: string = DEFAULT_WEB_VITALS_FILE,
+  { maxSamples = DEFAULT_MAX_SAMPLES }: FileWebVitalsStorageOptions = {}
+): WebVitalsStorage {
+  const store = createJsonFileStore<WebVitalSample>(filePath, { maxItems: maxSamples });
+
+  return {
+    append(samples) {
+      return store.update((stored) => merge(stored, samples));
+    },
+
+    list() {
+      return store.read();
+    },
+  };
+}
+
+/**
+ * In-memory storage, useful for tests and previews
+ */
+export function createMemoryWebVitalsStorage(): WebVitalsStorage {
+  const stored: WebVitalSample[] = [];
+
+  return {
+    async append(samples) {
+      merge(stored, samples);
+    },
+
+    async list() {
+      return [...stored];
+    },
+  };
+}
+
+let activeStorage: WebVitalsStorage | null = null;
+
+/**
+ * Get the active Web Vitals storage (file storage unless overridden)
+ */
+export function getWebVitalsStorage(): WebVitalsStorage {
+  if (!activeStorage) {
+    activeStorage = createFileWebVitalsStorage(process.env.WEB_VITALS_STORAGE_PATH || DEFAULT_WEB_VITALS_FILE);
+  }
+  return activeStorage;
+}
+
+/**
+ * Override the active Web Vitals storage; pass null to restore the default
+ */
+export function setWebVitalsStorage(storage: WebVitalsStorage | null): void {
+  activeStorage = storage;
+}
@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { LOCALE_COOKIE, getLocaleFromPath, isLocale, localizePath, matchLocale } from '@/lib/i18n';
+import { VISITOR_COOKIE, VISITOR_COOKIE_MAX_AGE_SECONDS, createVisitorId, isVisitorId } from '@/lib/experiments';
+import { CONSENT_COOKIE, isCategoryGranted, parseConsent } from '@/lib/consent';
+
+/**
+ * Give new visitors an experiment ID
+ * It is also added to this request's cookies so the first server render already uses it
+ * Without analytics consent the cookie only lasts for the browser session
+ */
+function withVisitorId(request: NextRequest): NextResponse {
+  if (isVisitorId(request.cookies.get(VISITOR_COOKIE)?.value)) {
+    return NextResponse.next();
+  }
+
+  const visitorId = createVisitorId();
+  request.cookies.set(VISITOR_COOKIE, visitorId);
+
+  const analyticsGranted = isCategoryGranted(parseConsent(request.cookies.get(CONSENT_COOKIE)?.value), 'analytics');
+
+  const response = NextResponse.next({ request: { headers: request.headers } });
+  response.cookies.set(VISITOR_COOKIE, visitorId, {
+    path: '/',
+    ...(analyticsGranted && { maxAge: VISITOR_COOKIE_MAX_AGE_SECONDS }),
+    sameSite: 'lax',
+    httpOnly: true,
+  });
+  return response;
+}
+
+/**
+ * Locale routing and experiment bucketing
+ * Paths without a locale prefix are redirected to the visitor's saved
+ * language (cookie) or the best match from Accept-Language
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (getLocaleFromPath(pathname)) {
+    return withVisitorId(request);
+  }
+
+  const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(saved) ? saved : matchLocale(request.headers.get('accept-language'));
+
+  const url = request.nextUrl.clone();
+  url.pathname = localizePath(pathname, locale);
+  url.search = search;
+
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Skip API routes, Next.js internals, files with an extension (favicon, images, etc.) and generated share images
+  matcher: ['/((?!api|_next|.*\\..*|.*(?:opengraph|twitter)-image).*)'],
+};
@@ -1,19 +1,121 @@
 // Contact form data types
+export type PlanId = 'basico' | 'pro' | 'premium';
+
+export type ProfessionalsRange = '1' | '2-5' | '6-10' | '11+';
+
+// Countries with WhatsApp number rules (ISO 3166-1 alpha-2)
+export type PhoneCountry = 'CL' | 'PE' | 'AR' | 'CO' | 'MX';
+
+// Currencies prices can be displayed in; billing is always in CLP
+export type CurrencyCode = 'CLP' | 'PEN' | 'ARS' | 'COP' | 'MXN' | 'USD';
+
+// ISO 3166-2:CL region codes
+export type ChileanRegionCode =
+  | 'AP' | 'TA' | 'AN' | 'AT' | 'CO' | 'VS' | 'RM' | 'LI'
+  | 'ML' | 'NB' | 'BI' | 'AR' | 'LR' | 'LL' | 'AI' | 'MA';
+
 export interface ContactFormData {
   fullName: string;
   email: string;
   whatsapp: string;
+  phoneCountry?: PhoneCountry; // country the WhatsApp number was validated for (Chile when absent)
+  clinicName: string;
+  professionals: ProfessionalsRange;
+  region?: string; // ChileanRegionCode for Chile (required there), free text for other countries
+  city?: string;
+  currentSoftware?: string;
+  plan?: PlanId;
+  attribution?: LeadAttribution; // where the visitor came from, captured in the browser session
+  experiments?: Record<string, string>; // experiment -> variant shown, set by the API from the visitor cookie
+}
+
+// Marketing attribution for a visit: UTM parameters, referring site and landing page
+export interface AttributionTouch {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+  referrer?: string; // host of the referring site, external sites only
+  landingPage: string;
+  at: string;
+}
+
+export interface LeadAttribution {
+  firstTouch: AttributionTouch;
+  lastTouch: AttributionTouch;
+  sectionsViewed: string[]; // landing sections seen before submitting, in order
+}
+
+// Stored lead data types
+export interface Lead extends ContactFormData {
+  id: string;
+  createdAt: string;
+}
+
+// Demo scheduling types
+export interface DemoSlot {
+  start: string; // ISO 8601 UTC
+  end: string;
+}
+
+export interface DemoBooking extends DemoSlot {
+  id: string;
+  leadId: string;
+  createdAt: string;
+}
+
+export interface DemoSlotsResponse {
+  timeZone: string;
+  slots: DemoSlot[];
 }
 
 // Pricing plan data types
+export type PlanLimit = number | 'unlimited';
+
+export type PlanCapability =
+  | 'agenda'
+  | 'patientRecords'
+  | 'emailReminders'
+  | 'whatsappReminders'
+  | 'inventory'
+  | 'stockAlerts'
+  | 'expenses'
+  | 'electronicInvoicing'
+  | 'basicReports'
+  | 'advancedReports'
+  | 'accountingIntegration'
+  | 'api'
+  | 'dailyBackup'
+  | 'emailSupport'
+  | 'prioritySupport'
+  | 'phoneSupport'
+  | 'training';
+
 export interface PricingPlan {
-  id: string;
+  id: PlanId;
   name: string;
-  price: number | 'free';
+  description: string;
+  monthlyPrice: number; // CLP, 0 for the free plan
   popular?: boolean;
+  userLimit: PlanLimit;
+  patientLimit: PlanLimit;
   features: string[];
-  userLimit: number | 'unlimited';
-  patientLimit: number | 'unlimited';
+  limitations?: string[];
+  // Included capabilities for the comparison table; a string qualifies the inclusion
+  capabilities: Partial<Record<PlanCapability, true | string>>;
+  ctaLabel: string;
+}
+
+// Hero copy edited in the content files
+export interface HeroContent {
+  titlePrefix: string;
+  titleHighlight: string;
+  subtitle: string;
+  primaryCta: string;
+  secondaryCta: string;
+  highlights: Array<{ title: string; description: string }>;
+  scrollHint: string;
 }
 
 // Benefit data types
@@ -22,6 +124,11 @@ export interface Benefit {
   title: string;
   description: string;
   icon: string;
+  stat: {
+    value: number;
+    suffix: string;
+    label: string;
+  };
 }
 
 // Feature data types
@@ -30,6 +137,32 @@ export interface Feature {
   title: string;
   description: string;
   icon: string;
+  details: string[];
+}
+
+// App screenshot shown in the features gallery
+export interface GalleryItem {
+  id: string;
+  image: string; // path under /public
+  alt: string;
+  title: string;
+  description: string;
+  features: string[];
+}
+
+// Frequently asked question edited in the content files
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+// Plan copy edited in the content files; prices and limits stay in lib/plans
+export interface PlanContent {
+  name: string;
+  description: string;
+  features: string[];
+  limitations: string[];
+  cta: string;
 }
 
 // Component prop types
@@ -50,9 +183,14 @@ export interface CardProps {
   animated?: boolean;
 }
 
+export interface InputOption {
+  value: string;
+  label: string;
+}
+
 export interface InputProps {
   label: string;
-  type?: 'text' | 'email' | 'tel';
+  type?: 'text' | 'email' | 'tel' | 'select' | 'textarea';
   name: string;
   value: string;
   onChange: (value: string) => void;
@@ -60,6 +198,9 @@ export interface InputProps {
   error?: string;
   placeholder?: string;
   className?: string;
+  options?: InputOption[]; // select only
+  rows?: number; // textarea only
+  maxLength?: number;
 }
 
 // Animation types
@@ -95,6 +236,13 @@ export interface SectionProps {
 export interface FootModelProps {
   className?: string;
   animated?: boolean;
+  scrollY?: number;
+  // Pointer position over the hero, 0 to 1 on each axis
+  mousePosition?: { x: number; y: number };
+  // Geometry detail from the performance preset, 0 to 1
+  detail?: number;
+  // Called when WebGL is unavailable or the context is lost, so the parent can show a fallback
+  onUnavailable?: () => void;
 }
 
 // Form validation error types
@@ -102,14 +250,32 @@ export interface FormErrors {
   fullName?: string;
   email?: string;
   whatsapp?: string;
+  clinicName?: string;
+  professionals?: string;
+  region?: string;
+  city?: string;
+  currentSoftware?: string;
+  plan?: string;
 }
 
 // API response types
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'validation_error'
+  | 'storage_error'
+  | 'submission_too_fast'
+  | 'rate_limited'
+  | 'not_found'
+  | 'slot_unavailable'
+  | 'already_booked'
+  | 'unauthorized';
+
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
-  error?: string;
+  error?: ApiErrorCode;
   message?: string;
+  fieldErrors?: Record<string, string>;
 }
 
 // Theme and design system types